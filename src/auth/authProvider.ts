@@ -1,40 +1,157 @@
 import * as vscode from 'vscode';
 import { AuthCredentials } from '../types';
 import { httpRequest } from '../utils/httpClient';
+import { ProfileManager } from './profiles';
+import { AuthCallbackHandler, SignInResult, signInWithBrowser, signInWithDeviceCode } from './signIn';
 
-export class AuthProvider {
+type SignInMethod = 'browser' | 'deviceCode' | 'apiKey';
+// 'rejected' is the server refusing the key (401/403); 'unavailable' is any other failure, e.g. the server is down
+type KeyValidation = 'valid' | 'rejected' | 'unavailable';
+
+/**
+ * Loro Templates as a VS Code authentication provider, so the account shows up in the
+ * Accounts menu. Credentials are kept per environment profile; keys are suffixed with the
+ * profile's storage suffix and only the active profile's session is reported.
+ */
+export class AuthProvider implements vscode.AuthenticationProvider {
+    static readonly ID = 'loro';
+    static readonly LABEL = 'Loro Templates';
     private static readonly API_KEY_SECRET = 'loro.apiKey';
     private static readonly USER_EMAIL_KEY = 'loro.userEmail';
-    
-    private _isAuthenticated = false;
 
-    constructor(private context: vscode.ExtensionContext) {}
+    private _onDidChangeSessions = new vscode.EventEmitter<vscode.AuthenticationProviderAuthenticationSessionsChangeEvent>();
+    readonly onDidChangeSessions = this._onDidChangeSessions.event;
+
+    private session: vscode.AuthenticationSession | undefined;
+    private callbacks = new AuthCallbackHandler();
+
+    constructor(private context: vscode.ExtensionContext, private profiles: ProfileManager) {}
+
+    // Registers the provider and the browser sign-in callback; called once on activation
+    register(): vscode.Disposable {
+        return vscode.Disposable.from(
+            vscode.authentication.registerAuthenticationProvider(AuthProvider.ID, AuthProvider.LABEL, this),
+            vscode.window.registerUriHandler(this.callbacks),
+            this._onDidChangeSessions
+        );
+    }
 
+    // Also called after switching profiles, to pick up the new profile's stored key
     async initialize(): Promise<void> {
-        const apiKey = await this.context.secrets.get(AuthProvider.API_KEY_SECRET);
-        if (apiKey) {
-            const isValid = await this.validateApiKey(apiKey);
-            if (isValid) {
-                this._isAuthenticated = true;
-                await vscode.commands.executeCommand('setContext', 'loro.authenticated', true);
+        let session: vscode.AuthenticationSession | undefined;
+        const credentials = await this.getCredentials();
+        if (credentials) {
+            const validation = await this.validateApiKey(credentials.apiKey);
+            if (validation !== 'rejected') {
+                // An unreachable server keeps the key; requests fail until the server is back
+                session = this.toSession(credentials);
             } else {
                 // Invalid stored key, remove it
-                await this.context.secrets.delete(AuthProvider.API_KEY_SECRET);
-                await this.context.globalState.update(AuthProvider.USER_EMAIL_KEY, undefined);
+                await this.context.secrets.delete(this.getApiKeySecret());
+                await this.context.globalState.update(this.getUserEmailKey(), undefined);
             }
         }
+        await this.setSession(session);
+    }
+
+    async getSessions(_scopes?: readonly string[]): Promise<vscode.AuthenticationSession[]> {
+        return this.session ? [this.session] : [];
+    }
+
+    // Called from the Accounts menu and by login(); Loro has no scopes, so they are ignored
+    async createSession(_scopes: readonly string[]): Promise<vscode.AuthenticationSession> {
+        const result = await this.signIn();
+        if (!result) {
+            throw new vscode.CancellationError();
+        }
+
+        await this.context.secrets.store(this.getApiKeySecret(), result.apiKey);
+        await this.context.globalState.update(this.getUserEmailKey(), result.email);
+
+        const session = this.toSession({ apiKey: result.apiKey, userEmail: result.email });
+        await this.setSession(session);
+        return session;
+    }
+
+    async removeSession(_sessionId: string): Promise<void> {
+        await this.context.secrets.delete(this.getApiKeySecret());
+        await this.context.globalState.update(this.getUserEmailKey(), undefined);
+        await this.setSession(undefined);
     }
 
     async login(): Promise<boolean> {
+        try {
+            await this.createSession([]);
+            return true;
+        } catch (error) {
+            if (!(error instanceof vscode.CancellationError)) {
+                vscode.window.showErrorMessage(`Sign-in to Loro Templates failed: ${error instanceof Error ? error.message : error}`);
+            }
+            return false;
+        }
+    }
+
+    async logout(): Promise<void> {
+        await this.removeSession(this.session?.id || '');
+    }
+
+    async getCredentials(): Promise<AuthCredentials | null> {
+        const apiKey = await this.context.secrets.get(this.getApiKeySecret());
+        if (!apiKey) {
+            return null;
+        }
+
+        const userEmail = this.context.globalState.get<string>(this.getUserEmailKey());
+        
+        return {
+            apiKey,
+            userEmail
+        };
+    }
+
+    isAuthenticated(): boolean {
+        return this.session !== undefined;
+    }
+
+    private async signIn(): Promise<SignInResult | undefined> {
+        const profile = this.profiles.getActiveProfile();
+        const methods: (vscode.QuickPickItem & { method: SignInMethod })[] = [
+            { label: '$(globe) Sign in with Browser', detail: 'Sign in on the Loro website and return to VS Code', method: 'browser' },
+            { label: '$(key) Sign in with a Device Code', detail: 'Confirm a code in any browser, e.g. when VS Code runs remotely', method: 'deviceCode' },
+            { label: '$(pencil) Enter an API Key', detail: 'Paste a key from the lorotemplates.com dashboard', method: 'apiKey' }
+        ];
+        const picked = await vscode.window.showQuickPick(methods, {
+            placeHolder: this.profiles.hasProfiles()
+                ? `Sign in to Loro Templates for "${profile.name}" (${profile.endpoint})`
+                : 'Sign in to Loro Templates',
+            ignoreFocusOut: true
+        });
+
+        switch (picked?.method) {
+            case 'browser':
+                return signInWithBrowser(this.context, profile.endpoint, this.callbacks);
+            case 'deviceCode':
+                return signInWithDeviceCode(profile.endpoint);
+            case 'apiKey':
+                return this.enterApiKey();
+            default:
+                return undefined;
+        }
+    }
+
+    private async enterApiKey(): Promise<SignInResult | undefined> {
+        const profile = this.profiles.getActiveProfile();
         const apiKey = await vscode.window.showInputBox({
-            prompt: 'Enter your Loro Templates API Key',
+            prompt: this.profiles.hasProfiles()
+                ? `Enter your Loro Templates API Key for "${profile.name}" (${profile.endpoint})`
+                : 'Enter your Loro Templates API Key',
             password: true,
             placeHolder: 'Get your API key from lorotemplates.com dashboard',
             ignoreFocusOut: true
         });
 
         if (!apiKey) {
-            return false;
+            return undefined;
         }
 
         // Show progress while validating
@@ -43,57 +160,62 @@ export class AuthProvider {
             title: 'Validating API key...',
             cancellable: false
         }, async () => {
-            const isValid = await this.validateApiKey(apiKey);
-            
-            if (isValid) {
-                // Store credentials
-                await this.context.secrets.store(AuthProvider.API_KEY_SECRET, apiKey);
-                
-                // Try to get user info
-                const userEmail = await this.fetchUserEmail(apiKey);
-                if (userEmail) {
-                    await this.context.globalState.update(AuthProvider.USER_EMAIL_KEY, userEmail);
-                }
-
-                this._isAuthenticated = true;
-                await vscode.commands.executeCommand('setContext', 'loro.authenticated', true);
-                return true;
-            } else {
-                vscode.window.showErrorMessage('Invalid API key. Please check your API key and try again.');
-                return false;
+            const validation = await this.validateApiKey(apiKey);
+            if (validation === 'rejected') {
+                throw new Error('Invalid API key. Please check your API key and try again.');
+            }
+            if (validation === 'unavailable') {
+                throw new Error(`Could not validate the API key against ${profile.endpoint}.`);
             }
+
+            // Try to get user info
+            const userEmail = await this.fetchUserEmail(apiKey);
+            return { apiKey, email: userEmail || undefined };
         });
     }
 
-    async logout(): Promise<void> {
-        await this.context.secrets.delete(AuthProvider.API_KEY_SECRET);
-        await this.context.globalState.update(AuthProvider.USER_EMAIL_KEY, undefined);
-        this._isAuthenticated = false;
-        await vscode.commands.executeCommand('setContext', 'loro.authenticated', false);
-    }
+    // Updates the session and tells VS Code (and the Accounts menu) when it changed
+    private async setSession(session: vscode.AuthenticationSession | undefined): Promise<void> {
+        const previous = this.session;
+        this.session = session;
+        await vscode.commands.executeCommand('setContext', 'loro.authenticated', session !== undefined);
 
-    async getCredentials(): Promise<AuthCredentials | null> {
-        const apiKey = await this.context.secrets.get(AuthProvider.API_KEY_SECRET);
-        if (!apiKey) {
-            return null;
+        if (previous?.id === session?.id && previous?.accessToken === session?.accessToken) {
+            return;
+        }
+        if (previous && session && previous.id === session.id) {
+            this._onDidChangeSessions.fire({ added: [], removed: [], changed: [session] });
+        } else {
+            this._onDidChangeSessions.fire({ added: session ? [session] : [], removed: previous ? [previous] : [], changed: [] });
         }
+    }
 
-        const userEmail = this.context.globalState.get<string>(AuthProvider.USER_EMAIL_KEY);
-        
+    // One session per profile; the account is the email when the server reported it
+    private toSession(credentials: AuthCredentials): vscode.AuthenticationSession {
+        const profile = this.profiles.getActiveProfile();
+        const label = credentials.userEmail
+            || (this.profiles.hasProfiles() ? `API key (${profile.name})` : 'API key');
         return {
-            apiKey,
-            userEmail
+            id: AuthProvider.ID + profile.storageSuffix,
+            accessToken: credentials.apiKey,
+            account: { id: credentials.userEmail || profile.name, label },
+            scopes: []
         };
     }
 
-    isAuthenticated(): boolean {
-        return this._isAuthenticated;
+    // SecretStorage key of the active profile's API key
+    getApiKeySecret(): string {
+        return AuthProvider.API_KEY_SECRET + this.profiles.getActiveProfile().storageSuffix;
+    }
+
+    private getUserEmailKey(): string {
+        return AuthProvider.USER_EMAIL_KEY + this.profiles.getActiveProfile().storageSuffix;
     }
 
-    private async validateApiKey(apiKey: string): Promise<boolean> {
+    private async validateApiKey(apiKey: string): Promise<KeyValidation> {
         try {
-            const config = vscode.workspace.getConfiguration('loro');
-            const apiEndpoint = config.get<string>('apiEndpoint', 'https://api.lorotemplates.com');
+            const profile = this.profiles.getActiveProfile();
+            const apiEndpoint = profile.endpoint;
             
             console.log(`Validating API key against: ${apiEndpoint}/api/usage/dashboard`);
             console.log(`API Key: ${apiKey.substring(0, 8)}...`);
@@ -114,28 +236,31 @@ export class AuthProvider {
                 
                 // Show detailed error to user
                 vscode.window.showErrorMessage(
-                    `API Key validation failed: ${response.status} ${response.statusText}. ` +
-                    `Make sure your local development server is running on port 5000.`
+                    `API Key validation failed against ${apiEndpoint} (profile "${profile.name}"): ` +
+                    `${response.status} ${response.statusText}.`
                 );
             }
 
-            return response.ok;
+            if (response.ok) {
+                return 'valid';
+            }
+            return response.status === 401 || response.status === 403 ? 'rejected' : 'unavailable';
         } catch (error) {
             console.error('Error validating API key:', error);
             
+            const profile = this.profiles.getActiveProfile();
             vscode.window.showErrorMessage(
-                `Failed to connect to API: ${error}. ` +
-                `Make sure your local development server is running.`
+                `Failed to connect to ${profile.endpoint} (profile "${profile.name}"): ${error}. ` +
+                `Check the endpoint in your Loro settings and that the server is reachable.`
             );
             
-            return false;
+            return 'unavailable';
         }
     }
 
     private async fetchUserEmail(apiKey: string): Promise<string | null> {
         try {
-            const config = vscode.workspace.getConfiguration('loro');
-            const apiEndpoint = config.get<string>('apiEndpoint', 'https://api.lorotemplates.com');
+            const apiEndpoint = this.profiles.getActiveProfile().endpoint;
             
             const response = await httpRequest(`${apiEndpoint}/api/usage/dashboard`, {
                 method: 'GET',
@@ -0,0 +1,100 @@
+import * as vscode from 'vscode';
+import { DEFAULT_API_ENDPOINT } from '../core/apiClient';
+
+const ACTIVE_PROFILE_KEY = 'loro.activeProfile';
+const DEFAULT_PROFILE_NAME = 'Default';
+
+// A Loro server to work against (e.g. local, staging, production) with its own API key
+export interface EnvironmentProfile {
+    name: string;
+    endpoint: string;
+    // Overrides loro.syncFolder, so each environment can be mirrored into its own folder
+    syncFolder?: string;
+    // SecretStorage and global state keys are suffixed with this so profiles never share a key
+    storageSuffix: string;
+}
+
+/**
+ * Environment profiles from the `loro.profiles` setting and which one is active.
+ * Without profiles there is a single "Default" profile using `loro.apiEndpoint` and
+ * the key stored before profiles existed.
+ */
+export class ProfileManager implements vscode.Disposable {
+    private _onDidChangeProfile = new vscode.EventEmitter<EnvironmentProfile>();
+    // Fired when another profile is selected or the active profile's settings change
+    readonly onDidChangeProfile: vscode.Event<EnvironmentProfile> = this._onDidChangeProfile.event;
+
+    private active: EnvironmentProfile;
+    private disposables: vscode.Disposable[] = [];
+
+    constructor(private context: vscode.ExtensionContext) {
+        this.active = this.resolveActiveProfile();
+
+        this.disposables.push(
+            this._onDidChangeProfile,
+            vscode.workspace.onDidChangeConfiguration(event => {
+                if (!event.affectsConfiguration('loro.profiles') && !event.affectsConfiguration('loro.apiEndpoint')) {
+                    return;
+                }
+                const previous = this.active;
+                this.active = this.resolveActiveProfile();
+                if (JSON.stringify(previous) !== JSON.stringify(this.active)) {
+                    this._onDidChangeProfile.fire(this.active);
+                }
+            })
+        );
+    }
+
+    // True when the user has configured named profiles rather than using the single default
+    hasProfiles(): boolean {
+        return getConfiguredProfiles().length > 0;
+    }
+
+    getProfiles(): EnvironmentProfile[] {
+        const configured = getConfiguredProfiles();
+        if (configured.length === 0) {
+            const endpoint = vscode.workspace.getConfiguration('loro').get<string>('apiEndpoint', DEFAULT_API_ENDPOINT);
+            return [{ name: DEFAULT_PROFILE_NAME, endpoint, storageSuffix: '' }];
+        }
+        return configured.map(profile => ({
+            name: profile.name,
+            endpoint: profile.endpoint.replace(/\/+$/, ''),
+            syncFolder: profile.syncFolder || undefined,
+            storageSuffix: `.${profile.name}`
+        }));
+    }
+
+    getActiveProfile(): EnvironmentProfile {
+        return this.active;
+    }
+
+    async setActiveProfile(name: string): Promise<void> {
+        const profile = this.getProfiles().find(candidate => candidate.name === name);
+        if (!profile) {
+            throw new Error(`There is no profile named "${name}" in loro.profiles`);
+        }
+        await this.context.globalState.update(ACTIVE_PROFILE_KEY, name);
+        if (profile.name !== this.active.name) {
+            this.active = profile;
+            this._onDidChangeProfile.fire(profile);
+        }
+    }
+
+    // The profile last selected, or the first one when it was removed from the settings
+    private resolveActiveProfile(): EnvironmentProfile {
+        const profiles = this.getProfiles();
+        const name = this.context.globalState.get<string>(ACTIVE_PROFILE_KEY);
+        return profiles.find(profile => profile.name === name) || profiles[0];
+    }
+
+    dispose(): void {
+        this.disposables.forEach(disposable => disposable.dispose());
+    }
+}
+
+function getConfiguredProfiles(): { name: string; endpoint: string; syncFolder?: string }[] {
+    const profiles = vscode.workspace.getConfiguration('loro').get<any[]>('profiles', []);
+    return (Array.isArray(profiles) ? profiles : []).filter(profile =>
+        profile && typeof profile.name === 'string' && profile.name.trim() && typeof profile.endpoint === 'string' && profile.endpoint.trim()
+    );
+}
@@ -0,0 +1,173 @@
+import * as vscode from 'vscode';
+import { randomBytes } from 'crypto';
+import { httpRequest } from '../utils/httpClient';
+
+// What a finished sign-in hands back: the API key to store and, if the server knows it, the account email
+export interface SignInResult {
+    apiKey: string;
+    email?: string;
+}
+
+const CALLBACK_PATH = '/auth-callback';
+// Browser and device sign-ins give up after this long
+const SIGN_IN_TIMEOUT = 5 * 60 * 1000;
+
+/**
+ * Receives vscode://<publisher>.<extension>/auth-callback?state=…&code=… when the Loro
+ * web app redirects back after a browser sign-in.
+ */
+export class AuthCallbackHandler implements vscode.UriHandler {
+    private pending = new Map<string, (code: string | undefined, error?: string) => void>();
+
+    handleUri(uri: vscode.Uri): void {
+        if (uri.path !== CALLBACK_PATH) {
+            return;
+        }
+        const query = new URLSearchParams(uri.query);
+        const callback = this.pending.get(query.get('state') || '');
+        if (!callback) {
+            // Stale or forged callbacks are ignored
+            return;
+        }
+        callback(query.get('code') || undefined, query.get('error_description') || query.get('error') || undefined);
+    }
+
+    // Resolves with the authorization code, or rejects on error, cancellation or timeout
+    waitForCode(state: string, token: vscode.CancellationToken): Promise<string> {
+        return new Promise((resolve, reject) => {
+            const finish = () => {
+                clearTimeout(timer);
+                cancellation.dispose();
+                this.pending.delete(state);
+            };
+            const timer = setTimeout(() => {
+                finish();
+                reject(new Error('Timed out waiting for the browser sign-in to finish'));
+            }, SIGN_IN_TIMEOUT);
+            const cancellation = token.onCancellationRequested(() => {
+                finish();
+                reject(new vscode.CancellationError());
+            });
+
+            this.pending.set(state, (code, error) => {
+                finish();
+                if (code) {
+                    resolve(code);
+                } else {
+                    reject(new Error(error || 'The sign-in was not completed'));
+                }
+            });
+        });
+    }
+}
+
+// Opens the Loro sign-in page; the server redirects back to VS Code with a one-time code for an API key
+export async function signInWithBrowser(
+    context: vscode.ExtensionContext,
+    endpoint: string,
+    callbacks: AuthCallbackHandler
+): Promise<SignInResult | undefined> {
+    const state = randomBytes(16).toString('hex');
+    // asExternalUri maps the callback for remote and web workbenches
+    const callbackUri = await vscode.env.asExternalUri(
+        vscode.Uri.parse(`${vscode.env.uriScheme}://${context.extension.id}${CALLBACK_PATH}`)
+    );
+    const signInUri = vscode.Uri.parse(
+        `${endpoint}/auth/vscode?redirect_uri=${encodeURIComponent(callbackUri.toString())}&state=${state}`
+    );
+
+    try {
+        return await vscode.window.withProgress({
+            location: vscode.ProgressLocation.Notification,
+            title: 'Signing in to Loro Templates in your browser...',
+            cancellable: true
+        }, async (_progress, token) => {
+            const code = callbacks.waitForCode(state, token);
+            // Still rejects for the await below; this only keeps an abandoned wait from going unhandled
+            code.catch(() => undefined);
+            if (!await vscode.env.openExternal(signInUri)) {
+                throw new Error(`Could not open ${signInUri.toString(true)}`);
+            }
+            return exchangeCode(endpoint, await code);
+        });
+    } catch (error) {
+        if (error instanceof vscode.CancellationError) {
+            return undefined;
+        }
+        throw error;
+    }
+}
+
+// Device authorization: the user confirms a short code on the Loro website, for when the
+// browser cannot redirect back to VS Code (e.g. some remote setups)
+export async function signInWithDeviceCode(endpoint: string): Promise<SignInResult | undefined> {
+    const response = await httpRequest(`${endpoint}/api/auth/device/code`, { method: 'POST', body: JSON.stringify({ client: 'vscode' }) });
+    if (!response.ok) {
+        throw new Error(`The server does not support device sign-in (${response.status} ${response.statusText})`);
+    }
+    const device = await response.json();
+    const verificationUri = vscode.Uri.parse(device.verificationUriComplete || device.verificationUri);
+
+    const choice = await vscode.window.showInformationMessage(
+        `Enter the code ${device.userCode} at ${device.verificationUri} to sign in to Loro Templates.`,
+        { modal: true },
+        'Copy Code and Open'
+    );
+    if (choice !== 'Copy Code and Open') {
+        return undefined;
+    }
+    await vscode.env.clipboard.writeText(device.userCode);
+    await vscode.env.openExternal(verificationUri);
+
+    return vscode.window.withProgress({
+        location: vscode.ProgressLocation.Notification,
+        title: `Waiting for the code ${device.userCode} to be confirmed...`,
+        cancellable: true
+    }, async (_progress, token) => {
+        let interval = (device.interval || 5) * 1000;
+        const expiresAt = Date.now() + Math.min((device.expiresIn || 900) * 1000, SIGN_IN_TIMEOUT);
+
+        while (Date.now() < expiresAt) {
+            await delay(interval);
+            if (token.isCancellationRequested) {
+                return undefined;
+            }
+
+            const poll = await httpRequest(`${endpoint}/api/auth/device/token`, {
+                method: 'POST',
+                body: JSON.stringify({ deviceCode: device.deviceCode })
+            });
+            const body = await poll.json().catch(() => null);
+            if (poll.ok && body?.apiKey) {
+                return { apiKey: body.apiKey, email: body.email || undefined };
+            }
+
+            // Error codes follow the OAuth device flow (RFC 8628)
+            switch (body?.error) {
+                case 'authorization_pending':
+                    break;
+                case 'slow_down':
+                    interval += 5000;
+                    break;
+                case 'access_denied':
+                    throw new Error('The sign-in was denied');
+                default:
+                    throw new Error(body?.error_description || body?.error || `Device sign-in failed (${poll.status} ${poll.statusText})`);
+            }
+        }
+        throw new Error('The code expired before it was confirmed');
+    });
+}
+
+async function exchangeCode(endpoint: string, code: string): Promise<SignInResult> {
+    const response = await httpRequest(`${endpoint}/api/auth/token`, { method: 'POST', body: JSON.stringify({ code }) });
+    const body = await response.json().catch(() => null);
+    if (!response.ok || !body?.apiKey) {
+        throw new Error(body?.error_description || `Could not finish the sign-in (${response.status} ${response.statusText})`);
+    }
+    return { apiKey: body.apiKey, email: body.email || undefined };
+}
+
+function delay(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+}
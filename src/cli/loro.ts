@@ -0,0 +1,441 @@
+#!/usr/bin/env node
+// `loro` command line: the core library without VS Code, for build scripts and CI.
+//
+//   loro pull [--dir <folder>]                Write every template to <folder>/<category>/<name>.sbn
+//   loro push [--dir <folder>] [files...]     Upload changed local templates
+//   loro validate [files...]                  Check templates for syntax errors
+//   loro render <file.sbn | --id <id>> [--data <file>] [--local]
+//               [--input-format json|xml|yaml|csv] [--output-format json|text]
+//   loro test [files...] [--junit <file>] [--json <file>]
+//
+// The endpoint and key come from LORO_API_ENDPOINT / LORO_API_KEY, or from a
+// .lororc.json ({ "endpoint", "apiKey", "syncFolder" }) in the current folder or at --config.
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { TestResult } from '../types';
+import { LoroApiClient, DEFAULT_API_ENDPOINT } from '../core/apiClient';
+import { validateTemplateContent } from '../core/validation';
+import { parseSampleData, renderLocally, testContent, testTemplate } from '../core/testing';
+import { INPUT_FORMATS, OUTPUT_FORMATS, RenderFormats, isInputFormat, isOutputFormat, toRenderInput } from '../core/formats';
+import { BulkTestEntry, summarize, toJUnitXml, toJsonReport } from '../core/reports';
+import { TEST_FILE_SUFFIX, evaluateTestCase, getDefaultTemplatePath, parseTestFile } from '../core/testCases';
+import {
+    TEMPLATE_EXTENSION,
+    TemplateFiles,
+    TemplateMetadata,
+    getMetadataPath,
+    parseMetadata,
+    serializeMetadata,
+    toTemplateFiles,
+    toTemplateUpdate
+} from '../core/templateFiles';
+
+const CONFIG_FILE = '.lororc.json';
+const DEFAULT_SYNC_FOLDER = 'loro';
+
+interface CliConfig {
+    endpoint: string;
+    apiKey?: string;
+    syncFolder: string;
+}
+
+interface ParsedArgs {
+    command: string;
+    positional: string[];
+    options: { [name: string]: string | true };
+}
+
+// Thrown for problems the user can fix; printed without a stack trace
+class UsageError extends Error {}
+
+const USAGE = `Usage: loro <command> [options]
+
+Commands:
+  pull [--dir <folder>]                Download every template into <folder>/<category>/<name>.sbn
+  push [--dir <folder>] [files...]     Upload local templates whose content or metadata changed
+  validate [files...]                  Check templates for syntax errors
+  render <file.sbn | --id <id>>        Render a template and print the output
+         [--data <file>] [--local]
+         [--input-format <${Object.keys(INPUT_FORMATS).join('|')}>]
+         [--output-format <${Object.keys(OUTPUT_FORMATS).join('|')}>]
+  test [files...]                      Run ${TEST_FILE_SUFFIX} files
+       [--junit <file>] [--json <file>]
+
+Options:
+  --config <file>    Read settings from <file> instead of ./${CONFIG_FILE}
+
+Environment:
+  LORO_API_ENDPOINT  API endpoint (default ${DEFAULT_API_ENDPOINT})
+  LORO_API_KEY       API key`;
+
+async function main(argv: string[]): Promise<number> {
+    const args = parseArgs(argv);
+    const config = loadConfig(args);
+
+    switch (args.command) {
+        case 'pull':
+            return pull(config, args);
+        case 'push':
+            return push(config, args);
+        case 'validate':
+            return validate(config, args);
+        case 'render':
+            return render(config, args);
+        case 'test':
+            return test(config, args);
+        case '':
+        case 'help':
+            console.log(USAGE);
+            return 0;
+        default:
+            throw new UsageError(`Unknown command "${args.command}"\n\n${USAGE}`);
+    }
+}
+
+function parseArgs(argv: string[]): ParsedArgs {
+    const parsed: ParsedArgs = { command: '', positional: [], options: {} };
+    const flags = new Set(['local', 'help']);
+
+    for (let i = 0; i < argv.length; i++) {
+        const arg = argv[i];
+        if (arg.startsWith('--')) {
+            const [name, inlineValue] = arg.slice(2).split(/=(.*)/s);
+            if (inlineValue !== undefined) {
+                parsed.options[name] = inlineValue;
+            } else if (flags.has(name)) {
+                parsed.options[name] = true;
+            } else if (i + 1 < argv.length) {
+                parsed.options[name] = argv[++i];
+            } else {
+                throw new UsageError(`Option --${name} needs a value`);
+            }
+        } else if (!parsed.command) {
+            parsed.command = arg;
+        } else {
+            parsed.positional.push(arg);
+        }
+    }
+
+    if (parsed.options.help) {
+        parsed.command = 'help';
+    }
+    return parsed;
+}
+
+function loadConfig(args: ParsedArgs): CliConfig {
+    const explicitPath = getOption(args, 'config');
+    const configPath = path.resolve(explicitPath || CONFIG_FILE);
+
+    let fileConfig: any = {};
+    if (fs.existsSync(configPath)) {
+        try {
+            fileConfig = JSON.parse(fs.readFileSync(configPath, 'utf8'));
+        } catch (error) {
+            throw new UsageError(`Could not read ${configPath}: ${error instanceof Error ? error.message : error}`);
+        }
+    } else if (explicitPath) {
+        throw new UsageError(`Config file ${configPath} was not found`);
+    }
+
+    return {
+        endpoint: process.env.LORO_API_ENDPOINT || fileConfig.endpoint || DEFAULT_API_ENDPOINT,
+        apiKey: process.env.LORO_API_KEY || fileConfig.apiKey,
+        syncFolder: fileConfig.syncFolder || DEFAULT_SYNC_FOLDER
+    };
+}
+
+function createClient(config: CliConfig): LoroApiClient {
+    if (!config.apiKey) {
+        throw new UsageError(`No API key. Set LORO_API_KEY or add "apiKey" to ${CONFIG_FILE}`);
+    }
+    return new LoroApiClient({ endpoint: config.endpoint, getApiKey: async () => config.apiKey });
+}
+
+async function pull(config: CliConfig, args: ParsedArgs): Promise<number> {
+    const client = createClient(config);
+    const folder = path.resolve(getOption(args, 'dir') || config.syncFolder);
+    let failed = 0;
+
+    for (const summary of await client.getTemplates()) {
+        try {
+            const files = toTemplateFiles(await client.getTemplate(summary.id));
+            const templatePath = path.join(folder, files.path);
+            fs.mkdirSync(path.dirname(templatePath), { recursive: true });
+            fs.writeFileSync(templatePath, files.content, 'utf8');
+            fs.writeFileSync(getMetadataPath(templatePath), serializeMetadata(files.metadata), 'utf8');
+            console.log(`pulled ${files.path}`);
+        } catch (error) {
+            failed++;
+            console.error(`error  ${summary.name}: ${getMessage(error)}`);
+        }
+    }
+
+    return failed > 0 ? 1 : 0;
+}
+
+async function push(config: CliConfig, args: ParsedArgs): Promise<number> {
+    const client = createClient(config);
+    const folder = path.resolve(getOption(args, 'dir') || config.syncFolder);
+    const paths = args.positional.length > 0
+        ? args.positional.map(file => path.resolve(file))
+        : findFiles(folder, TEMPLATE_EXTENSION);
+    let failed = 0;
+
+    for (const templatePath of paths) {
+        const relativePath = path.relative(folder, templatePath).split(path.sep).join('/');
+        try {
+            const local = readTemplateFiles(templatePath, relativePath);
+            if (!local) {
+                console.log(`skip   ${relativePath} (no ${path.basename(getMetadataPath(templatePath))}; create new templates from the extension)`);
+                continue;
+            }
+
+            const remote = toTemplateFiles(await client.getTemplate(local.metadata.id));
+            if (remote.path === local.path && remote.content === local.content
+                && serializeMetadata(remote.metadata) === serializeMetadata(local.metadata)) {
+                continue;
+            }
+
+            await client.updateTemplate(local.metadata.id, toTemplateUpdate(local));
+            console.log(`pushed ${relativePath}`);
+        } catch (error) {
+            failed++;
+            console.error(`error  ${relativePath}: ${getMessage(error)}`);
+        }
+    }
+
+    return failed > 0 ? 1 : 0;
+}
+
+async function validate(config: CliConfig, args: ParsedArgs): Promise<number> {
+    const paths = args.positional.length > 0
+        ? args.positional.map(file => path.resolve(file))
+        : findFiles(path.resolve(config.syncFolder), TEMPLATE_EXTENSION);
+    if (paths.length === 0) {
+        throw new UsageError('No templates to validate');
+    }
+
+    let invalid = 0;
+    for (const templatePath of paths) {
+        const result = validateTemplateContent(fs.readFileSync(templatePath, 'utf8'));
+        const displayPath = path.relative(process.cwd(), templatePath);
+        if (result.isValid) {
+            console.log(`ok     ${displayPath}`);
+        } else {
+            invalid++;
+            result.errors.forEach(error => console.error(`error  ${displayPath}: ${error}`));
+        }
+    }
+
+    return invalid > 0 ? 1 : 0;
+}
+
+async function render(config: CliConfig, args: ParsedArgs): Promise<number> {
+    const id = getOption(args, 'id');
+    const file = args.positional[0];
+    if (!id && !file) {
+        throw new UsageError('Pass a template file or --id <template id>');
+    }
+
+    const inputFormat = getOption(args, 'input-format') || 'json';
+    const outputFormat = getOption(args, 'output-format') || 'json';
+    if (!isInputFormat(inputFormat)) {
+        throw new UsageError(`Unknown input format "${inputFormat}"; use one of ${Object.keys(INPUT_FORMATS).join(', ')}`);
+    }
+    if (!isOutputFormat(outputFormat)) {
+        throw new UsageError(`Unknown output format "${outputFormat}"; use one of ${Object.keys(OUTPUT_FORMATS).join(', ')}`);
+    }
+
+    // The input format applies to --data; stored sample data is always JSON
+    const dataPath = getOption(args, 'data');
+    const formats: RenderFormats = { input: dataPath ? inputFormat : 'json', output: outputFormat };
+    let data: any;
+    try {
+        data = dataPath ? toRenderInput(fs.readFileSync(dataPath, 'utf8'), inputFormat) : undefined;
+    } catch (error) {
+        throw new UsageError(`Could not read data from ${dataPath}: ${getMessage(error)}`);
+    }
+
+    let result: TestResult;
+    if (id) {
+        const client = createClient(config);
+        const template = await client.getTemplate(id);
+        data = data ?? parseSampleData(template.sampleData);
+        result = args.options.local
+            ? renderLocally(template.content, data, undefined, formats.input)
+            : await testTemplate(client, template, data, formats);
+    } else {
+        const content = fs.readFileSync(file, 'utf8');
+        const metadata = readSidecar(path.resolve(file));
+        data = data ?? getSidecarSampleData(metadata);
+        const schema = !metadata?.schema || typeof metadata.schema === 'string' ? metadata?.schema : JSON.stringify(metadata.schema);
+        result = args.options.local
+            ? renderLocally(content, data, schema, formats.input)
+            : await testContent(createClient(config), content, data, schema, formats);
+    }
+
+    if (!result.success) {
+        (result.errors || []).forEach(error => console.error(error));
+        return 1;
+    }
+    process.stdout.write(result.output);
+    return 0;
+}
+
+async function test(config: CliConfig, args: ParsedArgs): Promise<number> {
+    const paths = args.positional.length > 0
+        ? args.positional.map(file => path.resolve(file))
+        : findFiles(process.cwd(), TEST_FILE_SUFFIX);
+    if (paths.length === 0) {
+        throw new UsageError(`No ${TEST_FILE_SUFFIX} files found`);
+    }
+
+    // Created on first use so local-only test files run without a key
+    let client: LoroApiClient | undefined;
+    const getClient = () => client = client || createClient(config);
+    const entries: BulkTestEntry[] = [];
+
+    for (const testFilePath of paths) {
+        const displayPath = path.relative(process.cwd(), testFilePath).split(path.sep).join('/');
+        const parsed = parseTestFile(fs.readFileSync(testFilePath, 'utf8'));
+        if (!parsed.file) {
+            entries.push(toErrorEntry(displayPath, displayPath, parsed.error || 'Invalid test file'));
+            continue;
+        }
+
+        const testFile = parsed.file;
+        let content: string;
+        try {
+            if (testFile.templateId) {
+                content = (await getClient().getTemplate(testFile.templateId)).content;
+            } else {
+                const templatePath = path.join(path.dirname(testFilePath), testFile.template || getDefaultTemplatePath(path.basename(testFilePath)));
+                content = fs.readFileSync(templatePath, 'utf8');
+            }
+        } catch (error) {
+            entries.push(toErrorEntry(displayPath, displayPath, `Template could not be loaded: ${getMessage(error)}`));
+            continue;
+        }
+
+        for (const testCase of testFile.cases) {
+            const result = testFile.renderer === 'local'
+                ? renderLocally(content, testCase.data)
+                : await testContent(getClient(), content, testCase.data);
+
+            if (result.success) {
+                const failures = evaluateTestCase(testCase, result.output);
+                if (failures.length > 0) {
+                    result.success = false;
+                    result.errors = failures.map(failure => failure.expected !== undefined
+                        ? `${failure.message}\nExpected:\n${failure.expected}\nActual:\n${failure.actual ?? ''}`
+                        : failure.message);
+                }
+            }
+
+            entries.push({ templateId: displayPath, name: testCase.name, category: displayPath, result });
+            console.log(`${result.success ? 'pass' : 'FAIL'}   ${displayPath} › ${testCase.name}`);
+            if (!result.success) {
+                (result.errors || []).forEach(error => console.log(indent(error)));
+            }
+        }
+    }
+
+    const summary = summarize(entries);
+    console.log(`\n${summary.passed} passed, ${summary.failed} failed, ${summary.total} total (${summary.duration}ms)`);
+
+    const junitPath = getOption(args, 'junit');
+    if (junitPath) {
+        fs.writeFileSync(junitPath, toJUnitXml(entries, 'Loro Templates'), 'utf8');
+    }
+    const jsonPath = getOption(args, 'json');
+    if (jsonPath) {
+        fs.writeFileSync(jsonPath, toJsonReport(entries), 'utf8');
+    }
+
+    return summary.failed > 0 ? 1 : 0;
+}
+
+function readTemplateFiles(templatePath: string, relativePath: string): TemplateFiles | undefined {
+    const metadata = readSidecar(templatePath);
+    if (!metadata) {
+        return undefined;
+    }
+
+    const segments = relativePath.split('/');
+    if (segments.length !== 2) {
+        throw new Error('Templates must be stored as <category>/<name>.sbn');
+    }
+
+    return {
+        path: relativePath,
+        name: segments[1].slice(0, -TEMPLATE_EXTENSION.length),
+        category: segments[0],
+        content: fs.readFileSync(templatePath, 'utf8'),
+        metadata
+    };
+}
+
+// Templates written by pull or sync keep their sample data and schema in the sidecar
+function readSidecar(templatePath: string): TemplateMetadata | undefined {
+    const metadataPath = getMetadataPath(templatePath);
+    return fs.existsSync(metadataPath) ? parseMetadata(fs.readFileSync(metadataPath, 'utf8')) : undefined;
+}
+
+function getSidecarSampleData(metadata: TemplateMetadata | undefined): any {
+    if (!metadata || metadata.sampleData === null) {
+        return {};
+    }
+    return typeof metadata.sampleData === 'string' ? parseSampleData(metadata.sampleData) : metadata.sampleData;
+}
+
+function findFiles(folder: string, suffix: string): string[] {
+    if (!fs.existsSync(folder)) {
+        return [];
+    }
+
+    const files: string[] = [];
+    for (const entry of fs.readdirSync(folder, { withFileTypes: true })) {
+        if (entry.name === 'node_modules' || entry.name.startsWith('.')) {
+            continue;
+        }
+        const entryPath = path.join(folder, entry.name);
+        if (entry.isDirectory()) {
+            files.push(...findFiles(entryPath, suffix));
+        } else if (entry.name.endsWith(suffix)) {
+            files.push(entryPath);
+        }
+    }
+    return files.sort();
+}
+
+function toErrorEntry(templateId: string, name: string, error: string): BulkTestEntry {
+    console.log(`FAIL   ${name}\n${indent(error)}`);
+    return {
+        templateId,
+        name,
+        category: name,
+        result: { success: false, output: '', duration: 0, errors: [error] }
+    };
+}
+
+function getOption(args: ParsedArgs, name: string): string | undefined {
+    const value = args.options[name];
+    return typeof value === 'string' ? value : undefined;
+}
+
+function indent(text: string): string {
+    return text.split('\n').map(line => `       ${line}`).join('\n');
+}
+
+function getMessage(error: unknown): string {
+    return error instanceof Error ? error.message : String(error);
+}
+
+main(process.argv.slice(2)).then(
+    code => process.exit(code),
+    error => {
+        console.error(error instanceof UsageError ? error.message : `loro: ${getMessage(error)}`);
+        process.exit(error instanceof UsageError ? 2 : 1);
+    }
+);
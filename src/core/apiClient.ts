@@ -0,0 +1,211 @@
+// Loro Templates REST client. No vscode dependency: used by the extension's
+// TemplateService and by the `loro` CLI. Every method throws on failure.
+
+import { Template, TemplateRevision, UsageInfo, TemplateCreateRequest } from '../types';
+import { httpRequest, HttpOptions, HttpResponse } from '../utils/httpClient';
+import { DEFAULT_RENDER_FORMATS, INPUT_FORMATS, RenderFormats } from './formats';
+
+export const DEFAULT_API_ENDPOINT = 'https://api.lorotemplates.com';
+
+export interface ApiClientOptions {
+    endpoint: string;
+    // Read on every call so a key changed after construction is picked up
+    getApiKey: () => Promise<string | null | undefined>;
+}
+
+export class LoroApiClient {
+    constructor(private options: ApiClientOptions) {}
+
+    get endpoint(): string {
+        return this.options.endpoint;
+    }
+
+    private async makeApiCall<T>(endpoint: string, options: HttpOptions = {}): Promise<T> {
+        const response = await this.request(endpoint, options);
+        return await response.json() as T;
+    }
+
+    private async request(endpoint: string, options: HttpOptions): Promise<HttpResponse> {
+        const apiKey = await this.options.getApiKey();
+        if (!apiKey) {
+            throw new Error('Not authenticated. Please login first.');
+        }
+
+        const response = await httpRequest(`${this.options.endpoint}${endpoint}`, {
+            ...options,
+            headers: {
+                'X-API-Key': apiKey,
+                'Content-Type': 'application/json',
+                ...options.headers
+            }
+        });
+
+        if (!response.ok) {
+            const errorText = await response.text();
+            throw new Error(`API call failed: ${response.status} ${response.statusText} - ${errorText}`);
+        }
+
+        return response;
+    }
+
+    async getTemplates(): Promise<Template[]> {
+        const response = await this.makeApiCall<Template[]>('/api/templates');
+        return Array.isArray(response) ? response : [];
+    }
+
+    async getTemplate(id: string): Promise<Template> {
+        const response = await this.makeApiCall<any>(`/api/templates/${id}`);
+        return normalizeTemplate(response);
+    }
+
+    async createTemplate(templateData: TemplateCreateRequest): Promise<Template> {
+        // Convert to PascalCase for API (API expects C# naming conventions)
+        const requestBody = {
+            Name: templateData.name,
+            Category: templateData.category,
+            Description: templateData.description,
+            Content: templateData.content,
+            IsActive: templateData.isActive,
+            SampleData: templateData.sampleData
+        };
+
+        // Remove undefined fields
+        Object.keys(requestBody).forEach(key => {
+            if (requestBody[key as keyof typeof requestBody] === undefined) {
+                delete requestBody[key as keyof typeof requestBody];
+            }
+        });
+
+        return await this.makeApiCall<Template>('/api/templates', {
+            method: 'POST',
+            body: JSON.stringify(requestBody)
+        });
+    }
+
+    async updateTemplate(id: string, templateData: Partial<Template>): Promise<Template> {
+        // Validate that we have the required fields
+        if (!templateData.name) {
+            throw new Error('Name field is required');
+        }
+        if (!templateData.content) {
+            throw new Error('Content field is required');
+        }
+
+        // Convert to PascalCase for API (API expects C# naming conventions)
+        const requestBody: any = {
+            Id: id,
+            Name: templateData.name,
+            Description: templateData.description || '',
+            Content: templateData.content,
+            Category: templateData.category || 'General',
+            IsActive: templateData.isActive !== undefined ? templateData.isActive : true,
+            Schema: templateData.schema || null,
+            SampleData: templateData.sampleData || null,
+            UpdatedAt: new Date().toISOString()
+        };
+
+        // Remove undefined fields but keep null and empty string values
+        Object.keys(requestBody).forEach(key => {
+            if (requestBody[key] === undefined) {
+                delete requestBody[key];
+            }
+        });
+
+        const template = await this.makeApiCall<Template | null>(`/api/templates/${id}`, {
+            method: 'PUT',
+            body: JSON.stringify(requestBody)
+        });
+        // If API returns 204 No Content, consider it successful
+        if (template === null) {
+            // Return the data we sent as confirmation
+            return {
+                id: id,
+                name: templateData.name!,
+                category: templateData.category!,
+                description: templateData.description!,
+                content: templateData.content!,
+                isActive: templateData.isActive!,
+                sampleData: templateData.sampleData || null,
+                schema: templateData.schema || null,
+                createdAt: '',
+                updatedAt: new Date().toISOString()
+            } as Template;
+        }
+        return template;
+    }
+
+    async deleteTemplate(id: string): Promise<void> {
+        await this.makeApiCall(`/api/templates/${id}`, {
+            method: 'DELETE'
+        });
+    }
+
+    // Returns null when the server does not keep revision history
+    async getTemplateRevisions(id: string): Promise<TemplateRevision[] | null> {
+        const response = await this.makeApiCall<any[]>(`/api/templates/${id}/revisions`);
+        if (!Array.isArray(response)) {
+            return null;
+        }
+
+        return response.map((revision, index) => ({
+            id: String(revision.id ?? revision.Id ?? index),
+            templateId: id,
+            content: revision.content || revision.Content || '',
+            author: revision.author || revision.Author || revision.updatedBy || revision.UpdatedBy,
+            createdAt: revision.createdAt || revision.CreatedAt || revision.updatedAt || revision.UpdatedAt,
+            source: 'server' as const
+        }));
+    }
+
+    // Render the saved server copy of a template. Sample data in a format other than
+    // JSON is its text, sent as the request body with that format's content type.
+    async renderTemplate(id: string, sampleData: any, formats: RenderFormats = DEFAULT_RENDER_FORMATS): Promise<any> {
+        return await this.render(`/api/templates/${id}/render`, formats, {
+            method: 'POST',
+            headers: { 'Content-Type': INPUT_FORMATS[formats.input].contentType },
+            body: formats.input === 'json' ? JSON.stringify(sampleData) : String(sampleData)
+        });
+    }
+
+    // Render ad-hoc content (e.g. unsaved editor text) without storing it as a template
+    async renderContent(content: string, sampleData: any, formats: RenderFormats = DEFAULT_RENDER_FORMATS): Promise<any> {
+        return await this.render('/api/templates/render', formats, {
+            method: 'POST',
+            body: JSON.stringify({
+                Content: content,
+                Data: sampleData
+            })
+        });
+    }
+
+    // Raw text output comes back as the response body rather than in the JSON envelope
+    private async render(endpoint: string, formats: RenderFormats, options: HttpOptions): Promise<any> {
+        const query = `?inputFormat=${formats.input}&outputFormat=${formats.output}`;
+        if (formats.output === 'json') {
+            return await this.makeApiCall(`${endpoint}${query}`, options);
+        }
+        const response = await this.request(`${endpoint}${query}`, options);
+        return { output: await response.text() };
+    }
+
+    async getUsage(): Promise<UsageInfo> {
+        return await this.makeApiCall<UsageInfo>('/api/usage/dashboard');
+    }
+}
+
+// The API answers in either camelCase or PascalCase depending on the endpoint
+export function normalizeTemplate(response: any): Template {
+    return {
+        id: response.id || response.Id,
+        name: response.name || response.Name,
+        category: response.category || response.Category,
+        description: response.description || response.Description,
+        content: response.content || response.Content,
+        sampleData: response.sampleData || response.SampleData || null,
+        isActive: response.isActive !== undefined ? response.isActive : response.IsActive,
+        createdAt: response.createdAt || response.CreatedAt,
+        updatedAt: response.updatedAt || response.UpdatedAt,
+        userId: response.userId || response.UserId,
+        schema: response.schema || response.Schema
+    };
+}
@@ -0,0 +1,124 @@
+// Template bundles: a single JSON file with full templates, for moving them between
+// accounts or environments and for offline backups
+
+import { Template } from '../types';
+import { TemplateMetadata, toTemplateFiles, toTemplateUpdate } from './templateFiles';
+
+export const BUNDLE_FILE_EXTENSION = '.lorobundle.json';
+const BUNDLE_VERSION = 1;
+
+// Schema and sample data are kept as JSON values, like the workspace sync sidecar
+export interface BundledTemplate extends TemplateMetadata {
+    name: string;
+    category: string;
+    content: string;
+}
+
+export interface TemplateBundle {
+    version: number;
+    exportedAt: string;
+    // Endpoint the templates were exported from
+    source?: string;
+    templates: BundledTemplate[];
+}
+
+export interface ParsedBundle {
+    bundle?: TemplateBundle;
+    error?: string;
+}
+
+// What importing one bundled template does to the target account
+export interface ImportPlanEntry {
+    template: BundledTemplate;
+    // A template with the same category and name that importing would overwrite
+    existing?: Template;
+}
+
+// How to handle bundled templates whose category and name are already taken
+export type ClashStrategy = 'overwrite' | 'skip' | 'rename';
+
+export function createBundle(templates: Template[], source?: string, exportedAt: Date = new Date()): TemplateBundle {
+    return {
+        version: BUNDLE_VERSION,
+        exportedAt: exportedAt.toISOString(),
+        source,
+        templates: templates.map(template => {
+            const { name, category, ...metadata } = toTemplateFiles(template).metadata;
+            return { ...metadata, name: template.name, category: template.category || 'Uncategorized', content: template.content || '' };
+        })
+    };
+}
+
+export function serializeBundle(bundle: TemplateBundle): string {
+    return `${JSON.stringify(bundle, null, 2)}\n`;
+}
+
+export function parseBundle(text: string): ParsedBundle {
+    let json: any;
+    try {
+        json = JSON.parse(text);
+    } catch (error) {
+        return { error: `Invalid JSON: ${error instanceof Error ? error.message : String(error)}` };
+    }
+
+    if (!json || !Array.isArray(json.templates)) {
+        return { error: 'A template bundle needs a "templates" array' };
+    }
+    if (typeof json.version === 'number' && json.version > BUNDLE_VERSION) {
+        return { error: `The bundle was written by a newer version (format ${json.version}); update the extension to import it` };
+    }
+
+    const templates: BundledTemplate[] = [];
+    for (const [index, template] of json.templates.entries()) {
+        if (!template || typeof template.name !== 'string' || !template.name.trim() || typeof template.content !== 'string') {
+            return { error: `Template ${index + 1} in the bundle needs a "name" and "content"` };
+        }
+        templates.push({
+            id: typeof template.id === 'string' ? template.id : '',
+            name: template.name,
+            category: typeof template.category === 'string' && template.category ? template.category : 'Uncategorized',
+            content: template.content,
+            description: typeof template.description === 'string' ? template.description : '',
+            isActive: template.isActive !== false,
+            schema: template.schema ?? null,
+            sampleData: template.sampleData ?? null
+        });
+    }
+
+    return {
+        bundle: {
+            version: typeof json.version === 'number' ? json.version : BUNDLE_VERSION,
+            exportedAt: typeof json.exportedAt === 'string' ? json.exportedAt : '',
+            source: typeof json.source === 'string' ? json.source : undefined,
+            templates
+        }
+    };
+}
+
+// Templates are matched to the target account by category and name, since ids differ between accounts
+export function planImport(bundle: TemplateBundle, existing: Template[]): ImportPlanEntry[] {
+    const byKey = new Map(existing.map(template => [getTemplateKey(template.category, template.name), template]));
+    return bundle.templates.map(template => ({
+        template,
+        existing: byKey.get(getTemplateKey(template.category, template.name))
+    }));
+}
+
+// The server fields for a bundled template, in the shape createTemplate/updateTemplate take
+export function toTemplateFields(template: BundledTemplate): Partial<Template> {
+    const { name, category, content, ...metadata } = template;
+    return toTemplateUpdate({ path: '', name, category, content, metadata });
+}
+
+// "Welcome (2)", "Welcome (3)"... for a name that is taken in the category
+export function getUniqueName(name: string, takenNames: Set<string>): string {
+    let candidate = name;
+    for (let copy = 2; takenNames.has(candidate.toLowerCase()); copy++) {
+        candidate = `${name} (${copy})`;
+    }
+    return candidate;
+}
+
+function getTemplateKey(category: string | undefined, name: string): string {
+    return `${category || 'Uncategorized'}/${name}`.toLowerCase();
+}
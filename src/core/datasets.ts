@@ -0,0 +1,104 @@
+// Named sample datasets of a template (`<name>.datasets.json`), e.g. "VIP customer" or "empty cart"
+
+export const DATASETS_FILE_SUFFIX = '.datasets.json';
+
+export interface SampleDatasetFile {
+    // Dataset preselected when a template is tested
+    default?: string;
+    datasets: { [name: string]: any };
+}
+
+export interface ParsedDatasetFile {
+    file?: SampleDatasetFile;
+    error?: string;
+}
+
+export function parseDatasetFile(text: string): ParsedDatasetFile {
+    let json: any;
+    try {
+        json = JSON.parse(text);
+    } catch (error) {
+        return { error: `Invalid JSON: ${error instanceof Error ? error.message : String(error)}` };
+    }
+
+    if (!json || typeof json.datasets !== 'object' || json.datasets === null || Array.isArray(json.datasets)) {
+        return { error: 'A dataset file needs a "datasets" object' };
+    }
+    if (json.default !== undefined && typeof json.default !== 'string') {
+        return { error: '"default" must be the name of a dataset' };
+    }
+
+    // A default that no longer names a dataset is ignored rather than rejected
+    const file: SampleDatasetFile = { datasets: json.datasets };
+    if (json.default && Object.prototype.hasOwnProperty.call(json.datasets, json.default)) {
+        file.default = json.default;
+    }
+    return { file };
+}
+
+export function serializeDatasetFile(file: SampleDatasetFile): string {
+    const json: any = {};
+    if (file.default) {
+        json.default = file.default;
+    }
+    json.datasets = file.datasets;
+    return `${JSON.stringify(json, null, 2)}\n`;
+}
+
+// <category>/<name>.datasets.json, relative to the dataset folder
+export function getDatasetFilePath(category: string | undefined, name: string): string {
+    const toPathSegment = (segment: string) => segment.replace(/[\\/]/g, '_');
+    return `${toPathSegment(category || 'Uncategorized')}/${toPathSegment(name)}${DATASETS_FILE_SUFFIX}`;
+}
+
+// Starting points offered for templates that have no datasets of their own yet
+export function getExampleDatasets(): { [name: string]: any } {
+    return {
+        'User Profile': {
+            user: {
+                name: 'John Doe',
+                email: 'john@example.com',
+                phone: '+1-555-123-4567',
+                address: '123 Main St, Anytown, ST 12345'
+            }
+        },
+        'E-commerce Order': {
+            user: {
+                name: 'Jane Smith',
+                email: 'jane@example.com'
+            },
+            order: {
+                id: 'ORD-12345',
+                date: new Date().toISOString(),
+                total: 149.99,
+                items: [
+                    { name: 'Product A', price: 99.99, quantity: 1 },
+                    { name: 'Product B', price: 50.00, quantity: 1 }
+                ]
+            }
+        },
+        'Company Information': {
+            company: {
+                name: 'Example Corporation',
+                address: '456 Business Ave, Corporate City, CC 67890',
+                phone: '+1-555-987-6543',
+                email: 'info@example.com',
+                website: 'https://example.com'
+            }
+        },
+        'Invoice Data': {
+            invoice: {
+                id: 'INV-2024-001',
+                date: new Date().toISOString(),
+                dueDate: new Date(Date.now() + 30 * 24 * 60 * 60 * 1000).toISOString(),
+                subtotal: 100.00,
+                tax: 8.50,
+                total: 108.50
+            },
+            client: {
+                name: 'Client Company',
+                address: '789 Client St, Client Town, CT 13579'
+            }
+        }
+    };
+}
@@ -0,0 +1,91 @@
+// Checks rendered HTML for things common email clients strip or display differently
+
+export interface EmailWarning {
+    rule: string;
+    message: string;
+}
+
+// Gmail cuts off messages above this size behind a "View entire message" link
+const GMAIL_CLIP_BYTES = 102 * 1024;
+
+// Output that starts with markup is shown rendered rather than as text
+export function isHtml(output: string): boolean {
+    return /^\s*(<!doctype html|<html|<head|<body|<[a-z][a-z0-9]*[\s>])/i.test(output);
+}
+
+// A static scan of the markup and CSS; it catches the usual mistakes, not every client quirk
+export function checkEmailHtml(html: string): EmailWarning[] {
+    const warnings: EmailWarning[] = [];
+    const add = (rule: string, message: string) => warnings.push({ rule, message });
+    const css = [
+        ...matchAll(html, /<style[^>]*>([\s\S]*?)<\/style>/gi).map(match => match[1]),
+        ...matchAll(html, /\sstyle\s*=\s*("[^"]*"|'[^']*')/gi).map(match => match[1])
+    ].join('\n');
+
+    if (/<link\b[^>]*\brel\s*=\s*["']?stylesheet/i.test(html) || /@import\b/i.test(css)) {
+        add('external-css', 'External stylesheets are removed by Gmail, Outlook and most webmail clients. Inline the CSS instead.');
+    }
+    if (/<style\b/i.test(html)) {
+        add('style-block', '<style> blocks are dropped by some clients (e.g. Gmail for non-Google accounts). Keep essential styles inline.');
+    }
+
+    const images = matchAll(html, /<img\b[^>]*>/gi).map(match => match[0]);
+    const missingAlt = images.filter(image => !/\salt\s*=/i.test(image)).length;
+    if (missingAlt > 0) {
+        add('img-alt', `${plural(missingAlt, 'image has', 'images have')} no alt text, which is what readers see while images are blocked.`);
+    }
+    const missingWidth = images.filter(image => !/\swidth\s*=/i.test(image)).length;
+    if (missingWidth > 0) {
+        add('img-width', `${plural(missingWidth, 'image has', 'images have')} no width attribute. Outlook for Windows shows images without one at their full size.`);
+    }
+    const relativeImages = images.filter(image => {
+        const src = /\ssrc\s*=\s*["']?([^"'\s>]+)/i.exec(image)?.[1];
+        return src !== undefined && !/^(https?:|cid:|data:|\{\{)/i.test(src);
+    }).length;
+    if (relativeImages > 0) {
+        add('img-relative', `${plural(relativeImages, 'image uses', 'images use')} a relative URL and will not load in an email. Use absolute https:// URLs.`);
+    }
+    if (/<svg\b/i.test(html) || images.some(image => /\ssrc\s*=\s*["']?[^"'\s>]+\.svg\b/i.test(image))) {
+        add('svg', 'SVG images are not shown by Gmail or Outlook. Use PNG or JPEG.');
+    }
+
+    if (/<script\b/i.test(html)) {
+        add('script', 'Scripts are removed by every email client.');
+    }
+    if (/<(form|input|select|textarea)\b/i.test(html)) {
+        add('form', 'Forms do not work in most email clients. Link to a web page instead.');
+    }
+    if (/<(video|audio|iframe|embed|object)\b/i.test(html)) {
+        add('embedded-media', 'Video, audio, iframes and embedded objects are not supported by most email clients.');
+    }
+
+    if (/display\s*:\s*(inline-)?(flex|grid)\b/i.test(css)) {
+        add('css-layout', 'Flexbox and grid layouts are ignored by Outlook for Windows. Use tables for layout.');
+    }
+    if (/position\s*:\s*(absolute|fixed|sticky)\b/i.test(css)) {
+        add('css-position', 'CSS positioning is removed by Gmail and Outlook.');
+    }
+    if (/background(-image)?\s*:[^;]*url\(/i.test(css)) {
+        add('css-background', 'CSS background images are not shown by Outlook for Windows. Use a background attribute with a fallback color.');
+    }
+
+    const size = Buffer.byteLength(html, 'utf8');
+    if (size > GMAIL_CLIP_BYTES) {
+        add('size', `The message is ${Math.round(size / 1024)} KB. Gmail clips messages larger than 102 KB.`);
+    }
+
+    return warnings;
+}
+
+function matchAll(text: string, pattern: RegExp): RegExpExecArray[] {
+    const matches: RegExpExecArray[] = [];
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(text)) !== null) {
+        matches.push(match);
+    }
+    return matches;
+}
+
+function plural(count: number, singular: string, pluralText: string): string {
+    return `${count} ${count === 1 ? singular : pluralText}`;
+}
@@ -0,0 +1,350 @@
+// Deterministic fake data for sample datasets: realistic, locale-aware values that
+// come out the same for the same seed. Every value is seeded from its data path, so
+// adding a field to a template doesn't change the values generated for the others.
+
+import { DataKind } from '../language/scriban/analysis';
+
+export interface FakeDataOptions {
+    seed: number;
+    // BCP 47 tag such as `en-US` or `de`; unknown locales fall back to en-US
+    locale: string;
+}
+
+export const DEFAULT_FAKE_DATA_OPTIONS: FakeDataOptions = { seed: 1, locale: 'en-US' };
+
+interface LocaleData {
+    firstNames: string[];
+    lastNames: string[];
+    streets: string[];
+    cities: string[];
+    regions: string[];
+    country: string;
+    currency: string;
+    // `#` is replaced by a digit
+    postcodeFormat: string;
+    phoneFormat: string;
+    formatStreet(number: number, street: string): string;
+    formatAddress(street: string, city: string, region: string, postcode: string): string;
+}
+
+const LOCALES: { [locale: string]: LocaleData } = {
+    'en-US': {
+        firstNames: ['James', 'Mary', 'Robert', 'Patricia', 'Michael', 'Jennifer', 'David', 'Linda', 'Daniel', 'Emily', 'Carlos', 'Aisha'],
+        lastNames: ['Smith', 'Johnson', 'Williams', 'Brown', 'Garcia', 'Miller', 'Davis', 'Martinez', 'Anderson', 'Taylor', 'Nguyen', 'Clark'],
+        streets: ['Main St', 'Oak Ave', 'Maple Dr', 'Cedar Ln', 'Park Blvd', 'Washington St', 'Lake Rd', 'Sunset Ave'],
+        cities: ['Springfield', 'Portland', 'Austin', 'Denver', 'Madison', 'Raleigh', 'Boise', 'Columbus'],
+        regions: ['CA', 'TX', 'NY', 'OR', 'CO', 'WI', 'NC', 'OH'],
+        country: 'United States',
+        currency: 'USD',
+        postcodeFormat: '#####',
+        phoneFormat: '+1 (###) ###-####',
+        formatStreet: (number, street) => `${number} ${street}`,
+        formatAddress: (street, city, region, postcode) => `${street}, ${city}, ${region} ${postcode}`
+    },
+    'en-GB': {
+        firstNames: ['Oliver', 'Amelia', 'George', 'Isla', 'Harry', 'Ava', 'Jack', 'Emily', 'Charlie', 'Sophie', 'Arjun', 'Freya'],
+        lastNames: ['Smith', 'Jones', 'Taylor', 'Brown', 'Williams', 'Wilson', 'Evans', 'Thomas', 'Roberts', 'Walker', 'Patel', 'Wright'],
+        streets: ['High Street', 'Station Road', 'Church Lane', 'Victoria Road', 'Mill Lane', 'Green Lane', 'King Street', 'Park Road'],
+        cities: ['London', 'Manchester', 'Bristol', 'Leeds', 'Edinburgh', 'Cardiff', 'York', 'Brighton'],
+        regions: ['Greater London', 'Greater Manchester', 'West Yorkshire', 'Kent', 'Devon', 'Lothian', 'Essex', 'Surrey'],
+        country: 'United Kingdom',
+        currency: 'GBP',
+        postcodeFormat: 'SW# #AB',
+        phoneFormat: '+44 20 #### ####',
+        formatStreet: (number, street) => `${number} ${street}`,
+        formatAddress: (street, city, _region, postcode) => `${street}, ${city} ${postcode}`
+    },
+    'de-DE': {
+        firstNames: ['Lukas', 'Anna', 'Leon', 'Mia', 'Finn', 'Hannah', 'Jonas', 'Lea', 'Paul', 'Emma', 'Felix', 'Sophie'],
+        lastNames: ['Müller', 'Schmidt', 'Schneider', 'Fischer', 'Weber', 'Meyer', 'Wagner', 'Becker', 'Schulz', 'Hoffmann', 'Koch', 'Richter'],
+        streets: ['Hauptstraße', 'Bahnhofstraße', 'Gartenstraße', 'Schulstraße', 'Dorfstraße', 'Bergstraße', 'Lindenstraße', 'Kirchweg'],
+        cities: ['Berlin', 'Hamburg', 'München', 'Köln', 'Frankfurt am Main', 'Stuttgart', 'Leipzig', 'Dresden'],
+        regions: ['Berlin', 'Hamburg', 'Bayern', 'Nordrhein-Westfalen', 'Hessen', 'Baden-Württemberg', 'Sachsen', 'Niedersachsen'],
+        country: 'Deutschland',
+        currency: 'EUR',
+        postcodeFormat: '#####',
+        phoneFormat: '+49 30 ########',
+        formatStreet: (number, street) => `${street} ${number}`,
+        formatAddress: (street, city, _region, postcode) => `${street}, ${postcode} ${city}`
+    },
+    'fr-FR': {
+        firstNames: ['Gabriel', 'Louise', 'Raphaël', 'Jade', 'Léo', 'Ambre', 'Louis', 'Alice', 'Arthur', 'Chloé', 'Hugo', 'Inès'],
+        lastNames: ['Martin', 'Bernard', 'Dubois', 'Thomas', 'Robert', 'Richard', 'Petit', 'Durand', 'Leroy', 'Moreau', 'Simon', 'Laurent'],
+        streets: ['rue de la Paix', 'avenue Victor Hugo', 'rue du Moulin', 'boulevard Voltaire', 'rue de l\'Église', 'place de la République', 'rue des Lilas', 'allée des Tilleuls'],
+        cities: ['Paris', 'Lyon', 'Marseille', 'Toulouse', 'Nantes', 'Bordeaux', 'Lille', 'Strasbourg'],
+        regions: ['Île-de-France', 'Auvergne-Rhône-Alpes', 'Provence-Alpes-Côte d\'Azur', 'Occitanie', 'Pays de la Loire', 'Nouvelle-Aquitaine', 'Hauts-de-France', 'Grand Est'],
+        country: 'France',
+        currency: 'EUR',
+        postcodeFormat: '#####',
+        phoneFormat: '+33 1 ## ## ## ##',
+        formatStreet: (number, street) => `${number} ${street}`,
+        formatAddress: (street, city, _region, postcode) => `${street}, ${postcode} ${city}`
+    },
+    'es-ES': {
+        firstNames: ['Hugo', 'Lucía', 'Martín', 'Sofía', 'Mateo', 'Martina', 'Pablo', 'María', 'Álvaro', 'Paula', 'Diego', 'Carmen'],
+        lastNames: ['García', 'Rodríguez', 'González', 'Fernández', 'López', 'Martínez', 'Sánchez', 'Pérez', 'Gómez', 'Martín', 'Jiménez', 'Ruiz'],
+        streets: ['Calle Mayor', 'Calle Real', 'Avenida de la Constitución', 'Calle del Sol', 'Plaza de España', 'Calle Nueva', 'Paseo del Prado', 'Calle de Alcalá'],
+        cities: ['Madrid', 'Barcelona', 'Valencia', 'Sevilla', 'Zaragoza', 'Málaga', 'Bilbao', 'Granada'],
+        regions: ['Madrid', 'Cataluña', 'Comunidad Valenciana', 'Andalucía', 'Aragón', 'País Vasco', 'Galicia', 'Castilla y León'],
+        country: 'España',
+        currency: 'EUR',
+        postcodeFormat: '#####',
+        phoneFormat: '+34 9## ### ###',
+        formatStreet: (number, street) => `${street}, ${number}`,
+        formatAddress: (street, city, _region, postcode) => `${street}, ${postcode} ${city}`
+    }
+};
+
+const PRODUCT_ADJECTIVES = ['Ergonomic', 'Rustic', 'Sleek', 'Handcrafted', 'Compact', 'Premium', 'Recycled', 'Wireless', 'Vintage', 'Lightweight'];
+const PRODUCT_MATERIALS = ['Cotton', 'Steel', 'Wooden', 'Leather', 'Ceramic', 'Bamboo', 'Granite', 'Wool'];
+const PRODUCT_NOUNS = ['Chair', 'Lamp', 'Backpack', 'Mug', 'Keyboard', 'Jacket', 'Notebook', 'Headphones', 'Table', 'Bottle', 'Watch', 'Scarf'];
+const COMPANY_SUFFIXES = ['Ltd', 'Group', '& Co', 'Labs', 'Partners', 'Industries'];
+const STATUSES = ['active', 'pending', 'completed', 'shipped', 'cancelled'];
+const LOREM_WORDS = (
+    'lorem ipsum dolor sit amet consectetur adipiscing elit sed do eiusmod tempor incididunt ut labore et dolore ' +
+    'magna aliqua enim ad minim veniam quis nostrud exercitation ullamco laboris nisi aliquip ex ea commodo consequat ' +
+    'duis aute irure in reprehenderit voluptate velit esse cillum fugiat nulla pariatur excepteur sint occaecat'
+).split(' ');
+
+// Dates are spread around a fixed day so they don't change from one run to the next
+const REFERENCE_DATE = Date.UTC(2025, 0, 15, 9, 30);
+const DAY = 24 * 60 * 60 * 1000;
+
+export class FakeDataGenerator {
+    private readonly localeData: LocaleData;
+    private state = 0;
+
+    constructor(private options: FakeDataOptions = DEFAULT_FAKE_DATA_OPTIONS) {
+        this.localeData = resolveLocale(options.locale);
+    }
+
+    // A value for the data at `path` (e.g. ['order', 'items', '0', 'price']) of the given kind
+    valueFor(path: string[], kind: DataKind): any {
+        this.reseed(path, 'value');
+        const name = path[path.length - 1] || '';
+        // Nearest named ancestor: `product` for order.items.0.product.name
+        const parent = path.slice(0, -1).reverse().find(segment => !/^\d+$/.test(segment)) || '';
+
+        switch (kind) {
+            case 'number':
+                return this.numberFor(name);
+            case 'boolean':
+                return this.next() < 0.5;
+            case 'date':
+                return this.date();
+            case 'string':
+                return this.stringFor(name, parent, path);
+            default:
+                // No kind from the template: numbers for names that are clearly numeric
+                return isNumericName(name) ? this.numberFor(name) : this.stringFor(name, parent, path);
+        }
+    }
+
+    // How many elements to generate for the array at `path`
+    arrayLength(path: string[], min = 2, max = 5): number {
+        this.reseed(path, 'length');
+        return this.integer(min, max);
+    }
+
+    firstName(): string {
+        return this.pick(this.localeData.firstNames);
+    }
+
+    lastName(): string {
+        return this.pick(this.localeData.lastNames);
+    }
+
+    fullName(): string {
+        return `${this.firstName()} ${this.lastName()}`;
+    }
+
+    email(): string {
+        return toEmail({ first: this.firstName(), last: this.lastName() });
+    }
+
+    phone(): string {
+        return this.fillDigits(this.localeData.phoneFormat);
+    }
+
+    street(): string {
+        return this.localeData.formatStreet(this.integer(1, 250), this.pick(this.localeData.streets));
+    }
+
+    postcode(): string {
+        return this.fillDigits(this.localeData.postcodeFormat);
+    }
+
+    address(): string {
+        return this.localeData.formatAddress(this.street(), this.pick(this.localeData.cities), this.pick(this.localeData.regions), this.postcode());
+    }
+
+    company(): string {
+        return `${this.lastName()} ${this.pick(COMPANY_SUFFIXES)}`;
+    }
+
+    productName(): string {
+        return `${this.pick(PRODUCT_ADJECTIVES)} ${this.pick(PRODUCT_MATERIALS)} ${this.pick(PRODUCT_NOUNS)}`;
+    }
+
+    // Currency amounts have two decimals
+    amount(min = 5, max = 500): number {
+        return Math.round((min + this.next() * (max - min)) * 100) / 100;
+    }
+
+    // ISO timestamp within a year either side of the reference date
+    date(): string {
+        return new Date(REFERENCE_DATE + this.integer(-365, 365) * DAY + this.integer(0, 8 * 60) * 60 * 1000).toISOString();
+    }
+
+    words(count: number): string {
+        return Array.from({ length: count }, () => this.pick(LOREM_WORDS)).join(' ');
+    }
+
+    sentence(minWords = 6, maxWords = 12): string {
+        const text = this.words(this.integer(minWords, maxWords));
+        return `${text.charAt(0).toUpperCase()}${text.slice(1)}.`;
+    }
+
+    paragraph(sentences = 3): string {
+        return Array.from({ length: sentences }, () => this.sentence()).join(' ');
+    }
+
+    integer(min: number, max: number): number {
+        return min + Math.floor(this.next() * (max - min + 1));
+    }
+
+    pick<T>(values: T[]): T {
+        return values[Math.floor(this.next() * values.length)];
+    }
+
+    private numberFor(name: string): number {
+        const lowerName = name.toLowerCase();
+        if (/price|cost|amount|total|tax|subtotal|balance|fee|discount/.test(lowerName)) {
+            return this.amount();
+        }
+        if (/percent|rate|ratio/.test(lowerName)) {
+            return this.integer(0, 100);
+        }
+        if (/year/.test(lowerName)) {
+            return this.integer(2015, 2025);
+        }
+        if (/age/.test(lowerName)) {
+            return this.integer(18, 80);
+        }
+        if (/quantity|qty|count/.test(lowerName)) {
+            return this.integer(1, 10);
+        }
+        return this.integer(1, 1000);
+    }
+
+    private stringFor(name: string, parent: string, path: string[]): string {
+        const lowerName = name.toLowerCase();
+        const lowerParent = parent.toLowerCase();
+
+        if (/first_?name|given_?name/.test(lowerName)) {
+            return this.person(path).first;
+        } else if (/last_?name|surname|family_?name/.test(lowerName)) {
+            return this.person(path).last;
+        } else if (lowerName.includes('email')) {
+            return toEmail(this.person(path));
+        } else if (lowerName.includes('name') || (lowerName === 'title' && /product|item/.test(lowerParent))) {
+            if (/product|item|line|sku/.test(lowerParent)) {
+                return this.productName();
+            }
+            if (/company|organi[sz]ation|business|vendor|supplier|merchant/.test(lowerParent) || lowerName.includes('company')) {
+                return this.company();
+            }
+            const person = this.person(path);
+            return `${person.first} ${person.last}`;
+        } else if (/company|organi[sz]ation/.test(lowerName)) {
+            return this.company();
+        } else if (/phone|mobile|tel/.test(lowerName)) {
+            return this.phone();
+        } else if (/street|address_?line/.test(lowerName)) {
+            return this.street();
+        } else if (lowerName.includes('address')) {
+            return this.address();
+        } else if (lowerName === 'city' || lowerName === 'town') {
+            return this.pick(this.localeData.cities);
+        } else if (/state|region|province|county/.test(lowerName)) {
+            return this.pick(this.localeData.regions);
+        } else if (/zip|post_?code|postal/.test(lowerName)) {
+            return this.postcode();
+        } else if (lowerName.includes('country')) {
+            return this.localeData.country;
+        } else if (lowerName.includes('currency')) {
+            return this.localeData.currency;
+        } else if (/image|avatar|logo|photo|picture/.test(lowerName)) {
+            return `https://picsum.photos/seed/${this.integer(1, 9999)}/200/200`;
+        } else if (/url|link|website|href/.test(lowerName)) {
+            return `https://example.com/${this.pick(LOREM_WORDS)}`;
+        } else if (lowerName.includes('date') || /_at$|At$/.test(name)) {
+            return this.date();
+        } else if (lowerName === 'id' || /(_id|Id)$/.test(name) || /number|code|reference|sku/.test(lowerName)) {
+            const prefix = (lowerName === 'id' ? parent : name).replace(/[^A-Za-z]/g, '').slice(0, 3).toUpperCase() || 'ID';
+            return `${prefix}-${this.integer(10000, 99999)}`;
+        } else if (lowerName === 'status') {
+            return this.pick(STATUSES);
+        } else if (/description|notes|body|message|summary|comment|content|text/.test(lowerName)) {
+            return this.paragraph(this.integer(1, 3));
+        } else if (/title|subject|heading|headline/.test(lowerName)) {
+            return this.sentence(3, 6).slice(0, -1);
+        }
+        return this.words(2);
+    }
+
+    // Seeded from the owning object, so a customer's name, first name and email belong together
+    private person(path: string[]): { first: string; last: string } {
+        this.reseed(path.slice(0, -1), 'person');
+        return { first: this.firstName(), last: this.lastName() };
+    }
+
+    private fillDigits(format: string): string {
+        return format.replace(/#/g, () => String(this.integer(0, 9)));
+    }
+
+    private reseed(path: string[], purpose: string): void {
+        this.state = hash(`${this.options.seed}:${purpose}:${path.join('.')}`);
+    }
+
+    // mulberry32
+    private next(): number {
+        this.state = (this.state + 0x6D2B79F5) | 0;
+        let t = this.state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    }
+}
+
+function resolveLocale(locale: string): LocaleData {
+    if (LOCALES[locale]) {
+        return LOCALES[locale];
+    }
+    // `de` or `de-AT` use de-DE
+    const language = locale.split('-')[0].toLowerCase();
+    const match = Object.keys(LOCALES).find(key => key.split('-')[0] === language);
+    return LOCALES[match || DEFAULT_FAKE_DATA_OPTIONS.locale];
+}
+
+function isNumericName(name: string): boolean {
+    return /price|cost|amount|total|count|quantity|qty|percent/.test(name.toLowerCase());
+}
+
+function toEmail(person: { first: string; last: string }): string {
+    return `${toAscii(person.first)}.${toAscii(person.last)}@example.com`.toLowerCase();
+}
+
+function toAscii(text: string): string {
+    return text.normalize('NFD').replace(/[^A-Za-z]/g, '');
+}
+
+// FNV-1a
+function hash(text: string): number {
+    let value = 0x811C9DC5;
+    for (let i = 0; i < text.length; i++) {
+        value ^= text.charCodeAt(i);
+        value = Math.imul(value, 0x01000193);
+    }
+    return value >>> 0;
+}
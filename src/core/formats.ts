@@ -0,0 +1,481 @@
+// Input and output formats of a render. Input data can be sent to the server as JSON,
+// XML, YAML or CSV; the local renderer and schema checks need it as a value, so the
+// other formats are parsed here. Output is the server's JSON envelope or raw text.
+
+export type InputFormat = 'json' | 'xml' | 'yaml' | 'csv';
+export type OutputFormat = 'json' | 'text';
+
+export interface RenderFormats {
+    input: InputFormat;
+    output: OutputFormat;
+}
+
+export const DEFAULT_RENDER_FORMATS: RenderFormats = { input: 'json', output: 'json' };
+
+export const INPUT_FORMATS: { [format in InputFormat]: { label: string; contentType: string } } = {
+    json: { label: 'JSON', contentType: 'application/json' },
+    xml: { label: 'XML', contentType: 'application/xml' },
+    yaml: { label: 'YAML', contentType: 'application/yaml' },
+    csv: { label: 'CSV', contentType: 'text/csv' }
+};
+
+export const OUTPUT_FORMATS: { [format in OutputFormat]: { label: string } } = {
+    json: { label: 'JSON response' },
+    text: { label: 'Raw text' }
+};
+
+export function isInputFormat(value: any): value is InputFormat {
+    return typeof value === 'string' && Object.prototype.hasOwnProperty.call(INPUT_FORMATS, value);
+}
+
+export function isOutputFormat(value: any): value is OutputFormat {
+    return typeof value === 'string' && Object.prototype.hasOwnProperty.call(OUTPUT_FORMATS, value);
+}
+
+// What is sent as sample data: a value for JSON, the text as written for the other formats
+export function toRenderInput(text: string, format: InputFormat): any {
+    if (format === 'json') {
+        return JSON.parse(text);
+    }
+    // Fail early on data the server would reject anyway
+    parseInputData(text, format);
+    return text;
+}
+
+// The data a template sees. CSV becomes `{ rows: [...] }` with one object per line keyed by
+// the header; XML becomes `{ <root>: ... }` with repeated elements as arrays.
+export function parseInputData(text: string, format: InputFormat): any {
+    try {
+        switch (format) {
+            case 'json':
+                return JSON.parse(text);
+            case 'xml':
+                return parseXml(text);
+            case 'yaml':
+                return parseYaml(text);
+            case 'csv':
+                return { rows: parseCsv(text) };
+        }
+    } catch (error) {
+        throw new Error(`Sample data is not valid ${INPUT_FORMATS[format].label}: ${error instanceof Error ? error.message : error}`);
+    }
+}
+
+// Sample data as passed around: values for JSON, unparsed text for the other formats
+export function toDataValue(sampleData: any, format: InputFormat): any {
+    return format !== 'json' && typeof sampleData === 'string' ? parseInputData(sampleData, format) : sampleData;
+}
+
+// CSV (RFC 4180): the first line names the columns
+
+function parseCsv(text: string): { [column: string]: string }[] {
+    const records: string[][] = [];
+    let record: string[] = [];
+    let field = '';
+    let quoted = false;
+
+    for (let i = 0; i < text.length; i++) {
+        const char = text[i];
+        if (quoted) {
+            if (char === '"' && text[i + 1] === '"') {
+                field += '"';
+                i++;
+            } else if (char === '"') {
+                quoted = false;
+            } else {
+                field += char;
+            }
+        } else if (char === '"' && field === '') {
+            quoted = true;
+        } else if (char === ',') {
+            record.push(field);
+            field = '';
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && text[i + 1] === '\n') {
+                i++;
+            }
+            record.push(field);
+            records.push(record);
+            record = [];
+            field = '';
+        } else {
+            field += char;
+        }
+    }
+    if (quoted) {
+        throw new Error('unterminated quoted field');
+    }
+    if (field !== '' || record.length > 0) {
+        record.push(field);
+        records.push(record);
+    }
+
+    const nonEmpty = records.filter(fields => fields.length > 1 || fields[0] !== '');
+    if (nonEmpty.length === 0) {
+        return [];
+    }
+    const [header, ...rows] = nonEmpty;
+    return rows.map(fields => {
+        const row: { [column: string]: string } = {};
+        header.forEach((column, index) => {
+            row[column.trim()] = fields[index] ?? '';
+        });
+        return row;
+    });
+}
+
+// XML: attributes and child elements become properties, text-only elements strings
+
+interface XmlElement {
+    name: string;
+    attributes: { [name: string]: string };
+    children: XmlElement[];
+    text: string;
+}
+
+const XML_ENTITIES: { [name: string]: string } = { lt: '<', gt: '>', amp: '&', quot: '"', apos: "'" };
+
+function parseXml(text: string): any {
+    const source = text
+        .replace(/<\?[\s\S]*?\?>/g, '')
+        .replace(/<!--[\s\S]*?-->/g, '')
+        .replace(/<!DOCTYPE[^>]*>/gi, '');
+
+    const root: XmlElement = { name: '', attributes: {}, children: [], text: '' };
+    const stack: XmlElement[] = [root];
+    const pattern = /<!\[CDATA\[([\s\S]*?)\]\]>|<\/\s*([^\s>]+)\s*>|<([^\s/>]+)((?:\s+[^\s=/>]+\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*(\/?)>|([^<]+)|(<)/g;
+    let match: RegExpExecArray | null;
+
+    while ((match = pattern.exec(source))) {
+        const current = stack[stack.length - 1];
+        const [, cdata, closing, opening, attributes, selfClosing, textContent, stray] = match;
+        if (cdata !== undefined) {
+            current.text += cdata;
+        } else if (closing) {
+            if (current.name !== closing) {
+                throw new Error(`expected </${current.name || '?'}> but found </${closing}>`);
+            }
+            stack.pop();
+        } else if (opening) {
+            const element: XmlElement = { name: opening, attributes: parseXmlAttributes(attributes), children: [], text: '' };
+            current.children.push(element);
+            if (!selfClosing) {
+                stack.push(element);
+            }
+        } else if (textContent !== undefined) {
+            current.text += decodeXmlEntities(textContent);
+        } else if (stray) {
+            throw new Error(`unexpected "<" at offset ${match.index}`);
+        }
+    }
+
+    if (stack.length > 1) {
+        throw new Error(`<${stack[stack.length - 1].name}> is not closed`);
+    }
+    if (root.children.length !== 1) {
+        throw new Error('expected a single root element');
+    }
+    const element = root.children[0];
+    return { [element.name]: toXmlValue(element) };
+}
+
+function parseXmlAttributes(text: string): { [name: string]: string } {
+    const attributes: { [name: string]: string } = {};
+    const pattern = /([^\s=]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(text))) {
+        attributes[match[1]] = decodeXmlEntities(match[2] ?? match[3]);
+    }
+    return attributes;
+}
+
+function decodeXmlEntities(text: string): string {
+    return text.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (entity, name: string) => {
+        if (name.startsWith('#x') || name.startsWith('#X')) {
+            return String.fromCodePoint(parseInt(name.slice(2), 16));
+        }
+        if (name.startsWith('#')) {
+            return String.fromCodePoint(parseInt(name.slice(1), 10));
+        }
+        return XML_ENTITIES[name] ?? entity;
+    });
+}
+
+function toXmlValue(element: XmlElement): any {
+    const text = element.text.trim();
+    if (element.children.length === 0 && Object.keys(element.attributes).length === 0) {
+        return text;
+    }
+
+    const value: { [name: string]: any } = { ...element.attributes };
+    for (const child of element.children) {
+        const childValue = toXmlValue(child);
+        if (!(child.name in value)) {
+            value[child.name] = childValue;
+        } else if (Array.isArray(value[child.name])) {
+            value[child.name].push(childValue);
+        } else {
+            value[child.name] = [value[child.name], childValue];
+        }
+    }
+    if (text) {
+        value['#text'] = text;
+    }
+    return value;
+}
+
+// YAML: the block subset data exports use - mappings, sequences, scalars,
+// `|`/`>` block scalars and single-line flow collections. No anchors or tags.
+
+interface YamlLine {
+    indent: number;
+    text: string;
+    number: number;
+}
+
+function parseYaml(text: string): any {
+    const lines: YamlLine[] = [];
+    text.split(/\r?\n/).forEach((line, index) => {
+        if (/^\s*(#.*)?$/.test(line) || /^(---|\.\.\.)\s*$/.test(line)) {
+            return;
+        }
+        if (/^\s*\t/.test(line)) {
+            throw new Error(`line ${index + 1}: tabs are not allowed for indentation`);
+        }
+        lines.push({ indent: line.length - line.trimStart().length, text: line.trim(), number: index + 1 });
+    });
+    if (lines.length === 0) {
+        return null;
+    }
+
+    const [value, next] = parseYamlBlock(lines, 0, lines[0].indent, text);
+    if (next < lines.length) {
+        throw new Error(`line ${lines[next].number}: unexpected indentation`);
+    }
+    return value;
+}
+
+function parseYamlBlock(lines: YamlLine[], start: number, indent: number, source: string): [any, number] {
+    return isYamlSequenceItem(lines[start].text)
+        ? parseYamlSequence(lines, start, indent, source)
+        : parseYamlMapping(lines, start, indent, source);
+}
+
+function parseYamlSequence(lines: YamlLine[], start: number, indent: number, source: string): [any[], number] {
+    const items: any[] = [];
+    let i = start;
+    while (i < lines.length && lines[i].indent === indent && isYamlSequenceItem(lines[i].text)) {
+        const rest = lines[i].text.slice(1).trimStart();
+        if (!rest) {
+            const [value, next] = parseYamlNested(lines, i, indent, source);
+            items.push(value);
+            i = next;
+        } else if (isYamlSequenceItem(rest) || splitYamlKey(rest)) {
+            // `- name: x` starts a mapping (or `- - x` a sequence) indented past the dash
+            const itemIndent = indent + (lines[i].text.length - rest.length);
+            const itemLines = [{ indent: itemIndent, text: rest, number: lines[i].number }, ...lines.slice(i + 1)];
+            const [value, consumed] = parseYamlBlock(itemLines, 0, itemIndent, source);
+            items.push(value);
+            i += consumed;
+        } else {
+            items.push(parseYamlScalar(rest, lines[i].number));
+            i++;
+        }
+    }
+    return [items, i];
+}
+
+function parseYamlMapping(lines: YamlLine[], start: number, indent: number, source: string): [{ [key: string]: any }, number] {
+    const mapping: { [key: string]: any } = {};
+    let i = start;
+    while (i < lines.length && lines[i].indent === indent && !isYamlSequenceItem(lines[i].text)) {
+        const entry = splitYamlKey(lines[i].text);
+        if (!entry) {
+            throw new Error(`line ${lines[i].number}: expected "key: value"`);
+        }
+
+        const [key, rest] = entry;
+        if (rest === '|' || rest === '>' || /^[|>][+-]?$/.test(rest)) {
+            const [value, next] = parseYamlBlockScalar(lines, i, indent, rest, source);
+            mapping[key] = value;
+            i = next;
+        } else if (rest) {
+            mapping[key] = parseYamlScalar(rest, lines[i].number);
+            i++;
+        } else {
+            const [value, next] = parseYamlNested(lines, i, indent, source);
+            mapping[key] = value;
+            i = next;
+        }
+    }
+    return [mapping, i];
+}
+
+// The value of `key:` or `-` on its own line: the more indented block below, if any
+function parseYamlNested(lines: YamlLine[], index: number, indent: number, source: string): [any, number] {
+    const next = lines[index + 1];
+    // Sequences may sit at the same indentation as their key
+    if (next && (next.indent > indent || (next.indent === indent && isYamlSequenceItem(next.text) && !isYamlSequenceItem(lines[index].text)))) {
+        return parseYamlBlock(lines, index + 1, next.indent, source);
+    }
+    return [null, index + 1];
+}
+
+function parseYamlBlockScalar(lines: YamlLine[], index: number, indent: number, indicator: string, source: string): [string, number] {
+    // Blank lines were dropped while splitting, so take the raw lines of the block from the source
+    const sourceLines = source.split(/\r?\n/);
+    let i = index + 1;
+    while (i < lines.length && lines[i].indent > indent) {
+        i++;
+    }
+    if (i === index + 1) {
+        return ['', i];
+    }
+
+    const first = lines[index + 1];
+    const last = lines[i - 1];
+    const blockLines = sourceLines.slice(first.number - 1, last.number).map(line => line.slice(first.indent));
+    let value = indicator.startsWith('|')
+        ? blockLines.join('\n')
+        : blockLines.join('\n').replace(/([^\n])\n(?=[^\n])/g, '$1 ');
+    if (!indicator.endsWith('-')) {
+        value += '\n';
+    }
+    return [value, i];
+}
+
+function isYamlSequenceItem(text: string): boolean {
+    return text === '-' || text.startsWith('- ');
+}
+
+function splitYamlKey(text: string): [string, string] | undefined {
+    const match = text.match(/^("(?:[^"\\]|\\.)*"|'(?:[^']|'')*'|[^\s"'#][^:#]*?)\s*:(?:\s+(.*))?$/);
+    if (!match) {
+        return undefined;
+    }
+    const key = match[1].startsWith('"') || match[1].startsWith("'") ? parseYamlScalar(match[1], 0) : match[1];
+    return [String(key), stripYamlComment(match[2] || '')];
+}
+
+function stripYamlComment(text: string): string {
+    if (text.startsWith('"') || text.startsWith("'")) {
+        return text;
+    }
+    const comment = text.search(/\s#/);
+    return (comment >= 0 ? text.slice(0, comment) : text).trim();
+}
+
+function parseYamlScalar(text: string, lineNumber: number): any {
+    const value = stripYamlComment(text);
+    if (value.startsWith('"')) {
+        try {
+            return JSON.parse(value);
+        } catch {
+            throw new Error(`line ${lineNumber}: invalid double-quoted string`);
+        }
+    }
+    if (value.startsWith("'")) {
+        if (!value.endsWith("'") || value.length < 2) {
+            throw new Error(`line ${lineNumber}: invalid single-quoted string`);
+        }
+        return value.slice(1, -1).replace(/''/g, "'");
+    }
+    if (value.startsWith('[') || value.startsWith('{')) {
+        return parseYamlFlow(value, lineNumber);
+    }
+    if (value === '' || value === '~' || value === 'null' || value === 'Null' || value === 'NULL') {
+        return null;
+    }
+    if (/^(true|True|TRUE)$/.test(value)) {
+        return true;
+    }
+    if (/^(false|False|FALSE)$/.test(value)) {
+        return false;
+    }
+    if (/^[-+]?(\d+\.?\d*|\.\d+)([eE][-+]?\d+)?$/.test(value)) {
+        return Number(value);
+    }
+    return value;
+}
+
+// `[a, b]` and `{ a: 1, b: [x] }` on one line
+function parseYamlFlow(text: string, lineNumber: number): any {
+    let position = 0;
+
+    const skipSpaces = () => {
+        while (text[position] === ' ') {
+            position++;
+        }
+    };
+
+    const parseValue = (): any => {
+        skipSpaces();
+        if (text[position] === '[') {
+            position++;
+            const items: any[] = [];
+            skipSpaces();
+            while (text[position] !== ']') {
+                items.push(parseValue());
+                skipSpaces();
+                if (text[position] === ',') {
+                    position++;
+                    skipSpaces();
+                } else if (text[position] !== ']') {
+                    throw new Error(`line ${lineNumber}: expected "," or "]"`);
+                }
+            }
+            position++;
+            return items;
+        }
+        if (text[position] === '{') {
+            position++;
+            const mapping: { [key: string]: any } = {};
+            skipSpaces();
+            while (text[position] !== '}') {
+                const key = parseValue();
+                skipSpaces();
+                if (text[position] !== ':') {
+                    throw new Error(`line ${lineNumber}: expected ":" in flow mapping`);
+                }
+                position++;
+                mapping[String(key)] = parseValue();
+                skipSpaces();
+                if (text[position] === ',') {
+                    position++;
+                    skipSpaces();
+                } else if (text[position] !== '}') {
+                    throw new Error(`line ${lineNumber}: expected "," or "}"`);
+                }
+            }
+            position++;
+            return mapping;
+        }
+
+        const quote = text[position];
+        if (quote === '"' || quote === "'") {
+            let end = position + 1;
+            while (end < text.length && (text[end] !== quote || (quote === '"' && text[end - 1] === '\\'))) {
+                end++;
+            }
+            const scalar = text.slice(position, end + 1);
+            position = end + 1;
+            return parseYamlScalar(scalar, lineNumber);
+        }
+
+        const start = position;
+        while (position < text.length && !',:]}'.includes(text[position])) {
+            position++;
+        }
+        if (position === text.length && text.length > 0 && start < position) {
+            throw new Error(`line ${lineNumber}: unterminated flow collection`);
+        }
+        return parseYamlScalar(text.slice(start, position).trim(), lineNumber);
+    };
+
+    const value = parseValue();
+    skipSpaces();
+    if (position < text.length) {
+        throw new Error(`line ${lineNumber}: unexpected "${text.slice(position)}"`);
+    }
+    return value;
+}
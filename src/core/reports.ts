@@ -0,0 +1,100 @@
+// Bulk test reports in formats CI and release checklists understand
+
+import { TestResult } from '../types';
+
+export interface BulkTestEntry {
+    templateId: string;
+    name: string;
+    category: string;
+    result: TestResult;
+}
+
+export interface BulkTestSummary {
+    total: number;
+    passed: number;
+    failed: number;
+    duration: number;
+}
+
+export function summarize(entries: BulkTestEntry[]): BulkTestSummary {
+    const passed = entries.filter(entry => entry.result.success).length;
+    return {
+        total: entries.length,
+        passed,
+        failed: entries.length - passed,
+        duration: entries.reduce((total, entry) => total + entry.result.duration, 0)
+    };
+}
+
+// One <testsuite> per category, one <testcase> per template
+export function toJUnitXml(entries: BulkTestEntry[], suiteName: string, timestamp: Date = new Date()): string {
+    const summary = summarize(entries);
+    const categories = new Map<string, BulkTestEntry[]>();
+    for (const entry of entries) {
+        const category = entry.category || 'Uncategorized';
+        if (!categories.has(category)) {
+            categories.set(category, []);
+        }
+        categories.get(category)!.push(entry);
+    }
+
+    const lines = [
+        '<?xml version="1.0" encoding="UTF-8"?>',
+        `<testsuites name="${escapeXml(suiteName)}" tests="${summary.total}" failures="${summary.failed}" time="${toSeconds(summary.duration)}" timestamp="${timestamp.toISOString()}">`
+    ];
+
+    for (const [category, categoryEntries] of categories) {
+        const categorySummary = summarize(categoryEntries);
+        lines.push(`  <testsuite name="${escapeXml(category)}" tests="${categorySummary.total}" failures="${categorySummary.failed}" time="${toSeconds(categorySummary.duration)}">`);
+
+        for (const entry of categoryEntries) {
+            const attributes = `name="${escapeXml(entry.name)}" classname="${escapeXml(category)}" time="${toSeconds(entry.result.duration)}"`;
+            if (entry.result.success) {
+                lines.push(`    <testcase ${attributes}/>`);
+                continue;
+            }
+
+            const message = (entry.result.errors || []).join('\n') || 'The template did not render';
+            lines.push(
+                `    <testcase ${attributes}>`,
+                `      <failure message="${escapeXml(message.split('\n')[0])}">${escapeXml(message)}</failure>`,
+                '    </testcase>'
+            );
+        }
+
+        lines.push('  </testsuite>');
+    }
+
+    lines.push('</testsuites>', '');
+    return lines.join('\n');
+}
+
+export function toJsonReport(entries: BulkTestEntry[], timestamp: Date = new Date()): string {
+    return `${JSON.stringify({
+        timestamp: timestamp.toISOString(),
+        summary: summarize(entries),
+        results: entries.map(entry => ({
+            templateId: entry.templateId,
+            name: entry.name,
+            category: entry.category,
+            success: entry.result.success,
+            duration: entry.result.duration,
+            errors: entry.result.errors || []
+        }))
+    }, null, 2)}\n`;
+}
+
+function toSeconds(milliseconds: number): string {
+    return (milliseconds / 1000).toFixed(3);
+}
+
+function escapeXml(text: string): string {
+    return text
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&apos;')
+        // Control characters are not allowed in XML 1.0
+        .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '');
+}
@@ -0,0 +1,36 @@
+// Sample input data for a template, generated from how the template uses its data.
+// Shares collectDataUsage with schema inference, so loops become arrays of objects,
+// values only tested in conditions become booleans and filters imply types.
+
+import { parseTemplate } from '../language/scriban/parser';
+import { DataUsage, collectDataUsage } from '../language/scriban/analysis';
+import { DEFAULT_FAKE_DATA_OPTIONS, FakeDataGenerator, FakeDataOptions } from './fakeData';
+
+export function inferSampleData(content: string, options: FakeDataOptions = DEFAULT_FAKE_DATA_OPTIONS): any {
+    const { template } = parseTemplate(content);
+    return toSample(collectDataUsage(template), [], new FakeDataGenerator(options));
+}
+
+function toSample(usage: DataUsage, path: string[], fake: FakeDataGenerator): any {
+    if (usage.properties.size > 0 || usage.kind === 'object') {
+        const value: { [name: string]: any } = {};
+        for (const [propertyName, property] of usage.properties) {
+            value[propertyName] = toSample(property, [...path, propertyName], fake);
+        }
+        return value;
+    }
+
+    if (usage.kind === 'array' || usage.items) {
+        const items = usage.items;
+        if (!items) {
+            return [];
+        }
+        return Array.from({ length: fake.arrayLength(path) }, (_, index) => toSample(items, [...path, String(index)], fake));
+    }
+
+    // Values only tested in conditions are true so the content they guard shows up
+    if (usage.kind === 'unknown' && usage.conditionOnly) {
+        return true;
+    }
+    return fake.valueFor(path, usage.kind);
+}
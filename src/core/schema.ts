@@ -0,0 +1,441 @@
+// JSON Schema support for template input data: inferring a schema from a template's
+// variable usage, checking sample data against the schema stored on the template and
+// looking up the shape of a data path for completion
+
+import { parseTemplate } from '../language/scriban/parser';
+import { DataUsage, ITEMS_SEGMENT, collectDataUsage } from '../language/scriban/analysis';
+
+export const JSON_SCHEMA_DRAFT = 'http://json-schema.org/draft-07/schema#';
+
+// The subset of JSON Schema draft-07 that validateAgainstSchema understands
+export interface JsonSchema {
+    $schema?: string;
+    $ref?: string;
+    title?: string;
+    description?: string;
+    type?: string | string[];
+    properties?: { [name: string]: JsonSchema };
+    required?: string[];
+    additionalProperties?: boolean | JsonSchema;
+    items?: JsonSchema;
+    enum?: any[];
+    const?: any;
+    format?: string;
+    pattern?: string;
+    minimum?: number;
+    maximum?: number;
+    exclusiveMinimum?: number;
+    exclusiveMaximum?: number;
+    minLength?: number;
+    maxLength?: number;
+    minItems?: number;
+    maxItems?: number;
+    allOf?: JsonSchema[];
+    anyOf?: JsonSchema[];
+    oneOf?: JsonSchema[];
+    not?: JsonSchema;
+    definitions?: { [name: string]: JsonSchema };
+    $defs?: { [name: string]: JsonSchema };
+}
+
+export interface SchemaError {
+    // JSONPath-style location of the offending value, e.g. `$.order.items[2].price`
+    path: string;
+    message: string;
+}
+
+// Infer the input data schema from what a template reads
+export function inferSchema(content: string, title?: string): JsonSchema {
+    const { template } = parseTemplate(content);
+    const schema = toSchema(collectDataUsage(template));
+    return {
+        $schema: JSON_SCHEMA_DRAFT,
+        ...(title ? { title } : {}),
+        ...schema
+    };
+}
+
+function toSchema(usage: DataUsage): JsonSchema {
+    if (usage.properties.size > 0 || usage.kind === 'object') {
+        const properties: { [name: string]: JsonSchema } = {};
+        const required: string[] = [];
+        for (const [name, property] of usage.properties) {
+            properties[name] = toSchema(property);
+            if (property.required) {
+                required.push(name);
+            }
+        }
+        return required.length > 0
+            ? { type: 'object', properties, required }
+            : { type: 'object', properties };
+    }
+
+    if (usage.kind === 'array' || usage.items) {
+        return usage.items ? { type: 'array', items: toSchema(usage.items) } : { type: 'array' };
+    }
+
+    switch (usage.kind) {
+        case 'number':
+            return { type: 'number' };
+        case 'boolean':
+            return { type: 'boolean' };
+        case 'date':
+            return { type: 'string', format: 'date-time' };
+        case 'string':
+            return { type: 'string' };
+        default:
+            // Printed as-is or only tested; strings are the common case
+            return usage.conditionOnly ? { type: 'boolean' } : { type: 'string' };
+    }
+}
+
+// Describe sample data as a schema, so completion can treat both sources alike
+export function schemaFromSample(value: any): JsonSchema {
+    if (value === null || value === undefined) {
+        return { type: 'null' };
+    }
+    if (Array.isArray(value)) {
+        // Elements may leave out optional fields; offer the union of what any element has
+        const items = value.map(schemaFromSample).reduce<JsonSchema | undefined>(
+            (merged, item) => merged ? mergeSchemas(merged, item) : item,
+            undefined
+        );
+        return items ? { type: 'array', items } : { type: 'array' };
+    }
+    if (typeof value === 'object') {
+        const properties: { [name: string]: JsonSchema } = {};
+        for (const [name, propertyValue] of Object.entries(value)) {
+            properties[name] = schemaFromSample(propertyValue);
+        }
+        return { type: 'object', properties };
+    }
+    if (typeof value === 'string') {
+        return matchesFormat(value, 'date-time') ? { type: 'string', format: 'date-time' } : { type: 'string' };
+    }
+    return { type: typeof value };
+}
+
+function mergeSchemas(a: JsonSchema, b: JsonSchema): JsonSchema {
+    if (a.type === 'null') {
+        return b;
+    }
+    if (a.properties && b.properties) {
+        const properties = { ...a.properties };
+        for (const [name, schema] of Object.entries(b.properties)) {
+            properties[name] = properties[name] ? mergeSchemas(properties[name], schema) : schema;
+        }
+        return { ...a, properties };
+    }
+    if (a.type === 'array' && b.type === 'array' && b.items) {
+        return { ...a, items: a.items ? mergeSchemas(a.items, b.items) : b.items };
+    }
+    return a;
+}
+
+// The schema of the value at a data path such as ['order', 'items', '[]', 'price']
+export function getSchemaAtPath(schema: JsonSchema, path: string[], root: JsonSchema = schema): JsonSchema | undefined {
+    let current: JsonSchema | undefined = schema;
+    for (const segment of path) {
+        if (!current) {
+            return undefined;
+        }
+        current = segment === ITEMS_SEGMENT
+            ? collectSubschemas(current, root).map(subschema => subschema.items).find(items => items !== undefined)
+            : getSchemaProperties(current, root)[segment];
+    }
+    return current && current.$ref ? resolveRef(current.$ref, root) : current;
+}
+
+// Properties of an object schema, including those contributed by allOf/anyOf/oneOf branches
+export function getSchemaProperties(schema: JsonSchema, root: JsonSchema = schema): { [name: string]: JsonSchema } {
+    const properties: { [name: string]: JsonSchema } = {};
+    for (const subschema of collectSubschemas(schema, root)) {
+        for (const [name, property] of Object.entries(subschema.properties || {})) {
+            properties[name] = properties[name] || property;
+        }
+    }
+    return properties;
+}
+
+// Short type description for completion details, e.g. `string (date-time)` or `array of object`
+export function describeSchema(schema: JsonSchema, root: JsonSchema = schema): string {
+    const resolved = schema.$ref ? resolveRef(schema.$ref, root) || schema : schema;
+    const type = Array.isArray(resolved.type) ? resolved.type.join(' | ') : resolved.type;
+    if (!type) {
+        return resolved.enum ? resolved.enum.map(option => JSON.stringify(option)).join(' | ') : 'any';
+    }
+    if (type === 'array' && resolved.items) {
+        return `array of ${describeSchema(resolved.items, root)}`;
+    }
+    return resolved.format ? `${type} (${resolved.format})` : type;
+}
+
+function collectSubschemas(schema: JsonSchema, root: JsonSchema, seen = new Set<JsonSchema>()): JsonSchema[] {
+    const resolved = schema.$ref ? resolveRef(schema.$ref, root) : schema;
+    if (!resolved || seen.has(resolved)) {
+        return [];
+    }
+    seen.add(resolved);
+    const branches = [...(resolved.allOf || []), ...(resolved.anyOf || []), ...(resolved.oneOf || [])];
+    return [resolved, ...branches.flatMap(branch => collectSubschemas(branch, root, seen))];
+}
+
+// Templates store their schema as a JSON string; throws when it is not valid JSON
+export function parseSchema(schemaText: string | undefined | null): JsonSchema | undefined {
+    if (!schemaText || !schemaText.trim()) {
+        return undefined;
+    }
+    try {
+        const schema = JSON.parse(schemaText);
+        return schema && typeof schema === 'object' ? schema : undefined;
+    } catch (error) {
+        throw new Error(`Template schema is not valid JSON: ${error instanceof Error ? error.message : error}`);
+    }
+}
+
+// Sample data problems as display lines, or an empty array when the data fits the template's schema
+export function checkSampleData(schemaText: string | undefined | null, data: any): string[] {
+    let schema: JsonSchema | undefined;
+    try {
+        schema = parseSchema(schemaText);
+    } catch (error) {
+        return [error instanceof Error ? error.message : String(error)];
+    }
+    if (!schema) {
+        return [];
+    }
+
+    return validateAgainstSchema(data, schema).map(error => `Sample data ${error.path}: ${error.message}`);
+}
+
+export function validateAgainstSchema(data: any, schema: JsonSchema): SchemaError[] {
+    const errors: SchemaError[] = [];
+    validateValue(data, schema, '$', schema, errors, new Map());
+    return errors;
+}
+
+// Schemas being validated at each path, to catch $refs that loop without descending into the data
+type ActiveSchemas = Map<JsonSchema, Set<string>>;
+
+function validateValue(
+    value: any,
+    schema: JsonSchema | boolean | undefined,
+    path: string,
+    root: JsonSchema,
+    errors: SchemaError[],
+    active: ActiveSchemas
+): void {
+    if (schema === undefined || schema === true) {
+        return;
+    }
+    if (schema === false) {
+        errors.push({ path, message: 'is not allowed' });
+        return;
+    }
+
+    const paths = active.get(schema) || new Set<string>();
+    if (paths.has(path)) {
+        errors.push({ path, message: 'circular schema reference' });
+        return;
+    }
+    active.set(schema, paths.add(path));
+    try {
+        validateKeywords(value, schema, path, root, errors, active);
+    } finally {
+        paths.delete(path);
+    }
+}
+
+function validateKeywords(value: any, schema: JsonSchema, path: string, root: JsonSchema, errors: SchemaError[], active: ActiveSchemas): void {
+    if (schema.$ref) {
+        const target = resolveRef(schema.$ref, root);
+        if (!target) {
+            errors.push({ path, message: `schema reference ${schema.$ref} could not be resolved` });
+            return;
+        }
+        validateValue(value, target, path, root, errors, active);
+    }
+
+    if (schema.type !== undefined) {
+        const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+        if (!types.some(type => matchesType(value, type))) {
+            errors.push({ path, message: `expected ${types.join(' or ')} but got ${describeType(value)}` });
+            // Further keywords would only repeat the type mismatch
+            return;
+        }
+    }
+
+    if (schema.enum && !schema.enum.some(option => deepEqual(option, value))) {
+        errors.push({ path, message: `must be one of ${schema.enum.map(option => JSON.stringify(option)).join(', ')}` });
+    }
+    if (schema.const !== undefined && !deepEqual(schema.const, value)) {
+        errors.push({ path, message: `must be ${JSON.stringify(schema.const)}` });
+    }
+
+    if (typeof value === 'string') {
+        validateString(value, schema, path, errors);
+    } else if (typeof value === 'number') {
+        validateNumber(value, schema, path, errors);
+    } else if (Array.isArray(value)) {
+        if (schema.minItems !== undefined && value.length < schema.minItems) {
+            errors.push({ path, message: `must have at least ${schema.minItems} item(s)` });
+        }
+        if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+            errors.push({ path, message: `must have at most ${schema.maxItems} item(s)` });
+        }
+        if (schema.items) {
+            value.forEach((item, index) => validateValue(item, schema.items, `${path}[${index}]`, root, errors, active));
+        }
+    } else if (value !== null && typeof value === 'object') {
+        for (const name of schema.required || []) {
+            if (!(name in value)) {
+                errors.push({ path: joinPath(path, name), message: 'is required' });
+            }
+        }
+        for (const [name, propertyValue] of Object.entries(value)) {
+            const propertySchema = schema.properties?.[name];
+            if (propertySchema) {
+                validateValue(propertyValue, propertySchema, joinPath(path, name), root, errors, active);
+            } else if (schema.additionalProperties !== undefined) {
+                validateValue(propertyValue, schema.additionalProperties, joinPath(path, name), root, errors, active);
+            }
+        }
+    }
+
+    for (const subschema of schema.allOf || []) {
+        validateValue(value, subschema, path, root, errors, active);
+    }
+    if (schema.anyOf && !schema.anyOf.some(subschema => validateAgainst(value, subschema, path, root, active).length === 0)) {
+        errors.push({ path, message: 'does not match any of the allowed schemas' });
+    }
+    if (schema.oneOf) {
+        const matches = schema.oneOf.filter(subschema => validateAgainst(value, subschema, path, root, active).length === 0).length;
+        if (matches !== 1) {
+            errors.push({ path, message: matches === 0 ? 'does not match any of the allowed schemas' : 'matches more than one of the allowed schemas' });
+        }
+    }
+    if (schema.not && validateAgainst(value, schema.not, path, root, active).length === 0) {
+        errors.push({ path, message: 'matches a schema it must not match' });
+    }
+}
+
+function validateAgainst(value: any, schema: JsonSchema, path: string, root: JsonSchema, active: ActiveSchemas): SchemaError[] {
+    const errors: SchemaError[] = [];
+    validateValue(value, schema, path, root, errors, active);
+    return errors;
+}
+
+function validateString(value: string, schema: JsonSchema, path: string, errors: SchemaError[]): void {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+        errors.push({ path, message: `must be at least ${schema.minLength} character(s) long` });
+    }
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+        errors.push({ path, message: `must be at most ${schema.maxLength} character(s) long` });
+    }
+    if (schema.pattern !== undefined) {
+        try {
+            if (!new RegExp(schema.pattern, 'u').test(value)) {
+                errors.push({ path, message: `must match the pattern ${schema.pattern}` });
+            }
+        } catch {
+            errors.push({ path, message: `schema pattern ${schema.pattern} is not a valid regular expression` });
+        }
+    }
+    if (schema.format && !matchesFormat(value, schema.format)) {
+        errors.push({ path, message: `must be a valid ${schema.format}` });
+    }
+}
+
+function validateNumber(value: number, schema: JsonSchema, path: string, errors: SchemaError[]): void {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+        errors.push({ path, message: `must be at least ${schema.minimum}` });
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+        errors.push({ path, message: `must be at most ${schema.maximum}` });
+    }
+    if (schema.exclusiveMinimum !== undefined && value <= schema.exclusiveMinimum) {
+        errors.push({ path, message: `must be greater than ${schema.exclusiveMinimum}` });
+    }
+    if (schema.exclusiveMaximum !== undefined && value >= schema.exclusiveMaximum) {
+        errors.push({ path, message: `must be less than ${schema.exclusiveMaximum}` });
+    }
+}
+
+function matchesType(value: any, type: string): boolean {
+    switch (type) {
+        case 'string':
+            return typeof value === 'string';
+        case 'number':
+            return typeof value === 'number' && isFinite(value);
+        case 'integer':
+            return typeof value === 'number' && Number.isInteger(value);
+        case 'boolean':
+            return typeof value === 'boolean';
+        case 'array':
+            return Array.isArray(value);
+        case 'object':
+            return value !== null && typeof value === 'object' && !Array.isArray(value);
+        case 'null':
+            return value === null;
+        default:
+            // Unknown types are not ours to reject
+            return true;
+    }
+}
+
+// Only the formats sample data commonly uses; others are accepted as-is
+function matchesFormat(value: string, format: string): boolean {
+    switch (format) {
+        case 'date-time':
+            return /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?$/i.test(value) && !isNaN(Date.parse(value));
+        case 'date':
+            return /^\d{4}-\d{2}-\d{2}$/.test(value) && !isNaN(Date.parse(value));
+        case 'email':
+            return /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(value);
+        case 'uri':
+            return /^[a-z][a-z0-9+.-]*:/i.test(value);
+        default:
+            return true;
+    }
+}
+
+function describeType(value: any): string {
+    if (value === null) {
+        return 'null';
+    }
+    if (Array.isArray(value)) {
+        return 'array';
+    }
+    if (typeof value === 'number' && Number.isInteger(value)) {
+        return 'integer';
+    }
+    return typeof value;
+}
+
+// Only local references into definitions/$defs
+function resolveRef(ref: string, root: JsonSchema): JsonSchema | undefined {
+    if (ref === '#') {
+        return root;
+    }
+    const match = /^#\/(definitions|\$defs)\/(.+)$/.exec(ref);
+    if (!match) {
+        return undefined;
+    }
+    const name = decodeURIComponent(match[2]).replace(/~1/g, '/').replace(/~0/g, '~');
+    return match[1] === 'definitions' ? root.definitions?.[name] : root.$defs?.[name];
+}
+
+function joinPath(path: string, name: string): string {
+    return /^[A-Za-z_$][A-Za-z0-9_$]*$/.test(name) ? `${path}.${name}` : `${path}[${JSON.stringify(name)}]`;
+}
+
+function deepEqual(a: any, b: any): boolean {
+    if (a === b) {
+        return true;
+    }
+    if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null || Array.isArray(a) !== Array.isArray(b)) {
+        return false;
+    }
+    const keys = Object.keys(a);
+    return keys.length === Object.keys(b).length && keys.every(key => deepEqual(a[key], b[key]));
+}
@@ -0,0 +1,133 @@
+// On-disk layout of a template: <category>/<name>.sbn plus a <name>.json sidecar.
+// Shared by workspace sync and the `loro` CLI so both read and write the same files.
+
+import { Template } from '../types';
+
+export const TEMPLATE_EXTENSION = '.sbn';
+export const METADATA_EXTENSION = '.json';
+// Folder for templates without a category
+const UNCATEGORIZED = 'Uncategorized';
+
+// Sidecar file stored next to each <name>.sbn
+export interface TemplateMetadata {
+    id: string;
+    // The server's name and category, which the path cannot always hold (e.g. "a/b", no category).
+    // Missing in sidecars written by older versions; the path is used then.
+    name?: string;
+    category?: string;
+    description: string;
+    isActive: boolean;
+    schema: any;
+    sampleData: any;
+}
+
+export interface TemplateFiles {
+    // <category>/<name>.sbn, relative to the sync folder
+    path: string;
+    name: string;
+    category: string;
+    content: string;
+    metadata: TemplateMetadata;
+}
+
+export function getTemplateFileName(name: string): string {
+    // Path separators would break the one-level category/name layout
+    return `${name.replace(/[\\/]/g, '_')}${TEMPLATE_EXTENSION}`;
+}
+
+export function getMetadataPath(templatePath: string): string {
+    return templatePath.slice(0, -TEMPLATE_EXTENSION.length) + METADATA_EXTENSION;
+}
+
+export function toTemplateFiles(template: Template): TemplateFiles {
+    const category = template.category || UNCATEGORIZED;
+    return {
+        path: `${category}/${getTemplateFileName(template.name)}`,
+        name: template.name,
+        category,
+        content: template.content || '',
+        metadata: {
+            id: template.id,
+            name: template.name,
+            category: template.category || '',
+            description: template.description || '',
+            isActive: template.isActive !== false,
+            schema: fromServerJson(template.schema),
+            sampleData: fromServerJson(template.sampleData)
+        }
+    };
+}
+
+// The fields to send back to the server for a template read from disk. The sidecar's name and
+// category win unless the file was renamed or moved since it was written.
+export function toTemplateUpdate(files: TemplateFiles): Partial<Template> {
+    const { metadata } = files;
+    const renamed = metadata.name === undefined || getTemplateFileName(metadata.name) !== getTemplateFileName(files.name);
+    const moved = metadata.category === undefined || (metadata.category || UNCATEGORIZED) !== files.category;
+    return {
+        name: renamed ? files.name : metadata.name,
+        category: moved ? fromCategoryFolder(files.category) : metadata.category,
+        content: files.content,
+        description: metadata.description,
+        isActive: metadata.isActive,
+        schema: toServerJson(metadata.schema),
+        sampleData: toServerJson(metadata.sampleData)
+    };
+}
+
+// Returns undefined for anything that is not a sidecar written by sync or the CLI
+export function parseMetadata(text: string): TemplateMetadata | undefined {
+    try {
+        const metadata = JSON.parse(text);
+        if (!metadata || typeof metadata.id !== 'string') {
+            return undefined;
+        }
+        return {
+            id: metadata.id,
+            name: typeof metadata.name === 'string' ? metadata.name : undefined,
+            category: typeof metadata.category === 'string' ? metadata.category : undefined,
+            description: metadata.description || '',
+            isActive: metadata.isActive !== false,
+            schema: metadata.schema ?? null,
+            sampleData: metadata.sampleData ?? null
+        };
+    } catch {
+        return undefined;
+    }
+}
+
+export function serializeMetadata(metadata: TemplateMetadata): string {
+    const ordered: TemplateMetadata = {
+        id: metadata.id,
+        name: metadata.name,
+        category: metadata.category,
+        description: metadata.description,
+        isActive: metadata.isActive,
+        schema: metadata.schema,
+        sampleData: metadata.sampleData
+    };
+    return `${JSON.stringify(ordered, null, 2)}\n`;
+}
+
+function fromCategoryFolder(folder: string): string {
+    return folder === UNCATEGORIZED ? '' : folder;
+}
+
+// The server stores schema and sample data as JSON strings; keep them readable in the sidecar
+function fromServerJson(value: string | undefined | null): any {
+    if (!value) {
+        return null;
+    }
+    try {
+        return JSON.parse(value);
+    } catch {
+        return value;
+    }
+}
+
+function toServerJson(value: any): string | undefined {
+    if (value === null || value === undefined) {
+        return undefined;
+    }
+    return typeof value === 'string' ? value : JSON.stringify(value, null, 2);
+}
@@ -0,0 +1,162 @@
+// Template test case files (`<name>.tests.json`), shared by the Test Explorer and the CLI
+
+export const TEST_FILE_SUFFIX = '.tests.json';
+
+export type TestRenderer = 'server' | 'local';
+
+export interface TemplateTestCase {
+    name: string;
+    data: any;
+    // Exact expected output; line endings are normalized before comparing
+    expected?: string;
+    contains?: string[];
+    notContains?: string[];
+    // Regular expressions, either plain patterns or /pattern/flags
+    matches?: string[];
+    // Offset of the case in the file, for gutter icons and failure locations
+    offset: number;
+}
+
+export interface TemplateTestFile {
+    // Path of a .sbn file relative to the test file; defaults to the sibling <name>.sbn
+    template?: string;
+    // Render the saved server template with this id instead of a local file
+    templateId?: string;
+    renderer: TestRenderer;
+    cases: TemplateTestCase[];
+}
+
+export interface TestFailure {
+    message: string;
+    expected?: string;
+    actual?: string;
+}
+
+export interface ParsedTestFile {
+    file?: TemplateTestFile;
+    error?: string;
+}
+
+export function parseTestFile(text: string): ParsedTestFile {
+    let json: any;
+    try {
+        json = JSON.parse(text);
+    } catch (error) {
+        return { error: `Invalid JSON: ${error instanceof Error ? error.message : String(error)}` };
+    }
+
+    if (!json || !Array.isArray(json.cases)) {
+        return { error: 'A test file needs a "cases" array' };
+    }
+    if (json.renderer !== undefined && json.renderer !== 'server' && json.renderer !== 'local') {
+        return { error: '"renderer" must be "server" or "local"' };
+    }
+
+    const cases: TemplateTestCase[] = [];
+    let searchFrom = Math.max(text.indexOf('"cases"'), 0);
+    for (let i = 0; i < json.cases.length; i++) {
+        const testCase = json.cases[i] || {};
+        const name = typeof testCase.name === 'string' && testCase.name ? testCase.name : `Case ${i + 1}`;
+        const offset = findCaseOffset(text, testCase.name, searchFrom);
+        searchFrom = offset + 1;
+
+        cases.push({
+            name,
+            data: testCase.data ?? {},
+            expected: typeof testCase.expected === 'string' ? testCase.expected : undefined,
+            contains: toStringList(testCase.contains),
+            notContains: toStringList(testCase.notContains),
+            matches: toStringList(testCase.matches),
+            offset
+        });
+    }
+
+    return {
+        file: {
+            template: typeof json.template === 'string' ? json.template : undefined,
+            templateId: typeof json.templateId === 'string' ? json.templateId : undefined,
+            renderer: json.renderer || 'server',
+            cases
+        }
+    };
+}
+
+// Check a rendered output against every assertion of a case
+export function evaluateTestCase(testCase: TemplateTestCase, output: string): TestFailure[] {
+    const failures: TestFailure[] = [];
+    const actual = normalizeLineEndings(output);
+
+    if (testCase.expected === undefined && !testCase.contains && !testCase.notContains && !testCase.matches) {
+        return [{ message: 'The test case has no assertions: add "expected", "contains", "notContains" or "matches"' }];
+    }
+
+    if (testCase.expected !== undefined) {
+        const expected = normalizeLineEndings(testCase.expected);
+        if (actual !== expected) {
+            failures.push({ message: 'Output does not match the expected output', expected, actual });
+        }
+    }
+
+    for (const text of testCase.contains || []) {
+        if (!actual.includes(text)) {
+            failures.push({ message: `Output does not contain "${text}"`, actual });
+        }
+    }
+
+    for (const text of testCase.notContains || []) {
+        if (actual.includes(text)) {
+            failures.push({ message: `Output unexpectedly contains "${text}"`, actual });
+        }
+    }
+
+    for (const pattern of testCase.matches || []) {
+        let regex: RegExp;
+        try {
+            regex = toRegExp(pattern);
+        } catch (error) {
+            failures.push({ message: `Invalid regular expression ${pattern}: ${error instanceof Error ? error.message : String(error)}` });
+            continue;
+        }
+        if (!regex.test(actual)) {
+            failures.push({ message: `Output does not match ${regex}`, actual });
+        }
+    }
+
+    return failures;
+}
+
+// `Welcome Email.tests.json` tests `Welcome Email.sbn` unless the file names another template
+export function getDefaultTemplatePath(testFileName: string): string {
+    return `${testFileName.slice(0, -TEST_FILE_SUFFIX.length)}.sbn`;
+}
+
+function toRegExp(pattern: string): RegExp {
+    const literal = pattern.match(/^\/(.*)\/([a-z]*)$/s);
+    return literal ? new RegExp(literal[1], literal[2]) : new RegExp(pattern, 'm');
+}
+
+function toStringList(value: unknown): string[] | undefined {
+    if (typeof value === 'string') {
+        return [value];
+    }
+    if (Array.isArray(value)) {
+        return value.map(item => String(item));
+    }
+    return undefined;
+}
+
+function normalizeLineEndings(text: string): string {
+    return text.replace(/\r\n/g, '\n');
+}
+
+// Point at the case's name when it can be found, otherwise at the next object
+function findCaseOffset(text: string, name: unknown, searchFrom: number): number {
+    if (typeof name === 'string') {
+        const index = text.indexOf(JSON.stringify(name), searchFrom);
+        if (index !== -1) {
+            return index;
+        }
+    }
+    const brace = text.indexOf('{', searchFrom);
+    return brace === -1 ? searchFrom : brace;
+}
@@ -0,0 +1,173 @@
+// Rendering a template and turning the outcome into a TestResult, for the extension and the CLI
+
+import { Template, TestResult } from '../types';
+import { renderTemplate } from '../language/scriban/interpreter';
+import { validateTemplateContent } from './validation';
+import { checkSampleData } from './schema';
+import { DEFAULT_RENDER_FORMATS, InputFormat, RenderFormats, toDataValue } from './formats';
+
+// The part of LoroApiClient that renders
+export interface RenderApi {
+    renderTemplate(id: string, sampleData: any, formats?: RenderFormats): Promise<any>;
+    renderContent(content: string, sampleData: any, formats?: RenderFormats): Promise<any>;
+}
+
+// Render the saved server copy of a template; sample data is checked against its schema first.
+// For input formats other than JSON, `sampleData` is the data's text.
+export async function testTemplate(
+    api: RenderApi,
+    template: Template,
+    sampleData: any,
+    formats: RenderFormats = DEFAULT_RENDER_FORMATS
+): Promise<TestResult> {
+    const startTime = Date.now();
+
+    try {
+        // First validate the template content
+        const validation = validateTemplateContent(template.content);
+        if (!validation.isValid) {
+            return {
+                success: false,
+                output: '',
+                duration: Date.now() - startTime,
+                errors: validation.errors,
+                source: 'saved'
+            };
+        }
+
+        const schemaErrors = checkSampleData(template.schema, toDataValue(sampleData, formats.input));
+        if (schemaErrors.length > 0) {
+            return { success: false, output: '', duration: Date.now() - startTime, errors: schemaErrors, source: 'saved' };
+        }
+
+        const result = await api.renderTemplate(template.id, sampleData, formats);
+        return { ...toTestResult(result, startTime), source: 'saved' };
+    } catch (error) {
+        return {
+            success: false,
+            output: '',
+            duration: Date.now() - startTime,
+            errors: [error instanceof Error ? error.message : String(error)],
+            source: 'saved'
+        };
+    }
+}
+
+// Render content that has not been saved to the server, such as the current editor text.
+// `schema` is the JSON Schema of the template the content belongs to, if any.
+export async function testContent(
+    api: RenderApi,
+    content: string,
+    sampleData: any,
+    schema?: string,
+    formats: RenderFormats = DEFAULT_RENDER_FORMATS
+): Promise<TestResult> {
+    const startTime = Date.now();
+
+    try {
+        const validation = validateTemplateContent(content);
+        if (!validation.isValid) {
+            return {
+                success: false,
+                output: '',
+                duration: Date.now() - startTime,
+                errors: validation.errors,
+                source: 'unsaved'
+            };
+        }
+
+        const schemaErrors = checkSampleData(schema, toDataValue(sampleData, formats.input));
+        if (schemaErrors.length > 0) {
+            return { success: false, output: '', duration: Date.now() - startTime, errors: schemaErrors, source: 'unsaved' };
+        }
+
+        const result = await api.renderContent(content, sampleData, formats);
+        return { ...toTestResult(result, startTime), source: 'unsaved' };
+    } catch (error) {
+        return {
+            success: false,
+            output: '',
+            duration: Date.now() - startTime,
+            errors: [error instanceof Error ? error.message : String(error)],
+            source: 'unsaved'
+        };
+    }
+}
+
+// Render in-process with the local Scriban interpreter; free and instant, but only the common subset
+export function renderLocally(content: string, sampleData: any, schema?: string, inputFormat: InputFormat = 'json'): TestResult {
+    const startTime = Date.now();
+
+    try {
+        const data = toDataValue(sampleData, inputFormat);
+        const schemaErrors = checkSampleData(schema, data);
+        if (schemaErrors.length > 0) {
+            return { success: false, output: '', duration: Date.now() - startTime, errors: schemaErrors, usageConsumed: 0, source: 'local' };
+        }
+
+        const output = renderTemplate(content, data);
+        return {
+            success: true,
+            output,
+            duration: Date.now() - startTime,
+            errors: [],
+            usageConsumed: 0,
+            source: 'local'
+        };
+    } catch (error) {
+        return {
+            success: false,
+            output: '',
+            duration: Date.now() - startTime,
+            errors: [error instanceof Error ? error.message : String(error)],
+            usageConsumed: 0,
+            source: 'local'
+        };
+    }
+}
+
+// Templates store their sample data as a JSON string
+export function parseSampleData(sampleData: string | undefined | null): any {
+    if (!sampleData || !sampleData.trim()) {
+        return {};
+    }
+    try {
+        return JSON.parse(sampleData);
+    } catch (error) {
+        throw new Error(`Stored sample data is not valid JSON: ${error instanceof Error ? error.message : error}`);
+    }
+}
+
+function toTestResult(result: any, startTime: number): TestResult {
+    // Helper function to get property case-insensitively
+    const getProp = (obj: any, ...props: string[]): any => {
+        if (!obj) return undefined;
+        for (const prop of props) {
+            // Try exact match
+            if (obj[prop] !== undefined) return obj[prop];
+            // Try lowercase first letter
+            const lowerProp = prop.charAt(0).toLowerCase() + prop.slice(1);
+            if (obj[lowerProp] !== undefined) return obj[lowerProp];
+            // Try uppercase first letter
+            const upperProp = prop.charAt(0).toUpperCase() + prop.slice(1);
+            if (obj[upperProp] !== undefined) return obj[upperProp];
+        }
+        return undefined;
+    };
+
+    // Get values from result object
+    const output = getProp(result, 'output', 'Output', 'result', 'Result') || '';
+    const error = getProp(result, 'error', 'Error');
+    const renderTime = getProp(result, 'renderTime', 'RenderTime');
+
+    // If we have output and no error, consider it successful
+    const success = error ? false : (output && output.length > 0);
+
+    return {
+        success: success,
+        output: output || 'No output received',
+        duration: renderTime ? Math.round(parseFloat(renderTime) * 1000) : (Date.now() - startTime),
+        errors: error ? [error] : [],
+        usageConsumed: 1 // Each test consumes 1 API call
+    };
+}
@@ -0,0 +1,18 @@
+// Template validation shared by the extension and the CLI
+
+import { parseTemplate } from '../language/scriban/parser';
+
+export interface ValidationResult {
+    isValid: boolean;
+    errors: string[];
+}
+
+// Validate template content against the Scriban parser
+export function validateTemplateContent(content: string): ValidationResult {
+    const { errors } = parseTemplate(content);
+
+    return {
+        isValid: errors.length === 0,
+        errors: errors.map(error => `Line ${error.range.start.line + 1}: ${error.message}`)
+    };
+}
@@ -1,23 +1,71 @@
 import * as vscode from 'vscode';
 import { AuthProvider } from './auth/authProvider';
-import { TemplateTreeProvider } from './templates/treeProvider';
+import { EnvironmentProfile, ProfileManager } from './auth/profiles';
+import { TemplateTreeProvider, TemplateTreeItem } from './templates/treeProvider';
 import { TemplateService } from './templates/templateService';
+import { TemplateFileSystemProvider, TEMPLATE_SCHEME, getTemplateUri, getSchemaUri } from './templates/templateFileSystemProvider';
+import { ReadOnlyDocumentProvider, READONLY_SCHEME } from './templates/readOnlyDocumentProvider';
+import { createSaveConflictHandler } from './templates/saveConflicts';
+import { WorkspaceSyncService, SyncResult } from './templates/workspaceSync';
+import { TemplateBundleService } from './templates/templateBundles';
+import { LocalTemplateHistory } from './templates/templateHistory';
+import { RevisionTreeProvider, RevisionTreeItem } from './templates/revisionTreeProvider';
 import { TestRunner } from './testing/testRunner';
-import { ScribanCodeLensProvider, registerCodeLensCommands } from './language/codeLensProvider';
+import { TemplateTestController } from './testing/testController';
+import { SnapshotService, SnapshotCheck } from './testing/snapshots';
+import { SampleDatasetService, getFakeDataOptions } from './testing/sampleDatasets';
+import { RenderFormatStore } from './testing/renderFormats';
+import { RenderComparisonService, RenderVariant } from './testing/renderComparison';
+import { ScribanCodeLensProvider, registerCodeLensCommands, showSampleDataInput } from './language/codeLensProvider';
+import { ScribanDiagnosticsService } from './language/diagnosticsService';
+import { startLanguageClient } from './language/languageClient';
+import { DataShapePublisher } from './language/dataShapes';
+import { LanguageClient } from 'vscode-languageclient/node';
 import { UsageDashboard } from './webviews/usageDashboard';
+import { BulkTestReport } from './webviews/bulkTestReport';
+import { LivePreviewPanel } from './webviews/livePreview';
+import { showTestResult } from './webviews/testResult';
+import * as os from 'os';
+import { Template } from './types';
+import { inferSchema } from './core/schema';
+import { inferSampleData } from './core/sampleData';
+import { parseSampleData } from './core/testing';
+import { SampleDatasetFile } from './core/datasets';
+import { BUNDLE_FILE_EXTENSION, ClashStrategy, ImportPlanEntry } from './core/bundles';
 
+let profiles: ProfileManager;
 let authProvider: AuthProvider;
 let templateService: TemplateService;
 let templateTreeProvider: TemplateTreeProvider;
+let templateTreeView: vscode.TreeView<TemplateTreeItem>;
+let templateFileSystem: TemplateFileSystemProvider;
+let readOnlyDocuments: ReadOnlyDocumentProvider;
+let workspaceSync: WorkspaceSyncService;
+let templateBundles: TemplateBundleService;
+let localHistory: LocalTemplateHistory;
+let revisionTreeProvider: RevisionTreeProvider;
+// Conflicts already shown, so background syncs don't prompt for them every minute
+const reportedConflicts = new Set<string>();
+// Sync errors from the last pass, so background syncs do not repeat the same message every minute
+let reportedSyncErrors = new Set<string>();
 let testRunner: TestRunner;
+let snapshotService: SnapshotService;
+let renderComparison: RenderComparisonService;
+let sampleDatasetService: SampleDatasetService;
+let renderFormats: RenderFormatStore;
 let usageDashboard: UsageDashboard;
-
-// Track template documents - store the entire template object
-const templateDocuments = new Map<string, any>();
+let bulkTestReport: BulkTestReport;
+let livePreview: LivePreviewPanel;
+let diagnosticsService: ScribanDiagnosticsService;
+let languageClient: LanguageClient | undefined;
 
 // Export for other modules to use
 export function getTemplateInfo(documentUri: string): any {
-    return templateDocuments.get(documentUri);
+    const uri = vscode.Uri.parse(documentUri);
+    if (uri.scheme !== TEMPLATE_SCHEME) {
+        return undefined;
+    }
+    return templateFileSystem.getTemplate(uri);
 }
 
 export function getTestRunner(): TestRunner {
@@ -28,24 +76,98 @@ export function getTemplateService(): TemplateService {
     return templateService;
 }
 
+export function getDiagnosticsService(): ScribanDiagnosticsService {
+    return diagnosticsService;
+}
+
+export function getSampleDatasetService(): SampleDatasetService {
+    return sampleDatasetService;
+}
+
+export function getRenderFormatStore(): RenderFormatStore {
+    return renderFormats;
+}
+
 export async function activate(context: vscode.ExtensionContext) {
     console.log('Loro Templates extension is now active!');
 
     try {
         // Initialize services
-        authProvider = new AuthProvider(context);
-        templateService = new TemplateService(context);
+        profiles = new ProfileManager(context);
+        context.subscriptions.push(profiles);
+        authProvider = new AuthProvider(context, profiles);
+        templateService = new TemplateService(context, profiles, authProvider);
         templateTreeProvider = new TemplateTreeProvider(templateService);
-        testRunner = new TestRunner(templateService);
+        readOnlyDocuments = new ReadOnlyDocumentProvider();
+        templateFileSystem = new TemplateFileSystemProvider(templateService, createSaveConflictHandler(readOnlyDocuments));
+        workspaceSync = new WorkspaceSyncService(context, templateService, profiles);
+        context.subscriptions.push(workspaceSync);
+        templateBundles = new TemplateBundleService(templateService, profiles);
+        localHistory = new LocalTemplateHistory(context);
+        revisionTreeProvider = new RevisionTreeProvider(templateService, localHistory);
+        sampleDatasetService = new SampleDatasetService();
+        renderFormats = new RenderFormatStore(context.workspaceState);
+        testRunner = new TestRunner(templateService, sampleDatasetService, renderFormats);
         usageDashboard = new UsageDashboard(context, templateService);
+        bulkTestReport = new BulkTestReport(context);
+
+        // Register tree view for Activity Bar
+        templateTreeView = vscode.window.createTreeView('loroTemplates', {
+            treeDataProvider: templateTreeProvider,
+            canSelectMany: true
+        });
+        context.subscriptions.push(templateTreeView);
 
-        // Register tree data provider for Activity Bar
-        vscode.window.registerTreeDataProvider('loroTemplates', templateTreeProvider);
+        // Serve templates as loro://<category>/<name>.sbn documents
+        context.subscriptions.push(
+            vscode.workspace.registerFileSystemProvider(TEMPLATE_SCHEME, templateFileSystem, { isCaseSensitive: true }),
+            templateFileSystem.onDidChangeFile(() => templateTreeProvider.refresh()),
+            vscode.workspace.registerTextDocumentContentProvider(READONLY_SCHEME, readOnlyDocuments)
+        );
+
+        // Revision history of the active template; saves are recorded locally in case the server keeps none
+        context.subscriptions.push(
+            vscode.window.registerTreeDataProvider('loroRevisions', revisionTreeProvider),
+            vscode.window.onDidChangeActiveTextEditor(editor => {
+                if (editor?.document.uri.scheme === TEMPLATE_SCHEME) {
+                    revisionTreeProvider.setTemplate(templateFileSystem.getTemplate(editor.document.uri));
+                }
+            }),
+            templateFileSystem.onDidSaveTemplate(async ({ previous, saved }) => {
+                const author = await getCurrentAuthor();
+                await localHistory.record(previous);
+                await localHistory.record(saved, author);
+                if (revisionTreeProvider.getTemplate()?.id === saved.id) {
+                    revisionTreeProvider.refresh();
+                }
+            })
+        );
+
+        snapshotService = new SnapshotService(templateService, testRunner, readOnlyDocuments);
+        renderComparison = new RenderComparisonService(testRunner, readOnlyDocuments);
+
+        livePreview = new LivePreviewPanel(context, testRunner, templateFileSystem, sampleDatasetService, renderFormats);
+        context.subscriptions.push(livePreview);
+
+        // Template test case files in the Test Explorer
+        context.subscriptions.push(new TemplateTestController(templateService, testRunner));
 
         // Register CodeLens provider
         const codeLensProvider = new ScribanCodeLensProvider();
         vscode.languages.registerCodeLensProvider({ language: 'scriban' }, codeLensProvider);
 
+        // Live diagnostics for open Scriban documents
+        diagnosticsService = new ScribanDiagnosticsService();
+        context.subscriptions.push(diagnosticsService);
+
+        // Completion, hover and navigation come from the Scriban language server
+        startLanguageClient(context).then(client => {
+            languageClient = client;
+            context.subscriptions.push(new DataShapePublisher(client, templateFileSystem));
+        }, error => {
+            console.error('Failed to start Scriban language server:', error);
+        });
+
         // Register commands
         registerCommands(context);
         
@@ -54,26 +176,32 @@ export async function activate(context: vscode.ExtensionContext) {
 
         // Initialize authentication state
         await authProvider.initialize();
+        context.subscriptions.push(
+            authProvider.register(),
+            // Signing in or out from the Accounts menu bypasses the login and logout commands
+            authProvider.onDidChangeSessions(() => templateTreeProvider.refresh())
+        );
 
         // Setup status bar
-        setupStatusBar(context);
-        
-        // Register save handler for template documents
-        vscode.workspace.onDidSaveTextDocument(async (document) => {
-            if (templateDocuments.has(document.uri.toString())) {
-                await saveTemplateToServer(document);
-            }
-        });
-        
-        // Clean up when documents are closed
-        vscode.workspace.onDidCloseTextDocument((document) => {
-            templateDocuments.delete(document.uri.toString());
-        });
+        const updateUsageStatus = setupStatusBar(context);
+        setupProfileStatusBar(context);
+
+        // Everything loaded from the previous environment is dropped when switching profiles
+        context.subscriptions.push(profiles.onDidChangeProfile(profile => switchProfile(profile).then(updateUsageStatus)));
+
+        // Keep an existing workspace template folder in sync
+        if (await isAutoSyncEnabled()) {
+            workspaceSync.watch();
+            syncWorkspace(false);
+        }
 
         // Auto-refresh templates periodically
-        const refreshInterval = setInterval(() => {
+        const refreshInterval = setInterval(async () => {
             if (authProvider.isAuthenticated()) {
                 templateTreeProvider.refresh();
+                if (await isAutoSyncEnabled()) {
+                    syncWorkspace(false);
+                }
             }
         }, 60000); // Refresh every minute
 
@@ -134,10 +262,85 @@ function registerCommands(context: vscode.ExtensionContext) {
         await deleteTemplate(template);
     });
 
+    const testAllTemplatesCommand = vscode.commands.registerCommand('loro.testAllTemplates', async () => {
+        await runBulkTests();
+    });
+
+    const testCategoryCommand = vscode.commands.registerCommand('loro.testCategory', async (item?: TemplateTreeItem) => {
+        if (item?.contextValue !== 'category') {
+            vscode.window.showWarningMessage('Select a category in the Loro Templates view to test it.');
+            return;
+        }
+        await runBulkTests(item.id);
+    });
+
+    const exportTemplatesCommand = vscode.commands.registerCommand('loro.exportTemplates', async (item?: TemplateTreeItem, selection?: TemplateTreeItem[]) => {
+        await exportTemplates(item, selection);
+    });
+
+    const importBundleCommand = vscode.commands.registerCommand('loro.importBundle', async (uri?: vscode.Uri) => {
+        await importBundle(uri);
+    });
+
+    const selectProfileCommand = vscode.commands.registerCommand('loro.selectProfile', async () => {
+        await selectProfile();
+    });
+
     const showUsageCommand = vscode.commands.registerCommand('loro.showUsage', () => {
         usageDashboard.show();
     });
 
+    const revealInTreeCommand = vscode.commands.registerCommand('loro.revealInTree', async (uri?: vscode.Uri) => {
+        await revealInTree(uri || vscode.window.activeTextEditor?.document.uri);
+    });
+
+    const syncWorkspaceCommand = vscode.commands.registerCommand('loro.syncWorkspace', async () => {
+        await syncWorkspace(true);
+        if (vscode.workspace.getConfiguration('loro').get<boolean>('autoSync', true)) {
+            workspaceSync.watch();
+        }
+    });
+
+    const showTemplateHistoryCommand = vscode.commands.registerCommand('loro.showTemplateHistory', async (target?: TemplateTreeItem | vscode.Uri) => {
+        await showTemplateHistory(target);
+    });
+
+    const compareRevisionCommand = vscode.commands.registerCommand('loro.compareRevision', async (item: RevisionTreeItem) => {
+        await compareRevision(item);
+    });
+
+    const restoreRevisionCommand = vscode.commands.registerCommand('loro.restoreRevision', async (item: RevisionTreeItem) => {
+        await restoreRevision(item);
+    });
+
+    const recordSnapshotCommand = vscode.commands.registerCommand('loro.recordSnapshot', async (target?: TemplateTreeItem | vscode.Uri) => {
+        await recordSnapshot(target);
+    });
+
+    const checkSnapshotsCommand = vscode.commands.registerCommand('loro.checkSnapshots', async (target?: TemplateTreeItem | vscode.Uri) => {
+        await checkSnapshots(target);
+    });
+
+    const acceptSnapshotCommand = vscode.commands.registerCommand('loro.acceptSnapshot', async (uri?: vscode.Uri) => {
+        await acceptSnapshot(uri || vscode.window.activeTextEditor?.document.uri);
+    });
+
+    const editSchemaCommand = vscode.commands.registerCommand('loro.editSchema', async (target?: TemplateTreeItem | vscode.Uri) => {
+        await editSchema(target);
+    });
+
+    const generateSchemaCommand = vscode.commands.registerCommand('loro.generateSchema', async (target?: TemplateTreeItem | vscode.Uri) => {
+        await generateSchema(target);
+    });
+
+    const showPreviewCommand = vscode.commands.registerCommand('loro.showPreview', async (uri?: vscode.Uri) => {
+        await showPreview(uri);
+    });
+
+    const compareRendersCommand = vscode.commands.registerCommand('loro.compareRenders', async (target?: TemplateTreeItem | vscode.Uri) => {
+        await compareRenders(target);
+    });
+
     // Register all commands
     context.subscriptions.push(
         loginCommand,
@@ -147,10 +350,133 @@ function registerCommands(context: vscode.ExtensionContext) {
         openTemplateCommand,
         testTemplateCommand,
         deleteTemplateCommand,
-        showUsageCommand
+        testAllTemplatesCommand,
+        testCategoryCommand,
+        exportTemplatesCommand,
+        importBundleCommand,
+        selectProfileCommand,
+        showUsageCommand,
+        revealInTreeCommand,
+        syncWorkspaceCommand,
+        showTemplateHistoryCommand,
+        compareRevisionCommand,
+        restoreRevisionCommand,
+        recordSnapshotCommand,
+        checkSnapshotsCommand,
+        acceptSnapshotCommand,
+        editSchemaCommand,
+        generateSchemaCommand,
+        showPreviewCommand,
+        compareRendersCommand
     );
 }
 
+async function showPreview(uri?: vscode.Uri) {
+    const document = uri ? await vscode.workspace.openTextDocument(uri) : vscode.window.activeTextEditor?.document;
+    if (!document || document.languageId !== 'scriban') {
+        vscode.window.showWarningMessage('Open a Scriban template to preview it.');
+        return;
+    }
+    livePreview.show(document);
+}
+
+async function compareRenders(target?: TemplateTreeItem | vscode.Uri) {
+    // Server templates from the tree or a loro:// editor; any other Scriban editor compares datasets only
+    const template = resolveTemplateTarget(target);
+    const uri = template ? getTemplateUri(template) : target instanceof vscode.Uri ? target : vscode.window.activeTextEditor?.document.uri;
+    const document = vscode.workspace.textDocuments.find(openDocument =>
+        openDocument.uri.toString() === uri?.toString() && openDocument.languageId === 'scriban'
+    );
+    if (!template && !document) {
+        vscode.window.showWarningMessage('Select a template in the Loro Templates view or open a Scriban template to compare its renders.');
+        return;
+    }
+
+    const name = template?.name || document!.uri.path.split('/').pop() || 'Untitled';
+    const mode = template && document
+        ? await vscode.window.showQuickPick([
+            { label: 'Saved Version ↔ Editor', description: 'Render the server copy and the editor content with the same data', mode: 'editor' },
+            { label: 'Dataset ↔ Dataset', description: 'Render the template with two different datasets', mode: 'datasets' }
+        ], { placeHolder: `Compare renders of "${name}"` })
+        : { mode: 'datasets' };
+    if (!mode) {
+        return;
+    }
+
+    const sources = await getComparisonData(template, document);
+    if (!sources) {
+        return;
+    }
+    const formatKey = template?.id || document!.uri.toString();
+    const pickData = (placeHolder: string) => vscode.window.showQuickPick(sources, { placeHolder });
+
+    // The saved copy is rendered unless the editor has changes the server doesn't
+    const variant = (label: string, data: any, source: 'saved' | 'editor'): RenderVariant => ({
+        label,
+        template,
+        content: source === 'editor' && (!template || document?.isDirty) ? document!.getText() : undefined,
+        schema: template?.schema,
+        data,
+        formats: renderFormats.getForData(formatKey, data)
+    });
+
+    let left: RenderVariant;
+    let right: RenderVariant;
+    if (mode.mode === 'editor') {
+        const data = await pickData('Data to render both versions with');
+        if (!data) {
+            return;
+        }
+        left = variant('Saved', data.data, 'saved');
+        right = variant('Editor', data.data, 'editor');
+    } else {
+        const first = await pickData('First dataset');
+        const second = first && await pickData(`Compare "${first.label}" with`);
+        if (!first || !second) {
+            return;
+        }
+        left = variant(first.label, first.data, 'editor');
+        right = variant(second.label === first.label ? `${second.label} (2)` : second.label, second.data, 'editor');
+    }
+
+    try {
+        await vscode.window.withProgress({
+            location: vscode.ProgressLocation.Notification,
+            title: `Rendering "${name}" twice to compare...`
+        }, () => renderComparison.compare(name, left, right));
+    } catch (error) {
+        vscode.window.showErrorMessage(`Failed to compare renders: ${error instanceof Error ? error.message : error}`);
+    }
+}
+
+// Saved datasets, the template's own sample data and data generated from the template
+async function getComparisonData(
+    template: Template | undefined,
+    document: vscode.TextDocument | undefined
+): Promise<(vscode.QuickPickItem & { data: any })[] | undefined> {
+    const owner = { name: template?.name || document!.uri.path.split('/').pop() || 'Untitled', category: template?.category };
+    let file: SampleDatasetFile;
+    try {
+        file = await sampleDatasetService.load(owner);
+    } catch (error) {
+        vscode.window.showErrorMessage(`Failed to load sample datasets: ${error instanceof Error ? error.message : error}`);
+        return undefined;
+    }
+
+    const sources: (vscode.QuickPickItem & { data: any })[] = Object.entries(file.datasets).map(([datasetName, data]) => ({
+        label: datasetName,
+        description: datasetName === file.default ? 'Default dataset' : 'Saved dataset',
+        data
+    }));
+    const sampleData = parseSampleData(template?.sampleData);
+    if (sampleData && Object.keys(sampleData).length > 0) {
+        sources.push({ label: 'Template sample data', description: 'Stored with the template', data: sampleData });
+    }
+    const content = document?.getText() ?? template?.content ?? '';
+    sources.push({ label: 'Generated data', description: 'Inferred from how the template uses its data', data: inferSampleData(content, getFakeDataOptions()) });
+    return sources;
+}
+
 async function createNewTemplate() {
     const name = await vscode.window.showInputBox({
         prompt: 'Enter template name',
@@ -202,19 +528,16 @@ async function openTemplate(template: any) {
         }
 
         console.log('Full template fetched:', fullTemplate);
-        console.log('Sample data in template:', fullTemplate.sampleData);
-
-        // Create a new untitled document with the template content
-        const doc = await vscode.workspace.openTextDocument({
-            content: fullTemplate.content,
-            language: 'scriban'
-        });
 
-        const editor = await vscode.window.showTextDocument(doc);
+        // Open through the loro:// file system so saves go straight back to the server
+        const uri = getTemplateUri(fullTemplate);
+        const doc = await vscode.workspace.openTextDocument(uri);
+        if (doc.languageId !== 'scriban') {
+            await vscode.languages.setTextDocumentLanguage(doc, 'scriban');
+        }
 
-        // Store the ENTIRE template object so we have all fields when saving
-        templateDocuments.set(doc.uri.toString(), fullTemplate);
-        console.log('Stored template in templateDocuments with URI:', doc.uri.toString());
+        await vscode.window.showTextDocument(doc);
+        console.log('Opened template document with URI:', uri.toString());
         
         // Show save instructions
         vscode.window.showInformationMessage(
@@ -241,31 +564,19 @@ async function testTemplate(template: any) {
             return;
         }
         
-        // Get sample data (default or user-provided)
-        const sampleDataInput = await vscode.window.showInputBox({
-            prompt: 'Enter sample data (JSON)',
-            placeHolder: '{"user": {"name": "John Doe", "email": "john@example.com"}}',
-            value: fullTemplate.sampleData || '{}'
-        });
+        // Pick a saved dataset or edit the template's sample data
+        const sampleDataInput = await showSampleDataInput(fullTemplate, fullTemplate.sampleData || '{}', fullTemplate.id);
 
         if (!sampleDataInput) return;
 
-        let sampleData: any;
-        try {
-            sampleData = JSON.parse(sampleDataInput);
-        } catch (e) {
-            vscode.window.showErrorMessage('Invalid JSON in sample data');
-            return;
-        }
-
         // Show progress
         await vscode.window.withProgress({
             location: vscode.ProgressLocation.Notification,
             title: `Testing template "${fullTemplate.name}"...`,
             cancellable: false
         }, async () => {
-            const result = await testRunner.testTemplate(fullTemplate, sampleData);
-            await showTestResult(fullTemplate, result);
+            const result = await testRunner.testTemplate(fullTemplate, sampleDataInput.data, sampleDataInput.formats);
+            showTestResult(fullTemplate, result);
         });
 
     } catch (error) {
@@ -273,148 +584,519 @@ async function testTemplate(template: any) {
     }
 }
 
-async function showTestResult(template: any, result: any) {
-    const panel = vscode.window.createWebviewPanel(
-        'loroTestResult',
-        `Test Result: ${template.name}`,
-        vscode.ViewColumn.Beside,
-        { enableScripts: true }
+async function revealInTree(uri: vscode.Uri | undefined) {
+    if (!uri || uri.scheme !== TEMPLATE_SCHEME) {
+        vscode.window.showWarningMessage('The active editor is not a Loro template.');
+        return;
+    }
+
+    const openedTemplate = templateFileSystem.getTemplate(uri);
+    const item = await templateTreeProvider.findTemplateItem(template => openedTemplate
+        ? template.id === openedTemplate.id
+        : getTemplateUri(template).toString() === uri.toString()
     );
 
-    panel.webview.html = getTestResultHtml(template, result);
+    if (!item) {
+        vscode.window.showWarningMessage('Could not find this template in the Loro Templates view.');
+        return;
+    }
+
+    await templateTreeView.reveal(item, { select: true, focus: true });
 }
 
-function getTestResultHtml(template: any, result: any): string {
-    const statusColor = result.success ? '#4CAF50' : '#f44336';
-    
-    return `
-    <!DOCTYPE html>
-    <html lang="en">
-    <head>
-        <meta charset="UTF-8">
-        <meta name="viewport" content="width=device-width, initial-scale=1.0">
-        <title>Test Result</title>
-        <style>
-            body { 
-                font-family: var(--vscode-font-family); 
-                color: var(--vscode-foreground);
-                background: var(--vscode-editor-background);
-                padding: 20px;
-            }
-            .status { 
-                padding: 10px; 
-                border-radius: 4px; 
-                margin-bottom: 20px;
-                background: ${statusColor};
-                color: white;
-                font-weight: bold;
-            }
-            .section { 
-                margin-bottom: 20px; 
-                border: 1px solid var(--vscode-panel-border);
-                border-radius: 4px;
-            }
-            .section-header {
-                background: var(--vscode-panel-background);
-                padding: 10px;
-                font-weight: bold;
-                border-bottom: 1px solid var(--vscode-panel-border);
-            }
-            .section-content { 
-                padding: 15px; 
-            }
-            pre { 
-                background: var(--vscode-textCodeBlock-background); 
-                padding: 10px; 
-                border-radius: 4px; 
-                overflow-x: auto;
-                white-space: pre-wrap;
-            }
-            .meta { 
-                color: var(--vscode-descriptionForeground); 
-                font-size: 0.9em; 
-            }
-            .error { color: var(--vscode-errorForeground); }
-        </style>
-    </head>
-    <body>
-        <h2>Test Result for "${template.name}"</h2>
-        
-        <div class="status">
-            ${result.success ? '✅ Test Passed' : '❌ Test Failed'}
-        </div>
-        
-        <div class="meta">
-            Duration: ${result.duration}ms
-            ${result.usageConsumed ? ` | API Usage: ${result.usageConsumed} call(s)` : ''}
-        </div>
-
-        <div class="section">
-            <div class="section-header">📄 Output</div>
-            <div class="section-content">
-                <pre>${result.output || '(no output)'}</pre>
-            </div>
-        </div>
-
-        ${result.errors && result.errors.length > 0 ? `
-        <div class="section">
-            <div class="section-header">⚠️ Errors</div>
-            <div class="section-content">
-                ${result.errors.map((error: any) => `<div class="error">${error}</div>`).join('<br>')}
-            </div>
-        </div>
-        ` : ''}
-
-        <div style="margin-top: 20px; padding-top: 15px; border-top: 1px solid var(--vscode-panel-border); text-align: center; color: var(--vscode-descriptionForeground); font-size: 12px;">
-            🚀 Powered by <a href="https://github.com/scriban/scriban/blob/master/license.txt" target="_blank" style="color: var(--vscode-textLink-foreground); text-decoration: none;">Scriban</a> - The fast, powerful, safe and lightweight scripting language and engine for .NET
-        </div>
-    </body>
-    </html>`;
-}
-
-async function saveTemplateToServer(document: vscode.TextDocument) {
-    const storedTemplate = templateDocuments.get(document.uri.toString());
-    
-    if (!storedTemplate) {
-        return; // Not a template document
+// Command targets are a Templates view item or a loro:// URI; default to the active editor
+function resolveTemplateTarget(target?: TemplateTreeItem | vscode.Uri): Template | undefined {
+    if (target instanceof TemplateTreeItem) {
+        return target.template;
+    }
+    const uri = target instanceof vscode.Uri ? target : vscode.window.activeTextEditor?.document.uri;
+    return uri?.scheme === TEMPLATE_SCHEME ? templateFileSystem.getTemplate(uri) : undefined;
+}
+
+async function showTemplateHistory(target?: TemplateTreeItem | vscode.Uri) {
+    const template = resolveTemplateTarget(target);
+    if (!template) {
+        vscode.window.showWarningMessage('Select a template in the Loro Templates view or open one to see its history.');
+        return;
+    }
+
+    revisionTreeProvider.setTemplate(template);
+    revisionTreeProvider.refresh();
+    await vscode.commands.executeCommand('loroRevisions.focus');
+}
+
+async function compareRevision(item: RevisionTreeItem) {
+    const { template, revision } = item;
+    const revisionUri = readOnlyDocuments.createDocument(
+        `revisions/${template.id}/${revision.source}-${revision.id}/${template.name}.sbn`,
+        revision.content
+    );
+    const title = `${template.name} (${new Date(revision.createdAt).toLocaleString()}) ↔ Current`;
+    await vscode.commands.executeCommand('vscode.diff', revisionUri, getTemplateUri(template), title);
+}
+
+async function restoreRevision(item: RevisionTreeItem) {
+    const { template, revision } = item;
+    const confirm = await vscode.window.showWarningMessage(
+        `Restore "${template.name}" to the version from ${new Date(revision.createdAt).toLocaleString()}?`,
+        { modal: true, detail: 'The restored content is saved to the server as a new version.' },
+        'Restore'
+    );
+    if (confirm !== 'Restore') {
+        return;
     }
 
     try {
-        const templateId = storedTemplate.id;
-        const templateName = storedTemplate.name;
-        
-        // Show progress while saving
-        await vscode.window.withProgress({
+        // Restore onto the latest server copy so its metadata is kept
+        const current = await templateService.getTemplate(template.id);
+        if (!current) {
+            throw new Error('Template could not be loaded from the server');
+        }
+
+        const updated = await templateService.updateTemplate(template.id, { ...current, content: revision.content });
+        if (!updated) {
+            return;
+        }
+
+        const restored = await templateService.getTemplate(template.id) || { ...current, content: revision.content };
+        await localHistory.record(current);
+        await localHistory.record(restored, await getCurrentAuthor());
+
+        templateFileSystem.notifyChanged(getTemplateUri(current));
+        revisionTreeProvider.refresh();
+        vscode.window.showInformationMessage(`Template "${template.name}" restored`);
+    } catch (error) {
+        vscode.window.showErrorMessage(`Failed to restore template: ${error}`);
+    }
+}
+
+async function recordSnapshot(target?: TemplateTreeItem | vscode.Uri) {
+    const selected = resolveTemplateTarget(target);
+    if (!selected) {
+        vscode.window.showWarningMessage('Select a template in the Loro Templates view or open one to record a snapshot.');
+        return;
+    }
+
+    const template = await templateService.getTemplate(selected.id);
+    if (!template) {
+        return;
+    }
+
+    const sampleDataInput = await showSampleDataInput(template, template.sampleData || '{}', template.id);
+    if (!sampleDataInput) {
+        return;
+    }
+
+    // Snapshots of a saved dataset are named after it
+    const dataset = await vscode.window.showInputBox({
+        prompt: `Name of the dataset to snapshot "${template.name}" with`,
+        value: sampleDataInput.dataset || 'default',
+        validateInput: value => value.trim() ? undefined : 'Enter a dataset name'
+    });
+    if (!dataset) {
+        return;
+    }
+
+    try {
+        const snapshotUri = await vscode.window.withProgress({
             location: vscode.ProgressLocation.Notification,
-            title: `Saving template "${templateName}"...`,
-            cancellable: false
-        }, async () => {
-            // Verify we have the name before sending
-            if (!storedTemplate.name) {
-                throw new Error('Template name is missing from stored template');
-            }
-            
-            // Use the stored template with updated content
-            const updatedTemplate = await templateService.updateTemplate(templateId, {
-                name: storedTemplate.name,
-                category: storedTemplate.category,
-                description: storedTemplate.description,
-                content: document.getText(),
-                isActive: storedTemplate.isActive,
-                sampleData: storedTemplate.sampleData,
-                schema: storedTemplate.schema
-            });
-
-            if (updatedTemplate) {
-                vscode.window.showInformationMessage(`Template "${templateName}" saved to server successfully`);
-                // Update the stored template with the new content
-                storedTemplate.content = document.getText();
-                // Refresh the tree view to show any changes
-                templateTreeProvider.refresh();
-            }
-        });
+            title: `Recording snapshot of "${template.name}"...`
+        }, () => snapshotService.record(template, dataset.trim(), sampleDataInput.data, sampleDataInput.formats));
+
+        const choice = await vscode.window.showInformationMessage(
+            `Snapshot recorded: ${vscode.workspace.asRelativePath(snapshotUri)}`,
+            'Open Snapshot'
+        );
+        if (choice === 'Open Snapshot') {
+            await vscode.window.showTextDocument(snapshotUri);
+        }
+    } catch (error) {
+        vscode.window.showErrorMessage(`Failed to record snapshot: ${error instanceof Error ? error.message : error}`);
+    }
+}
+
+async function checkSnapshots(target?: TemplateTreeItem | vscode.Uri) {
+    // Without a template target every recorded snapshot is checked
+    const template = target ? resolveTemplateTarget(target) : undefined;
+
+    const checks = await vscode.window.withProgress({
+        location: vscode.ProgressLocation.Notification,
+        title: template ? `Checking snapshots of "${template.name}"...` : 'Checking template snapshots...',
+        cancellable: true
+    }, (_progress, token) => snapshotService.check(template?.id, token));
+
+    if (checks.length === 0) {
+        vscode.window.showInformationMessage('No snapshots recorded yet. Use "Record Snapshot" on a template first.');
+        return;
+    }
+
+    const changed = checks.filter(check => check.status === 'changed');
+    const failed = checks.filter(check => check.status === 'error');
+    for (const check of failed) {
+        vscode.window.showErrorMessage(`Snapshot ${check.record.templateName} › ${check.record.dataset} could not be rendered: ${check.error}`);
+    }
+
+    if (changed.length === 0) {
+        if (failed.length === 0) {
+            vscode.window.showInformationMessage(`All ${checks.length} snapshot(s) match.`);
+        }
+        return;
+    }
+
+    const choice = await vscode.window.showWarningMessage(
+        `${changed.length} of ${checks.length} snapshot(s) changed.`,
+        'Show Changes'
+    );
+    if (choice !== 'Show Changes') {
+        return;
+    }
+
+    if (changed.length === 1) {
+        await snapshotService.showDiff(changed[0]);
+        return;
+    }
+
+    const picked = await vscode.window.showQuickPick(
+        changed.map(check => ({
+            label: `${check.record.templateName} › ${check.record.dataset}`,
+            description: vscode.workspace.asRelativePath(check.snapshotUri),
+            check
+        })),
+        { placeHolder: 'Select a changed snapshot to compare' }
+    );
+    if (picked) {
+        await snapshotService.showDiff(picked.check);
+    }
+}
+
+async function acceptSnapshot(resultUri: vscode.Uri | undefined) {
+    const accepted: SnapshotCheck | undefined = resultUri ? await snapshotService.accept(resultUri) : undefined;
+    if (!accepted) {
+        vscode.window.showWarningMessage('Open a changed snapshot from "Check Template Snapshots" to accept it.');
+        return;
+    }
+
+    await vscode.commands.executeCommand('workbench.action.closeActiveEditor');
+    vscode.window.showInformationMessage(`Snapshot ${accepted.record.templateName} › ${accepted.record.dataset} updated.`);
+}
+
+// The schema opens as loro://<category>/<name>.schema.json; saving it stores it on the template
+async function editSchema(target?: TemplateTreeItem | vscode.Uri) {
+    const template = resolveTemplateTarget(target);
+    if (!template) {
+        vscode.window.showWarningMessage('Select a template in the Loro Templates view or open one to edit its schema.');
+        return;
+    }
+
+    const document = await vscode.workspace.openTextDocument(getSchemaUri(template));
+    await vscode.window.showTextDocument(document, vscode.ViewColumn.Beside);
+}
+
+async function generateSchema(target?: TemplateTreeItem | vscode.Uri) {
+    const template = resolveTemplateTarget(target);
+    if (!template) {
+        vscode.window.showWarningMessage('Select a template in the Loro Templates view or open one to generate a schema for it.');
+        return;
+    }
+
+    // Prefer the open editor so unsaved edits are taken into account
+    const templateUri = getTemplateUri(template).toString();
+    const openDocument = vscode.workspace.textDocuments.find(document => document.uri.toString() === templateUri);
+    const content = openDocument ? openDocument.getText() : (await templateService.getTemplate(template.id))?.content;
+    if (content === undefined) {
+        return;
+    }
+
+    const schemaDocument = await vscode.workspace.openTextDocument(getSchemaUri(template));
+    if (schemaDocument.getText().trim()) {
+        const confirm = await vscode.window.showWarningMessage(
+            `"${template.name}" already has a schema. Replace it with one generated from the template?`,
+            { modal: true, detail: 'The generated schema is not saved until you save the schema document.' },
+            'Replace'
+        );
+        if (confirm !== 'Replace') {
+            return;
+        }
+    }
+
+    const schema = inferSchema(content, template.name);
+    const editor = await vscode.window.showTextDocument(schemaDocument, vscode.ViewColumn.Beside);
+    await editor.edit(builder => builder.replace(
+        schemaDocument.validateRange(new vscode.Range(0, 0, schemaDocument.lineCount, 0)),
+        `${JSON.stringify(schema, null, 2)}\n`
+    ));
+    vscode.window.showInformationMessage(`Review the generated schema and save it to store it with "${template.name}".`);
+}
+
+async function getCurrentAuthor(): Promise<string | undefined> {
+    const credentials = await authProvider.getCredentials();
+    if (credentials?.userEmail) {
+        return credentials.userEmail;
+    }
+    try {
+        return os.userInfo().username;
+    } catch {
+        return undefined;
+    }
+}
+
+async function isAutoSyncEnabled(): Promise<boolean> {
+    // Only sync workspaces that already contain the template folder; the command creates it
+    return vscode.workspace.getConfiguration('loro').get<boolean>('autoSync', true)
+        && authProvider.isAuthenticated()
+        && await workspaceSync.hasSyncFolder();
+}
+
+async function syncWorkspace(interactive: boolean) {
+    if (!authProvider.isAuthenticated()) {
+        if (interactive) {
+            vscode.window.showWarningMessage('Please login to Loro Templates first.');
+        }
+        return;
+    }
+
+    let result: SyncResult;
+    try {
+        result = interactive
+            ? await vscode.window.withProgress({
+                location: vscode.ProgressLocation.Notification,
+                title: 'Syncing templates with the workspace...'
+            }, () => workspaceSync.sync())
+            : await workspaceSync.sync();
+    } catch (error) {
+        if (interactive) {
+            vscode.window.showErrorMessage(`Failed to sync templates: ${error instanceof Error ? error.message : error}`);
+        } else {
+            console.error('Automatic template sync failed:', error);
+        }
+        return;
+    }
+
+    await showSyncResult(result, interactive);
+}
+
+async function showSyncResult(result: SyncResult, interactive: boolean) {
+    if (result.pushed.length > 0) {
+        templateTreeProvider.refresh();
+    }
+
+    const summary = `${result.pulled.length} pulled, ${result.pushed.length} pushed`;
+    if (interactive) {
+        vscode.window.showInformationMessage(`Templates synced: ${summary}` +
+            (result.untracked.length > 0 ? ` (${result.untracked.length} local file(s) not linked to a server template)` : ''));
+    } else if (result.pulled.length > 0 || result.pushed.length > 0) {
+        vscode.window.setStatusBarMessage(`$(sync) Loro templates synced: ${summary}`, 5000);
+    }
+
+    const errors = interactive
+        ? result.errors
+        : result.errors.filter(error => !reportedSyncErrors.has(error));
+    reportedSyncErrors = new Set(result.errors);
+    for (const error of errors) {
+        vscode.window.showErrorMessage(`Failed to sync template ${error}`);
+    }
+
+    const conflicts = interactive
+        ? result.conflicts
+        : result.conflicts.filter(conflict => !reportedConflicts.has(conflict.id));
+    if (conflicts.length === 0) {
+        return;
+    }
+    conflicts.forEach(conflict => reportedConflicts.add(conflict.id));
+
+    const names = conflicts.map(conflict => `"${conflict.name}"`).join(', ');
+    const choice = await vscode.window.showWarningMessage(
+        `Templates changed both locally and on the server: ${names}`,
+        'Keep Local',
+        'Take Server'
+    );
+    if (!choice) {
+        return;
+    }
+
+    const ids = conflicts.map(conflict => conflict.id);
+    ids.forEach(id => reportedConflicts.delete(id));
+    await showSyncResult(await workspaceSync.resolveConflicts(ids, choice === 'Keep Local' ? 'local' : 'server'), interactive);
+}
+
+// Test every template, or those of one category, with each template's own sample data
+async function runBulkTests(category?: string) {
+    const allTemplates = await templateService.getTemplates();
+    const templates = category
+        ? allTemplates.filter(template => (template.category || 'Uncategorized') === category)
+        : allTemplates;
+
+    if (templates.length === 0) {
+        vscode.window.showInformationMessage(category ? `No templates in category "${category}".` : 'No templates to test.');
+        return;
+    }
+
+    const entries = await testRunner.runBulkTests(templates);
+    bulkTestReport.show(category || 'All Templates', entries);
+}
+
+async function exportTemplates(item?: TemplateTreeItem, selection?: TemplateTreeItem[]) {
+    if (!authProvider.isAuthenticated()) {
+        vscode.window.showWarningMessage('Please login to Loro Templates first.');
+        return;
+    }
+
+    const exported = await getTemplatesToExport(item, selection);
+    if (!exported) {
+        return;
+    }
+    if (exported.templates.length === 0) {
+        vscode.window.showInformationMessage('No templates to export.');
+        return;
+    }
+
+    const fileName = `${exported.title.replace(/[\\/:*?"<>|]/g, '_')}${BUNDLE_FILE_EXTENSION}`;
+    const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
+    const uri = await vscode.window.showSaveDialog({
+        defaultUri: workspaceFolder ? vscode.Uri.joinPath(workspaceFolder.uri, fileName) : undefined,
+        filters: { 'Loro Template Bundles': ['json'] },
+        saveLabel: 'Export',
+        title: `Export ${exported.templates.length} template(s)`
+    });
+    if (!uri) {
+        return;
+    }
+
+    try {
+        const bundle = await vscode.window.withProgress({
+            location: vscode.ProgressLocation.Notification,
+            title: `Exporting ${exported.templates.length} template(s)...`,
+            cancellable: true
+        }, (_progress, token) => templateBundles.exportBundle(exported.templates, uri, token));
+
+        if (bundle) {
+            vscode.window.showInformationMessage(`Exported ${bundle.templates.length} template(s) to ${vscode.workspace.asRelativePath(uri)}`);
+        }
     } catch (error) {
-        vscode.window.showErrorMessage(`Failed to save template to server: ${error}`);
+        vscode.window.showErrorMessage(`Failed to export templates: ${error instanceof Error ? error.message : error}`);
+    }
+}
+
+// The selected templates or category in the tree, otherwise whatever the user picks
+async function getTemplatesToExport(
+    item?: TemplateTreeItem,
+    selection?: TemplateTreeItem[]
+): Promise<{ title: string; templates: Template[] } | undefined> {
+    const allTemplates = await templateService.getTemplates();
+    const inCategory = (category: string) => allTemplates.filter(template => (template.category || 'Uncategorized') === category);
+
+    const items = selection && selection.length > 0 ? selection : item ? [item] : [];
+    if (items.length > 0) {
+        const templates = new Map<string, Template>();
+        for (const selected of items) {
+            const selectedTemplates = selected.contextValue === 'category' ? inCategory(selected.id) : selected.template ? [selected.template] : [];
+            selectedTemplates.forEach(template => templates.set(template.id, template));
+        }
+        const title = items.length === 1 ? items[0].label : 'loro-templates';
+        return { title, templates: [...templates.values()] };
+    }
+
+    const categories = [...new Set(allTemplates.map(template => template.category || 'Uncategorized'))].sort();
+    const scope = await vscode.window.showQuickPick([
+        { label: 'All Templates', description: `${allTemplates.length} template(s)`, category: undefined as string | undefined, choose: false },
+        ...categories.map(category => ({ label: `$(folder) ${category}`, description: `${inCategory(category).length} template(s)`, category, choose: false })),
+        { label: '$(checklist) Choose Templates…', description: '', category: undefined, choose: true }
+    ], { placeHolder: 'Templates to export' });
+    if (!scope) {
+        return undefined;
+    }
+
+    if (scope.category) {
+        return { title: scope.category, templates: inCategory(scope.category) };
+    }
+    if (!scope.choose) {
+        return { title: 'loro-templates', templates: allTemplates };
+    }
+
+    const picked = await vscode.window.showQuickPick(
+        allTemplates.map(template => ({ label: template.name, description: template.category || 'Uncategorized', template })),
+        { canPickMany: true, placeHolder: 'Templates to export' }
+    );
+    return picked && { title: 'loro-templates', templates: picked.map(entry => entry.template) };
+}
+
+async function importBundle(uri?: vscode.Uri) {
+    if (!authProvider.isAuthenticated()) {
+        vscode.window.showWarningMessage('Please login to Loro Templates first.');
+        return;
+    }
+
+    const bundleUri = uri || (await vscode.window.showOpenDialog({
+        canSelectMany: false,
+        filters: { 'Loro Template Bundles': ['json'] },
+        openLabel: 'Import'
+    }))?.[0];
+    if (!bundleUri) {
+        return;
+    }
+
+    let entries: ImportPlanEntry[];
+    try {
+        const bundle = await templateBundles.readBundle(bundleUri);
+        entries = await templateBundles.planImport(bundle);
+    } catch (error) {
+        vscode.window.showErrorMessage(`Failed to read template bundle: ${error instanceof Error ? error.message : error}`);
+        return;
+    }
+    if (entries.length === 0) {
+        vscode.window.showInformationMessage('The bundle contains no templates.');
+        return;
+    }
+
+    // Preview: every template with what importing it would do; unchecked ones are left out
+    const profile = profiles.getActiveProfile().name;
+    const clashCount = entries.filter(entry => entry.existing).length;
+    const picked = await vscode.window.showQuickPick(
+        entries.map(entry => ({
+            label: entry.template.name,
+            description: entry.template.category,
+            detail: entry.existing
+                ? `$(warning) A template with this name exists in "${entry.template.category}" and may be overwritten`
+                : '$(add) Will be created',
+            picked: true,
+            entry
+        })),
+        {
+            canPickMany: true,
+            title: `Import ${vscode.workspace.asRelativePath(bundleUri)}`,
+            placeHolder: `${entries.length - clashCount} new, ${clashCount} already in ${profiles.hasProfiles() ? `profile "${profile}"` : 'your account'}. Uncheck templates to leave them out`
+        }
+    );
+    if (!picked || picked.length === 0) {
+        return;
+    }
+
+    let strategy: ClashStrategy = 'overwrite';
+    const clashes = picked.filter(item => item.entry.existing).length;
+    if (clashes > 0) {
+        const choice = await vscode.window.showQuickPick([
+            { label: 'Overwrite Existing', description: 'Replace the existing templates with the bundled ones', strategy: 'overwrite' as ClashStrategy },
+            { label: 'Import as Copies', description: 'Create them under a new name, e.g. "Welcome (2)"', strategy: 'rename' as ClashStrategy },
+            { label: 'Skip Existing', description: 'Only import templates that do not exist yet', strategy: 'skip' as ClashStrategy }
+        ], { placeHolder: `${clashes} template(s) already exist` });
+        if (!choice) {
+            return;
+        }
+        strategy = choice.strategy;
+    }
+
+    const result = await vscode.window.withProgress({
+        location: vscode.ProgressLocation.Notification,
+        title: 'Importing templates'
+    }, progress => templateBundles.importTemplates(picked.map(item => item.entry), strategy, progress));
+
+    templateTreeProvider.refresh();
+    const summary = `${result.created.length} created, ${result.updated.length} overwritten` +
+        (result.skipped.length > 0 ? `, ${result.skipped.length} skipped` : '');
+    if (result.errors.length > 0) {
+        vscode.window.showErrorMessage(`Imported templates with errors (${summary}): ${result.errors.join('; ')}`);
+    } else {
+        vscode.window.showInformationMessage(`Templates imported: ${summary}`);
     }
 }
 
@@ -436,7 +1118,90 @@ async function deleteTemplate(template: any) {
     }
 }
 
-function setupStatusBar(context: vscode.ExtensionContext) {
+async function selectProfile() {
+    if (!profiles.hasProfiles()) {
+        const choice = await vscode.window.showInformationMessage(
+            'Add environment profiles (e.g. local, staging, production) to the loro.profiles setting to switch between servers.',
+            'Open Settings'
+        );
+        if (choice === 'Open Settings') {
+            await vscode.commands.executeCommand('workbench.action.openSettings', 'loro.profiles');
+        }
+        return;
+    }
+
+    const active = profiles.getActiveProfile();
+    const items: (vscode.QuickPickItem & { profile?: EnvironmentProfile })[] = [
+        ...profiles.getProfiles().map(profile => ({
+            label: profile.name === active.name ? `$(check) ${profile.name}` : profile.name,
+            description: profile.endpoint,
+            profile
+        })),
+        { label: '$(gear) Edit Profiles…' }
+    ];
+    const picked = await vscode.window.showQuickPick(items, { placeHolder: `Loro environment (current: ${active.name})` });
+    if (!picked) {
+        return;
+    }
+
+    if (picked.profile) {
+        await profiles.setActiveProfile(picked.profile.name);
+    } else {
+        await vscode.commands.executeCommand('workbench.action.openSettings', 'loro.profiles');
+    }
+}
+
+async function switchProfile(profile: EnvironmentProfile) {
+    workspaceSync.unwatch();
+    templateService.reload();
+    templateFileSystem.reset();
+    revisionTreeProvider.setTemplate(undefined);
+
+    await authProvider.initialize();
+    templateTreeProvider.refresh();
+
+    if (await isAutoSyncEnabled()) {
+        workspaceSync.watch();
+        syncWorkspace(false);
+    }
+
+    vscode.window.setStatusBarMessage(
+        authProvider.isAuthenticated()
+            ? `$(server-environment) Switched to Loro profile "${profile.name}"`
+            : `$(server-environment) Switched to Loro profile "${profile.name}"; log in to use it`,
+        5000
+    );
+}
+
+// Shows the active environment profile and switches profiles on click
+function setupProfileStatusBar(context: vscode.ExtensionContext) {
+    const profileItem = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Right, 101);
+    profileItem.command = 'loro.selectProfile';
+
+    const updateProfileItem = () => {
+        const profile = profiles.getActiveProfile();
+        profileItem.text = `$(server-environment) ${profile.name}`;
+        profileItem.tooltip = `Loro environment: ${profile.endpoint}\nClick to switch profiles`;
+        if (profiles.hasProfiles()) {
+            profileItem.show();
+        } else {
+            profileItem.hide();
+        }
+    };
+
+    updateProfileItem();
+    context.subscriptions.push(
+        profileItem,
+        profiles.onDidChangeProfile(updateProfileItem),
+        vscode.workspace.onDidChangeConfiguration(event => {
+            if (event.affectsConfiguration('loro.profiles')) {
+                updateProfileItem();
+            }
+        })
+    );
+}
+
+function setupStatusBar(context: vscode.ExtensionContext): () => Promise<void> {
     const statusBarItem = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Right, 100);
     statusBarItem.command = 'loro.showUsage';
     
@@ -470,8 +1235,10 @@ function setupStatusBar(context: vscode.ExtensionContext) {
     context.subscriptions.push({
         dispose: () => clearInterval(statusBarInterval)
     });
+    return updateStatusBar;
 }
 
-export function deactivate() {
+export function deactivate(): Thenable<void> | undefined {
     console.log('Loro Templates extension deactivated');
+    return languageClient?.stop();
 }
\ No newline at end of file
@@ -1,5 +1,19 @@
 import * as vscode from 'vscode';
-import { getTemplateInfo, getTestRunner } from '../extension';
+import { getTemplateInfo, getTestRunner, getDiagnosticsService, getSampleDatasetService, getRenderFormatStore } from '../extension';
+import { SampleDatasetFile, getExampleDatasets } from '../core/datasets';
+import { inferSampleData } from '../core/sampleData';
+import { INPUT_FORMATS, OUTPUT_FORMATS, RenderFormats, isInputFormat, isOutputFormat, toRenderInput } from '../core/formats';
+import { DatasetOwner, getFakeDataOptions } from '../testing/sampleDatasets';
+import { showTestResult } from '../webviews/testResult';
+import { Node, walk } from './scriban/ast';
+import { parseDocument } from './scribanDocument';
+
+const BLOCK_LENSES: { [kind: string]: { title: string; construct: string; tooltip: string } } = {
+    for: { title: "$(sync) FOR LOOP", construct: 'for', tooltip: "Click to learn about Scriban for loops" },
+    tablerow: { title: "$(sync) FOR LOOP", construct: 'for', tooltip: "Click to learn about Scriban for loops" },
+    if: { title: "$(question) CONDITIONAL", construct: 'if', tooltip: "Click to learn about Scriban conditionals" },
+    func: { title: "$(symbol-method) FUNCTION", construct: 'function', tooltip: "Click to learn about Scriban functions" }
+};
 
 export class ScribanCodeLensProvider implements vscode.CodeLensProvider {
     
@@ -22,6 +36,14 @@ export class ScribanCodeLensProvider implements vscode.CodeLensProvider {
             tooltip: "Test this template with sample data"
         });
         
+        // Render Locally CodeLens - free preview without an API call
+        const renderLocallyLens = new vscode.CodeLens(range, {
+            title: "⚡ RENDER LOCALLY",
+            command: "loro.renderLocally",
+            arguments: [document.uri],
+            tooltip: "Render with the built-in Scriban interpreter (no API usage)"
+        });
+        
         // Validate Template CodeLens - larger with icon
         const validateLens = new vscode.CodeLens(range, {
             title: "✅ VALIDATE",
@@ -51,7 +73,7 @@ export class ScribanCodeLensProvider implements vscode.CodeLensProvider {
             saveLenses.push(saveLens);
         }
 
-        codeLenses.push(testLens, validateLens, sampleDataLens, ...saveLenses);
+        codeLenses.push(testLens, renderLocallyLens, validateLens, sampleDataLens, ...saveLenses);
 
         // Add CodeLens for specific Scriban blocks
         const blockLenses = this.findScribanBlocks(document);
@@ -62,43 +84,33 @@ export class ScribanCodeLensProvider implements vscode.CodeLensProvider {
 
     private findScribanBlocks(document: vscode.TextDocument): vscode.CodeLens[] {
         const codeLenses: vscode.CodeLens[] = [];
-        const text = document.getText();
-        const lines = text.split('\n');
+        const { template } = parseDocument(document);
 
-        for (let i = 0; i < lines.length; i++) {
-            const line = lines[i];
-            const trimmedLine = line.trim();
-
-            // Look for specific Scriban constructs
-            if (trimmedLine.includes('{% for ') || trimmedLine.includes('{{for ')) {
-                const range = new vscode.Range(i, 0, i, line.length);
-                codeLenses.push(new vscode.CodeLens(range, {
-                    title: "$(sync) FOR LOOP",
-                    command: "loro.explainScribanConstruct",
-                    arguments: ["for", range],
-                    tooltip: "Click to learn about Scriban for loops"
-                }));
+        // Block constructs get a lens on the line of their opening keyword
+        const elseIfBranches = new Set<Node>();
+        walk(template, (node) => {
+            if (node.kind === 'if' && node.elseIf) {
+                elseIfBranches.add(node.elseIf);
             }
 
-            if (trimmedLine.includes('{% if ') || trimmedLine.includes('{{if ')) {
-                const range = new vscode.Range(i, 0, i, line.length);
-                codeLenses.push(new vscode.CodeLens(range, {
-                    title: "$(question) CONDITIONAL",
-                    command: "loro.explainScribanConstruct", 
-                    arguments: ["if", range],
-                    tooltip: "Click to learn about Scriban conditionals"
-                }));
+            const lens = BLOCK_LENSES[node.kind];
+            if (!lens || elseIfBranches.has(node)) {
+                return;
             }
 
-            if (trimmedLine.includes('{% function ')) {
-                const range = new vscode.Range(i, 0, i, line.length);
-                codeLenses.push(new vscode.CodeLens(range, {
-                    title: "$(symbol-method) FUNCTION",
-                    command: "loro.explainScribanConstruct",
-                    arguments: ["function", range],
-                    tooltip: "Click to learn about Scriban functions"
-                }));
-            }
+            const line = node.range.start.line;
+            const range = new vscode.Range(line, 0, line, document.lineAt(line).text.length);
+            codeLenses.push(new vscode.CodeLens(range, {
+                title: lens.title,
+                command: "loro.explainScribanConstruct",
+                arguments: [lens.construct, range],
+                tooltip: lens.tooltip
+            }));
+        });
+
+        const lines = document.getText().split('\n');
+        for (let i = 0; i < lines.length; i++) {
+            const line = lines[i];
 
             // Look for complex expressions that might need explanation
             if (this.isComplexExpression(line)) {
@@ -148,6 +160,20 @@ export function registerCodeLensCommands(context: vscode.ExtensionContext) {
         }
     );
 
+    // Command to render the current editor content with the local interpreter
+    const renderLocallyCommand = vscode.commands.registerCommand(
+        'loro.renderLocally',
+        async (uri?: vscode.Uri) => {
+            const target = uri || vscode.window.activeTextEditor?.document.uri;
+            if (!target) {
+                vscode.window.showWarningMessage('Open a Scriban template to render it locally.');
+                return;
+            }
+            const document = await vscode.workspace.openTextDocument(target);
+            await renderTemplateLocally(document);
+        }
+    );
+
     // Command to validate template syntax
     const validateTemplateCommand = vscode.commands.registerCommand(
         'loro.validateTemplate',
@@ -193,6 +219,7 @@ export function registerCodeLensCommands(context: vscode.ExtensionContext) {
 
     context.subscriptions.push(
         testCurrentTemplateCommand,
+        renderLocallyCommand,
         validateTemplateCommand, 
         generateSampleDataCommand,
         explainConstructCommand,
@@ -202,27 +229,14 @@ export function registerCodeLensCommands(context: vscode.ExtensionContext) {
 }
 
 async function testTemplateFromEditor(document: vscode.TextDocument) {
-    // Check if this is a template document
-    const templateInfo = getTemplateInfo(document.uri.toString());
-    
-    if (!templateInfo) {
-        vscode.window.showWarningMessage('This document is not associated with a saved template. Please save it first.');
-        return;
-    }
-    
-    // templateInfo is the full template object stored in openTemplate
-    // It should have all fields including id, name, sampleData
-    const template = templateInfo;
-    const templateId = template.id || template.templateId;
-    const templateName = template.name || template.templateName;
-    
-    if (!templateId) {
-        vscode.window.showErrorMessage('Template ID is missing. Please reopen the template from the tree view.');
-        return;
-    }
+    // Templates opened from the tree carry their server metadata; any other Scriban file
+    // is rendered as ad-hoc content
+    const template = getTemplateInfo(document.uri.toString());
+    const templateId = template?.id;
+    const templateName = template?.name || document.uri.path.split('/').pop() || 'Untitled';
 
     // Use the sampleData from the stored template
-    let defaultSampleData = template.sampleData;
+    let defaultSampleData = template?.sampleData;
 
     // If no sample data in stored template, try to fetch fresh from server
     if ((!defaultSampleData || defaultSampleData === '{}' || defaultSampleData === '') && templateId) {
@@ -243,107 +257,85 @@ async function testTemplateFromEditor(document: vscode.TextDocument) {
         }
     }
 
-    // Final fallback to empty JSON object if still no data
-    if (!defaultSampleData || defaultSampleData === '') {
-        defaultSampleData = '{}';
+    // Final fallback to data inferred from how the template uses it
+    if (!defaultSampleData || defaultSampleData === '' || defaultSampleData === '{}') {
+        defaultSampleData = JSON.stringify(inferSampleData(document.getText(), getFakeDataOptions()));
     }
 
     // Create a larger input window for sample data
-    const sampleDataInput = await showSampleDataInput(templateName, defaultSampleData);
+    const sampleDataInput = await showSampleDataInput(
+        { name: templateName, category: template?.category },
+        defaultSampleData,
+        templateId || document.uri.toString()
+    );
     if (!sampleDataInput) return;
+    const { data: sampleData, formats } = sampleDataInput;
 
-    try {
-        const sampleData = JSON.parse(sampleDataInput);
-        
-        // Create a template object for testing with current document content
-        const testTemplate = {
-            id: templateId,
-            name: templateName,
-            content: document.getText(),
-            category: template.category || 'Test',
-            description: template.description || `Testing template ${templateName}`,
-            isActive: template.isActive !== undefined ? template.isActive : true,
-            createdAt: template.createdAt || new Date().toISOString(),
-            updatedAt: template.updatedAt || new Date().toISOString(),
-            userId: template.userId,
-            schema: template.schema,
-            sampleData: template.sampleData
-        };
+    // The saved server copy only matches the editor when there are no pending edits
+    const renderSaved = !!template && !!templateId && !document.isDirty;
 
-        // Show progress and test
-        await vscode.window.withProgress({
-            location: vscode.ProgressLocation.Notification,
-            title: `Testing template "${templateName}"...`,
-            cancellable: false
-        }, async () => {
-            try {
-                console.log('Starting template test...');
-                const { getTestRunner } = require('../extension');
-                const testRunner = getTestRunner();
-                
-                if (!testRunner) {
-                    throw new Error('Test runner is not initialized');
-                }
-                
-                console.log('Got test runner, testing template:', testTemplate);
-                console.log('Sample data:', sampleData);
-                
-                const result = await testRunner.testTemplate(testTemplate, sampleData);
-                console.log('Test completed, result:', result);
-                
-                if (!result) {
-                    throw new Error('No result returned from test');
-                }
-                
-                await showTestResult(testTemplate, result);
-                console.log('Test result window should be visible');
-            } catch (error) {
-                console.error('Test failed with error:', error);
-                vscode.window.showErrorMessage(`Test failed: ${error}`);
-                
-                // Show a basic error result window
-                const errorResult = {
-                    success: false,
-                    output: 'Test failed to execute',
-                    duration: 0,
-                    errors: [error?.toString() || 'Unknown error']
-                };
-                await showTestResult(testTemplate, errorResult);
+    // Show progress and test
+    await vscode.window.withProgress({
+        location: vscode.ProgressLocation.Notification,
+        title: `Testing template "${templateName}"...`,
+        cancellable: false
+    }, async () => {
+        try {
+            const testRunner = getTestRunner();
+            if (!testRunner) {
+                throw new Error('Test runner is not initialized');
             }
-        });
-        
-    } catch (error) {
-        vscode.window.showErrorMessage('Invalid JSON in sample data');
-    }
-}
 
-async function validateTemplateFromEditor(document: vscode.TextDocument) {
-    const content = document.getText();
-    
-    // Basic validation logic (you can expand this)
-    const diagnostics: vscode.Diagnostic[] = [];
-    const lines = content.split('\n');
-    
-    for (let i = 0; i < lines.length; i++) {
-        const line = lines[i];
-        
-        // Check for unmatched braces
-        const openBraces = (line.match(/{{/g) || []).length;
-        const closeBraces = (line.match(/}}/g) || []).length;
-        
-        if (openBraces !== closeBraces) {
-            const diagnostic = new vscode.Diagnostic(
-                new vscode.Range(i, 0, i, line.length),
-                'Unmatched braces {{ }}',
-                vscode.DiagnosticSeverity.Error
-            );
-            diagnostics.push(diagnostic);
+            console.log('Sample data:', sampleData);
+            const result = renderSaved
+                ? await testRunner.testTemplate(template, sampleData, formats)
+                : await testRunner.testTemplateFromEditor(document, sampleData, template?.schema, formats);
+            console.log('Test completed, result:', result);
+
+            if (!result) {
+                throw new Error('No result returned from test');
+            }
+
+            showTestResult({ name: templateName }, result, vscode.ViewColumn.Two);
+        } catch (error) {
+            console.error('Test failed with error:', error);
+            vscode.window.showErrorMessage(`Test failed: ${error}`);
+
+            // Show a basic error result window
+            const errorResult = {
+                success: false,
+                output: 'Test failed to execute',
+                duration: 0,
+                errors: [error?.toString() || 'Unknown error']
+            };
+            showTestResult({ name: templateName }, errorResult, vscode.ViewColumn.Two);
         }
-    }
+    });
+}
 
-    // Show diagnostics
-    const collection = vscode.languages.createDiagnosticCollection('scriban');
-    collection.set(document.uri, diagnostics);
+async function renderTemplateLocally(document: vscode.TextDocument) {
+    const templateInfo = getTemplateInfo(document.uri.toString());
+    const templateName = templateInfo?.name || document.uri.path.split('/').pop() || 'Untitled';
+
+    const sampleDataInput = await showSampleDataInput(
+        { name: templateName, category: templateInfo?.category },
+        templateInfo?.sampleData || JSON.stringify(inferSampleData(document.getText(), getFakeDataOptions())),
+        templateInfo?.id || document.uri.toString()
+    );
+    if (!sampleDataInput) return;
+
+    const result = await getTestRunner().renderLocally(
+        document.getText(),
+        sampleDataInput.data,
+        templateInfo?.schema,
+        sampleDataInput.formats.input
+    );
+    showTestResult({ name: `${templateName} (local)` }, result, vscode.ViewColumn.Two);
+}
+
+async function validateTemplateFromEditor(document: vscode.TextDocument) {
+    // Diagnostics are kept up to date as you type; this forces an immediate pass
+    const diagnostics = getDiagnosticsService().validate(document);
 
     if (diagnostics.length === 0) {
         vscode.window.showInformationMessage('✅ Template syntax is valid');
@@ -353,36 +345,8 @@ async function validateTemplateFromEditor(document: vscode.TextDocument) {
 }
 
 async function generateSampleDataForTemplate(document: vscode.TextDocument) {
-    const content = document.getText();
-    
-    // Extract variables from template
-    const variables = new Set<string>();
-    const variableMatches = content.match(/\{\{\s*([^}|]+)(\|[^}]*)?\s*\}\}/g);
-    
-    if (variableMatches) {
-        for (const match of variableMatches) {
-            const variable = match.replace(/\{\{|\}\}/g, '').split('|')[0].trim();
-            variables.add(variable);
-        }
-    }
-
-    // Generate sample data structure
-    const sampleData: any = {};
-    
-    for (const variable of variables) {
-        const parts = variable.split('.');
-        let current = sampleData;
-        
-        for (let i = 0; i < parts.length - 1; i++) {
-            if (!current[parts[i]]) {
-                current[parts[i]] = {};
-            }
-            current = current[parts[i]];
-        }
-        
-        const lastPart = parts[parts.length - 1];
-        current[lastPart] = getSampleValueForProperty(lastPart);
-    }
+    // Loops become arrays of objects, condition-only values booleans, filters imply types
+    const sampleData = inferSampleData(document.getText(), getFakeDataOptions());
 
     // Show generated sample data
     const jsonString = JSON.stringify(sampleData, null, 2);
@@ -396,24 +360,11 @@ async function generateSampleDataForTemplate(document: vscode.TextDocument) {
     vscode.window.showInformationMessage('Generated sample data based on template variables');
 }
 
-function getSampleValueForProperty(propertyName: string): any {
-    const lowerName = propertyName.toLowerCase();
-    
-    if (lowerName.includes('name')) return 'John Doe';
-    if (lowerName.includes('email')) return 'john@example.com';
-    if (lowerName.includes('date')) return new Date().toISOString();
-    if (lowerName.includes('price') || lowerName.includes('amount')) return 99.99;
-    if (lowerName.includes('id')) return '12345';
-    if (lowerName.includes('count') || lowerName.includes('number')) return 42;
-    
-    return 'Sample Value';
-}
-
 async function showScribanConstructExplanation(constructType: string, range: vscode.Range) {
     const explanations: { [key: string]: string } = {
-        'for': 'Scriban for loop: Iterates over collections. Syntax: {% for item in collection %} ... {% endfor %}',
-        'if': 'Scriban conditional: Controls template flow. Syntax: {% if condition %} ... {% else %} ... {% endif %}',
-        'function': 'Scriban function: Defines reusable template functions. Syntax: {% function name(params) %} ... {% endfunction %}'
+        'for': 'Scriban for loop: Iterates over collections. Syntax: {{ for item in collection }} ... {{ end }}',
+        'if': 'Scriban conditional: Controls template flow. Syntax: {{ if condition }} ... {{ else }} ... {{ end }}',
+        'function': 'Scriban function: Defines reusable template functions. Syntax: {{ func name(params) }} ... {{ end }}'
     };
 
     const explanation = explanations[constructType] || 'Scriban language construct';
@@ -426,133 +377,6 @@ async function showExpressionExplanation(expression: string, range: vscode.Range
     );
 }
 
-async function showTestResult(template: any, result: any) {
-    console.log('Showing test result for template:', template.name);
-    console.log('Result object:', result);
-    
-    // Create the panel in column 2 or 3 to avoid conflicts
-    const targetColumn = vscode.ViewColumn.Two;
-    
-    const panel = vscode.window.createWebviewPanel(
-        'loroTestResult',
-        `Test Result: ${template.name}`,
-        targetColumn,
-        { 
-            enableScripts: true,
-            retainContextWhenHidden: true
-        }
-    );
-
-    const html = getTestResultHtml(template, result);
-    console.log('HTML length:', html.length);
-    panel.webview.html = html;
-    
-    // Force the panel to be visible and focused
-    panel.reveal(targetColumn, false);
-}
-
-function getTestResultHtml(template: any, result: any): string {
-    // Ensure we have a result object with default values
-    const safeResult = {
-        success: result?.success ?? false,
-        output: result?.output ?? 'No output received',
-        duration: result?.duration ?? 0,
-        errors: result?.errors ?? [],
-        usageConsumed: result?.usageConsumed ?? 0
-    };
-    
-    const statusColor = safeResult.success ? '#4CAF50' : '#f44336';
-    
-    console.log('Rendering test result HTML with:', { template, safeResult });
-    
-    return `
-    <!DOCTYPE html>
-    <html lang="en">
-    <head>
-        <meta charset="UTF-8">
-        <meta name="viewport" content="width=device-width, initial-scale=1.0">
-        <title>Test Result</title>
-        <style>
-            body { 
-                font-family: var(--vscode-font-family); 
-                color: var(--vscode-foreground);
-                background: var(--vscode-editor-background);
-                padding: 20px;
-            }
-            .status { 
-                padding: 10px; 
-                border-radius: 4px; 
-                margin-bottom: 20px;
-                background: ${statusColor};
-                color: white;
-                font-weight: bold;
-            }
-            .section { 
-                margin-bottom: 20px; 
-                border: 1px solid var(--vscode-panel-border);
-                border-radius: 4px;
-            }
-            .section-header {
-                background: var(--vscode-panel-background);
-                padding: 10px;
-                font-weight: bold;
-                border-bottom: 1px solid var(--vscode-panel-border);
-            }
-            .section-content {
-                padding: 15px;
-            }
-            .error {
-                color: var(--vscode-errorForeground);
-                background: var(--vscode-inputValidation-errorBackground);
-                padding: 8px;
-                border-radius: 4px;
-                margin: 5px 0;
-            }
-            pre {
-                background: var(--vscode-textCodeBlock-background);
-                padding: 10px;
-                border-radius: 4px;
-                overflow-x: auto;
-                white-space: pre-wrap;
-            }
-            .meta {
-                color: var(--vscode-descriptionForeground);
-                font-size: 0.9em;
-                margin-bottom: 20px;
-            }
-        </style>
-    </head>
-    <body>
-        <h1>Test Result: ${template?.name || 'Unknown Template'}</h1>
-        
-        <div class="status">
-            ${safeResult.success ? '✅ Test Passed' : '❌ Test Failed'}
-        </div>
-        
-        <div class="meta">
-            Duration: ${safeResult.duration}ms
-            ${safeResult.usageConsumed ? ` | API Usage: ${safeResult.usageConsumed} call(s)` : ''}
-        </div>
-
-        <div class="section">
-            <div class="section-header">📄 Output</div>
-            <div class="section-content">
-                <pre>${safeResult.output}</pre>
-            </div>
-        </div>
-
-        ${safeResult.errors && safeResult.errors.length > 0 ? `
-        <div class="section">
-            <div class="section-header">⚠️ Errors</div>
-            <div class="section-content">
-                ${safeResult.errors.map((error: any) => `<div class="error">${error}</div>`).join('<br>')}
-            </div>
-        </div>
-        ` : ''}
-    </body>
-    </html>`;
-}
-
 async function saveTemplateFromEditor(document: vscode.TextDocument) {
     const templateInfo = getTemplateInfo(document.uri.toString());
     
@@ -560,52 +384,47 @@ async function saveTemplateFromEditor(document: vscode.TextDocument) {
         vscode.window.showWarningMessage('This document is not associated with a saved template.');
         return;
     }
-    
-    // templateInfo is now the full template object, not just {templateId, templateName}
-    const template = templateInfo;
-    const templateId = template.id || template.templateId;
-    const templateName = template.name || template.templateName;
-    
-    if (!templateId) {
-        vscode.window.showErrorMessage('Template ID is missing. Please reopen the template from the tree view.');
+
+    if (!document.isDirty) {
+        vscode.window.showInformationMessage(`Template "${templateInfo.name}" has no unsaved changes`);
         return;
     }
-    
-    try {
-        const { getTemplateService } = require('../extension');
-        const templateService = getTemplateService();
-        
-        // Show progress while saving
-        await vscode.window.withProgress({
-            location: vscode.ProgressLocation.Notification,
-            title: `Saving template "${templateName}"...`,
-            cancellable: false
-        }, async () => {
-            // Call the backend API to update the template in Azure SQL with ALL required fields
-            const updatedTemplate = await templateService.updateTemplate(templateId, {
-                name: template.name,
-                category: template.category,
-                description: template.description,
-                content: document.getText(),
-                isActive: template.isActive,
-                sampleData: template.sampleData,
-                schema: template.schema
-            });
 
-            if (updatedTemplate) {
-                vscode.window.showInformationMessage(`Template "${templateName}" saved to server successfully`);
-            }
-        });
-    } catch (error) {
-        vscode.window.showErrorMessage(`Failed to save template to server: ${error}`);
+    // Template documents live on the loro:// file system, so a normal save writes to the server
+    const saved = await document.save();
+    if (!saved) {
+        vscode.window.showErrorMessage(`Failed to save template "${templateInfo.name}" to server`);
     }
 }
 
-async function showSampleDataInput(templateName: string, defaultData: string): Promise<string | undefined> {
+export interface SampleDataSelection {
+    // What to render with: a value for JSON input, the text for other input formats
+    data: any;
+    // Name of the saved dataset the data came from, if any
+    dataset?: string;
+    formats: RenderFormats;
+}
+
+// Entries of the dataset picker as the webview sees them: data as formatted JSON text
+interface DatasetPickerState {
+    datasets: { [name: string]: string };
+    default?: string;
+    sampleData: string;
+    examples: { [name: string]: string };
+    // False when there is no workspace folder or the dataset file could not be read
+    canSave: boolean;
+    location?: string;
+    formats: RenderFormats;
+    inputFormats: { [format: string]: string };
+    outputFormats: { [format: string]: string };
+}
+
+// `formatKey` identifies the template whose input and output formats are remembered
+export async function showSampleDataInput(owner: DatasetOwner, defaultData: string, formatKey?: string): Promise<SampleDataSelection | undefined> {
     // Create a webview panel for larger JSON input
     const panel = vscode.window.createWebviewPanel(
         'sampleDataInput',
-        `Sample Data for ${templateName}`,
+        `Sample Data for ${owner.name}`,
         vscode.ViewColumn.Beside,
         {
             enableScripts: true,
@@ -613,26 +432,117 @@ async function showSampleDataInput(templateName: string, defaultData: string): P
         }
     );
 
-    // Format the default data nicely
-    let formattedDefaultData;
+    const datasetService = getSampleDatasetService();
+    let datasetFile: SampleDatasetFile = { datasets: {} };
+    let canSave = !!datasetService.getDatasetUri(owner);
     try {
-        const parsed = JSON.parse(defaultData);
-        formattedDefaultData = JSON.stringify(parsed, null, 2);
-    } catch {
-        formattedDefaultData = defaultData;
+        datasetFile = await datasetService.load(owner);
+    } catch (error) {
+        // Don't offer to overwrite a file the user has to fix first
+        canSave = false;
+        vscode.window.showWarningMessage(`Sample datasets could not be loaded: ${error instanceof Error ? error.message : error}`);
     }
 
-    panel.webview.html = getSampleDataInputHtml(templateName, formattedDefaultData);
+    const formatStore = getRenderFormatStore();
+    const getState = (): DatasetPickerState => {
+        const datasetUri = datasetService.getDatasetUri(owner);
+        return {
+            datasets: mapValues(datasetFile.datasets, formatJson),
+            default: datasetFile.default,
+            sampleData: formatJson(defaultData),
+            examples: mapValues(getExampleDatasets(), formatJson),
+            canSave,
+            location: datasetUri && vscode.workspace.asRelativePath(datasetUri),
+            formats: formatStore.get(formatKey),
+            inputFormats: mapValues(INPUT_FORMATS, format => format.label),
+            outputFormats: mapValues(OUTPUT_FORMATS, format => format.label)
+        };
+    };
+
+    // Datasets keep JSON as values and other formats as their text
+    const toInput = (text: string, format: any): any => {
+        try {
+            return toRenderInput(text, isInputFormat(format) ? format : 'json');
+        } catch (error) {
+            panel.webview.postMessage({ command: 'error', message: error instanceof SyntaxError ? `Invalid JSON: ${error.message}` : String(error instanceof Error ? error.message : error) });
+            return undefined;
+        }
+    };
+
+    const saveDataset = async (name: string, data: string, format: any, makeDefault = false) => {
+        const parsed = toInput(data, format);
+        if (parsed === undefined) {
+            return;
+        }
+
+        const updated: SampleDatasetFile = {
+            default: makeDefault ? name : datasetFile.default,
+            datasets: { ...datasetFile.datasets, [name]: parsed }
+        };
+        try {
+            await datasetService.save(owner, updated);
+            datasetFile = updated;
+            panel.webview.postMessage({ command: 'datasets', state: getState(), selected: name });
+        } catch (error) {
+            panel.webview.postMessage({ command: 'error', message: `Failed to save dataset: ${error instanceof Error ? error.message : error}` });
+        }
+    };
+
+    const askDatasetName = (value: string) => vscode.window.showInputBox({
+        prompt: `Name of the sample dataset for "${owner.name}"`,
+        value,
+        validateInput: name => {
+            if (!name.trim()) {
+                return 'Enter a dataset name';
+            }
+            return Object.prototype.hasOwnProperty.call(datasetFile.datasets, name.trim()) ? `A dataset named "${name.trim()}" already exists` : undefined;
+        }
+    });
+
+    panel.webview.html = getSampleDataInputHtml(owner.name, getState());
 
     return new Promise((resolve) => {
-        panel.webview.onDidReceiveMessage((message) => {
-            if (message.command === 'submit') {
-                // Don't dispose immediately - let the test result window appear first
-                setTimeout(() => panel.dispose(), 100);
-                resolve(message.data);
-            } else if (message.command === 'cancel') {
-                panel.dispose();
-                resolve(undefined);
+        panel.webview.onDidReceiveMessage(async (message) => {
+            switch (message.command) {
+                case 'submit': {
+                    const formats: RenderFormats = {
+                        input: isInputFormat(message.inputFormat) ? message.inputFormat : 'json',
+                        output: isOutputFormat(message.outputFormat) ? message.outputFormat : 'json'
+                    };
+                    const data = toInput(message.data, formats.input);
+                    if (data === undefined) {
+                        break;
+                    }
+                    if (formatKey) {
+                        await formatStore.set(formatKey, formats);
+                    }
+                    // Don't dispose immediately - let the test result window appear first
+                    setTimeout(() => panel.dispose(), 100);
+                    resolve({ data, dataset: message.dataset, formats });
+                    break;
+                }
+                case 'cancel':
+                    panel.dispose();
+                    resolve(undefined);
+                    break;
+                case 'save': {
+                    // Saving sample data or an example creates a new dataset from it
+                    const name = message.name ?? await askDatasetName(message.suggestedName || '');
+                    if (name) {
+                        await saveDataset(name.trim(), message.data, message.inputFormat);
+                    }
+                    break;
+                }
+                case 'duplicate': {
+                    const name = await askDatasetName(`${message.from} copy`);
+                    if (name) {
+                        await saveDataset(name.trim(), message.data, message.inputFormat);
+                    }
+                    break;
+                }
+                case 'setDefault':
+                    await saveDataset(message.name, message.data, message.inputFormat, true);
+                    break;
             }
         });
 
@@ -643,7 +553,37 @@ async function showSampleDataInput(templateName: string, defaultData: string): P
     });
 }
 
-function getSampleDataInputHtml(templateName: string, defaultData: string): string {
+function formatJson(value: any): string {
+    if (typeof value !== 'string') {
+        return JSON.stringify(value, null, 2);
+    }
+    try {
+        return JSON.stringify(JSON.parse(value), null, 2);
+    } catch {
+        return value;
+    }
+}
+
+function mapValues(values: { [name: string]: any }, map: (value: any) => string): { [name: string]: string } {
+    const result: { [name: string]: string } = {};
+    for (const [name, value] of Object.entries(values)) {
+        result[name] = map(value);
+    }
+    return result;
+}
+
+function escapeHtml(text: string): string {
+    return text
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&#39;');
+}
+
+function getSampleDataInputHtml(templateName: string, state: DatasetPickerState): string {
+    // Embedded in a <script> block, so `<` must not close it
+    const initialState = JSON.stringify(state).replace(/</g, '\\u003c');
     return `
     <!DOCTYPE html>
     <html lang="en">
@@ -672,6 +612,37 @@ function getSampleDataInputHtml(templateName: string, defaultData: string): stri
                 color: var(--vscode-descriptionForeground);
                 font-size: 0.9em;
             }
+            .dataset-section {
+                display: flex;
+                gap: 8px;
+                align-items: center;
+            }
+            .dataset-section label {
+                font-weight: bold;
+            }
+            select {
+                flex: 1;
+                background: var(--vscode-dropdown-background);
+                color: var(--vscode-dropdown-foreground);
+                border: 1px solid var(--vscode-dropdown-border);
+                border-radius: 3px;
+                padding: 6px;
+                font-family: var(--vscode-font-family);
+            }
+            .format-section {
+                display: flex;
+                gap: 8px;
+                align-items: center;
+                margin-bottom: 20px;
+            }
+            .format-section label {
+                font-weight: bold;
+            }
+            .dataset-location {
+                margin: 6px 0 20px 0;
+                color: var(--vscode-descriptionForeground);
+                font-size: 0.85em;
+            }
             .input-section {
                 margin-bottom: 20px;
             }
@@ -717,6 +688,10 @@ function getSampleDataInputHtml(templateName: string, defaultData: string): stri
             button:hover {
                 background: var(--vscode-button-hoverBackground);
             }
+            button:disabled {
+                opacity: 0.5;
+                cursor: default;
+            }
             button.secondary {
                 background: var(--vscode-button-secondaryBackground);
                 color: var(--vscode-button-secondaryForeground);
@@ -746,13 +721,29 @@ function getSampleDataInputHtml(templateName: string, defaultData: string): stri
     </head>
     <body>
         <div class="header">
-            <h2>Test Data for Template: ${templateName}</h2>
-            <p>Enter JSON data to test your template. The data will be available as variables in your template.</p>
+            <h2>Test Data for Template: ${escapeHtml(templateName)}</h2>
+            <p>Enter data to test your template. The data will be available as variables in your template.</p>
+        </div>
+
+        <div class="dataset-section">
+            <label for="dataset">Dataset:</label>
+            <select id="dataset"></select>
+            <button class="secondary" id="saveButton" onclick="saveDataset()">Save</button>
+            <button class="secondary" id="duplicateButton" onclick="duplicateDataset()">Duplicate…</button>
+            <button class="secondary" id="defaultButton" onclick="setDefault()">Set as Default</button>
+        </div>
+        <div class="dataset-location" id="datasetLocation"></div>
+
+        <div class="format-section">
+            <label for="inputFormat">Input:</label>
+            <select id="inputFormat"></select>
+            <label for="outputFormat">Output:</label>
+            <select id="outputFormat"></select>
         </div>
 
         <div class="input-section">
-            <label for="sampleData">Sample JSON Data:</label>
-            <textarea id="sampleData" placeholder="Enter JSON data...">${defaultData}</textarea>
+            <label for="sampleData">Sample Data:</label>
+            <textarea id="sampleData" placeholder="Enter sample data..."></textarea>
             <div class="validation-error" id="validationError"></div>
         </div>
 
@@ -774,55 +765,221 @@ function getSampleDataInputHtml(templateName: string, defaultData: string): stri
 
         <div class="button-container">
             <button class="secondary" onclick="cancel()">Cancel</button>
-            <button onclick="formatJson()">Format JSON</button>
+            <button id="formatButton" onclick="formatJson()">Format JSON</button>
             <button onclick="runTest()">▶️ Run Test</button>
         </div>
 
         <script>
             const vscode = acquireVsCodeApi();
-            
+            let state = ${initialState};
+            // Unsaved text per picker entry, so switching datasets keeps edits
+            const edits = {};
+            let current;
+
+            // Entries are 'dataset:<name>', 'sample' (the template's own sample data) or 'example:<name>'
+            function getName(key) {
+                return key.substring(key.indexOf(':') + 1);
+            }
+
+            function getSavedText(key) {
+                if (key.startsWith('dataset:')) {
+                    return state.datasets[getName(key)];
+                }
+                return key.startsWith('example:') ? state.examples[getName(key)] : state.sampleData;
+            }
+
+            function getText(key) {
+                return key in edits ? edits[key] : getSavedText(key);
+            }
+
+            function getLabel(key) {
+                let label = key === 'sample' ? 'Template sample data' : getName(key);
+                if (key === 'dataset:' + state.default) {
+                    label += ' ★';
+                }
+                return key in edits ? label + ' (modified)' : label;
+            }
+
+            function addOptions(select, group, keys) {
+                if (keys.length === 0) {
+                    return;
+                }
+                const optgroup = document.createElement('optgroup');
+                optgroup.label = group;
+                for (const key of keys) {
+                    const option = document.createElement('option');
+                    option.value = key;
+                    option.textContent = getLabel(key);
+                    optgroup.appendChild(option);
+                }
+                select.appendChild(optgroup);
+            }
+
+            function renderOptions() {
+                const select = document.getElementById('dataset');
+                select.innerHTML = '';
+                addOptions(select, 'Saved datasets', Object.keys(state.datasets).map(name => 'dataset:' + name));
+                addOptions(select, 'Template', ['sample']);
+                addOptions(select, 'Examples', Object.keys(state.examples).map(name => 'example:' + name));
+                select.value = current;
+            }
+
+            function selectEntry(key) {
+                current = key;
+                renderOptions();
+                document.getElementById('sampleData').value = getText(key);
+                document.getElementById('validationError').style.display = 'none';
+                updateButtons();
+            }
+
+            function updateButtons() {
+                const isDataset = current.startsWith('dataset:');
+                const unavailable = state.canSave ? '' : 'Open a workspace folder (or fix the dataset file) to save datasets';
+                for (const id of ['saveButton', 'duplicateButton', 'defaultButton']) {
+                    const button = document.getElementById(id);
+                    button.disabled = !state.canSave;
+                    button.title = unavailable;
+                }
+                document.getElementById('saveButton').textContent = isDataset ? 'Save' : 'Save as Dataset…';
+                document.getElementById('defaultButton').disabled = !state.canSave || !isDataset || current === 'dataset:' + state.default;
+                document.getElementById('datasetLocation').textContent = state.location ? 'Datasets are stored in ' + state.location : '';
+            }
+
+            function showError(message) {
+                const errorDiv = document.getElementById('validationError');
+                errorDiv.textContent = message;
+                errorDiv.style.display = 'block';
+            }
+
+            function getInputFormat() {
+                return document.getElementById('inputFormat').value;
+            }
+
+            // Other input formats are checked by the extension when the data is used
+            function getValidData() {
+                const textarea = document.getElementById('sampleData');
+                if (getInputFormat() !== 'json') {
+                    return textarea.value;
+                }
+                try {
+                    JSON.parse(textarea.value);
+                    return textarea.value;
+                } catch (error) {
+                    showError('Invalid JSON: ' + error.message);
+                    return undefined;
+                }
+            }
+
+            function saveDataset() {
+                const data = getValidData();
+                if (data === undefined) {
+                    return;
+                }
+                if (current.startsWith('dataset:')) {
+                    vscode.postMessage({ command: 'save', name: getName(current), data, inputFormat: getInputFormat() });
+                } else {
+                    vscode.postMessage({ command: 'save', suggestedName: current === 'sample' ? '' : getName(current), data, inputFormat: getInputFormat() });
+                }
+            }
+
+            function duplicateDataset() {
+                const data = getValidData();
+                if (data !== undefined) {
+                    vscode.postMessage({ command: 'duplicate', from: current === 'sample' ? 'Sample data' : getName(current), data, inputFormat: getInputFormat() });
+                }
+            }
+
+            function setDefault() {
+                // Uses the saved data unless the dataset was edited, then the edits are saved with it
+                vscode.postMessage({ command: 'setDefault', name: getName(current), data: getText(current), inputFormat: getInputFormat() });
+            }
+
             function cancel() {
                 vscode.postMessage({ command: 'cancel' });
             }
-            
+
             function formatJson() {
                 const textarea = document.getElementById('sampleData');
                 const errorDiv = document.getElementById('validationError');
-                
+
                 try {
                     const parsed = JSON.parse(textarea.value);
                     textarea.value = JSON.stringify(parsed, null, 2);
                     errorDiv.style.display = 'none';
+                    recordEdit();
                 } catch (error) {
-                    errorDiv.textContent = 'Invalid JSON: ' + error.message;
-                    errorDiv.style.display = 'block';
+                    showError('Invalid JSON: ' + error.message);
                 }
             }
-            
+
             function runTest() {
-                const textarea = document.getElementById('sampleData');
-                const errorDiv = document.getElementById('validationError');
-                
-                try {
-                    // Validate JSON
-                    JSON.parse(textarea.value);
-                    vscode.postMessage({ 
-                        command: 'submit', 
-                        data: textarea.value 
+                const data = getValidData();
+                if (data !== undefined) {
+                    vscode.postMessage({
+                        command: 'submit',
+                        data,
+                        dataset: current.startsWith('dataset:') ? getName(current) : undefined,
+                        inputFormat: getInputFormat(),
+                        outputFormat: document.getElementById('outputFormat').value
                     });
-                } catch (error) {
-                    errorDiv.textContent = 'Invalid JSON: ' + error.message;
-                    errorDiv.style.display = 'block';
                 }
             }
-            
-            // Auto-format on load if possible
-            window.addEventListener('load', () => {
-                const textarea = document.getElementById('sampleData');
-                if (textarea.value.trim()) {
-                    formatJson();
+
+            function recordEdit() {
+                const text = document.getElementById('sampleData').value;
+                const wasEdited = current in edits;
+                if (text === getSavedText(current)) {
+                    delete edits[current];
+                } else {
+                    edits[current] = text;
+                }
+                if (wasEdited !== (current in edits)) {
+                    renderOptions();
+                }
+            }
+
+            function renderFormatOptions(id, labels, selected) {
+                const select = document.getElementById(id);
+                for (const [format, label] of Object.entries(labels)) {
+                    const option = document.createElement('option');
+                    option.value = format;
+                    option.textContent = label;
+                    select.appendChild(option);
+                }
+                select.value = selected;
+            }
+
+            function updateFormatButton() {
+                document.getElementById('formatButton').disabled = getInputFormat() !== 'json';
+                document.getElementById('validationError').style.display = 'none';
+            }
+
+            document.getElementById('dataset').addEventListener('change', event => selectEntry(event.target.value));
+            document.getElementById('inputFormat').addEventListener('change', updateFormatButton);
+            document.getElementById('sampleData').addEventListener('input', recordEdit);
+
+            window.addEventListener('message', event => {
+                const message = event.data;
+                if (message.command === 'datasets') {
+                    state = message.state;
+                    const key = 'dataset:' + message.selected;
+                    delete edits[key];
+                    // The entry a new dataset was created from goes back to its saved text
+                    if (current !== key) {
+                        delete edits[current];
+                    }
+                    selectEntry(key);
+                } else if (message.command === 'error') {
+                    showError(message.message);
                 }
             });
+
+            renderFormatOptions('inputFormat', state.inputFormats, state.formats.input);
+            renderFormatOptions('outputFormat', state.outputFormats, state.formats.output);
+            updateFormatButton();
+
+            // Start with the default dataset, otherwise the template's own sample data
+            selectEntry(state.default ? 'dataset:' + state.default : 'sample');
         </script>
     </body>
     </html>`;
@@ -0,0 +1,117 @@
+import * as vscode from 'vscode';
+import { LanguageClient } from 'vscode-languageclient/node';
+import { Template } from '../types';
+import { JsonSchema, parseSchema, schemaFromSample } from '../core/schema';
+import { parseSampleData } from '../core/testing';
+import { TEMPLATE_EXTENSION, getMetadataPath, parseMetadata } from '../core/templateFiles';
+import { DATA_SHAPE_NOTIFICATION, DataShapeParams } from '../server/protocol';
+import { TemplateFileSystemProvider, TEMPLATE_SCHEME } from '../templates/templateFileSystemProvider';
+
+/**
+ * Tells the language server what input data each open Scriban document renders
+ * with, so it can complete data paths: the template's schema when it has one,
+ * otherwise the shape of its sample data. Server templates carry both; workspace
+ * files take them from the <name>.json sidecar written by sync or `loro pull`.
+ */
+export class DataShapePublisher implements vscode.Disposable {
+    private disposables: vscode.Disposable[] = [];
+
+    constructor(private client: LanguageClient, private templateFileSystem: TemplateFileSystemProvider) {
+        this.disposables.push(
+            vscode.workspace.onDidOpenTextDocument(document => this.publish(document)),
+            // Saving a schema document or a sidecar changes the shape of its template
+            templateFileSystem.onDidChangeFile(events => events.forEach(event => this.publishRelated(event.uri))),
+            vscode.workspace.onDidSaveTextDocument(document => {
+                if (document.uri.scheme !== TEMPLATE_SCHEME && document.uri.path.endsWith('.json')) {
+                    this.publishRelated(document.uri);
+                }
+            })
+        );
+        vscode.workspace.textDocuments.forEach(document => this.publish(document));
+    }
+
+    // Re-send the shape of open template documents after their template changed
+    private publishTemplate(template: Template): void {
+        vscode.workspace.textDocuments
+            .filter(document => document.uri.scheme === TEMPLATE_SCHEME && this.templateFileSystem.getTemplate(document.uri)?.id === template.id)
+            .forEach(document => this.publish(document));
+    }
+
+    private publishRelated(uri: vscode.Uri): void {
+        if (uri.scheme === TEMPLATE_SCHEME) {
+            const template = this.templateFileSystem.getTemplate(uri);
+            if (template) {
+                this.publishTemplate(template);
+            }
+            return;
+        }
+
+        const templatePath = uri.path.replace(/\.json$/, TEMPLATE_EXTENSION);
+        vscode.workspace.textDocuments
+            .filter(document => document.uri.scheme === uri.scheme && document.uri.path === templatePath)
+            .forEach(document => this.publish(document));
+    }
+
+    private async publish(document: vscode.TextDocument): Promise<void> {
+        if (document.languageId !== 'scriban') {
+            return;
+        }
+
+        const params: DataShapeParams = {
+            uri: this.client.code2ProtocolConverter.asUri(document.uri),
+            schema: await this.getDataShape(document.uri) || null
+        };
+        try {
+            await this.client.sendNotification(DATA_SHAPE_NOTIFICATION, params);
+        } catch (error) {
+            console.error('Failed to send data shape to the Scriban language server:', error);
+        }
+    }
+
+    private async getDataShape(uri: vscode.Uri): Promise<JsonSchema | undefined> {
+        if (uri.scheme === TEMPLATE_SCHEME) {
+            const template = this.templateFileSystem.getTemplate(uri);
+            return template ? toDataShape(template.schema, template.sampleData) : undefined;
+        }
+        if (!uri.path.endsWith(TEMPLATE_EXTENSION)) {
+            return undefined;
+        }
+
+        try {
+            const metadataUri = uri.with({ path: getMetadataPath(uri.path) });
+            const metadata = parseMetadata(Buffer.from(await vscode.workspace.fs.readFile(metadataUri)).toString('utf8'));
+            if (!metadata) {
+                return undefined;
+            }
+            // Sidecars keep schema and sample data as parsed JSON
+            const asText = (value: any) => value === null || typeof value === 'string' ? value : JSON.stringify(value);
+            return toDataShape(asText(metadata.schema), asText(metadata.sampleData));
+        } catch {
+            // No sidecar: a plain Scriban file
+            return undefined;
+        }
+    }
+
+    dispose(): void {
+        this.disposables.forEach(disposable => disposable.dispose());
+    }
+}
+
+// A stored schema wins over sample data; either may be missing or invalid while being edited
+function toDataShape(schema: string | null | undefined, sampleData: string | null | undefined): JsonSchema | undefined {
+    try {
+        const parsed = parseSchema(schema);
+        if (parsed) {
+            return parsed;
+        }
+    } catch {
+        // Fall back to the sample data
+    }
+
+    try {
+        const data = parseSampleData(sampleData);
+        return data && typeof data === 'object' && Object.keys(data).length > 0 ? schemaFromSample(data) : undefined;
+    } catch {
+        return undefined;
+    }
+}
@@ -0,0 +1,84 @@
+import * as vscode from 'vscode';
+import { parseDocument, forgetDocument, toRange } from './scribanDocument';
+
+const VALIDATION_DELAY_MS = 300;
+
+/**
+ * Keeps the Problems panel in sync with the parser for every open Scriban document.
+ * Documents are validated on open and, debounced, on every change.
+ */
+export class ScribanDiagnosticsService implements vscode.Disposable {
+    private collection = vscode.languages.createDiagnosticCollection('scriban');
+    private pending = new Map<string, NodeJS.Timeout>();
+    private disposables: vscode.Disposable[] = [];
+
+    constructor() {
+        this.disposables.push(
+            this.collection,
+            vscode.workspace.onDidOpenTextDocument(document => this.validate(document)),
+            vscode.workspace.onDidChangeTextDocument(event => this.scheduleValidation(event.document)),
+            vscode.workspace.onDidCloseTextDocument(document => this.clear(document))
+        );
+
+        for (const document of vscode.workspace.textDocuments) {
+            this.validate(document);
+        }
+    }
+
+    // Validate immediately and return the diagnostics that were published
+    validate(document: vscode.TextDocument): vscode.Diagnostic[] {
+        this.cancelPending(document);
+
+        if (document.languageId !== 'scriban') {
+            // The language may have been switched away from Scriban
+            this.collection.delete(document.uri);
+            return [];
+        }
+
+        const { errors } = parseDocument(document);
+        const diagnostics = errors.map(error => {
+            const diagnostic = new vscode.Diagnostic(toRange(error.range), error.message, vscode.DiagnosticSeverity.Error);
+            diagnostic.source = 'scriban';
+            return diagnostic;
+        });
+
+        this.collection.set(document.uri, diagnostics);
+        return diagnostics;
+    }
+
+    dispose(): void {
+        for (const timer of this.pending.values()) {
+            clearTimeout(timer);
+        }
+        this.pending.clear();
+        this.disposables.forEach(disposable => disposable.dispose());
+    }
+
+    private scheduleValidation(document: vscode.TextDocument): void {
+        if (document.languageId !== 'scriban') {
+            return;
+        }
+
+        this.cancelPending(document);
+        const key = document.uri.toString();
+        this.pending.set(key, setTimeout(() => {
+            this.pending.delete(key);
+            this.validate(document);
+        }, VALIDATION_DELAY_MS));
+    }
+
+    private cancelPending(document: vscode.TextDocument): void {
+        const key = document.uri.toString();
+        const timer = this.pending.get(key);
+        if (timer) {
+            clearTimeout(timer);
+            this.pending.delete(key);
+        }
+    }
+
+    private clear(document: vscode.TextDocument): void {
+        this.cancelPending(document);
+        this.collection.delete(document.uri);
+        forgetDocument(document);
+    }
+}
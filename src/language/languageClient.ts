@@ -0,0 +1,27 @@
+import * as vscode from 'vscode';
+import { LanguageClient, LanguageClientOptions, ServerOptions, TransportKind } from 'vscode-languageclient/node';
+
+// Start the Scriban language server for completion, hover, definitions and references
+export async function startLanguageClient(context: vscode.ExtensionContext): Promise<LanguageClient> {
+    const serverModule = context.asAbsolutePath('out/server/server.js');
+
+    const serverOptions: ServerOptions = {
+        run: { module: serverModule, transport: TransportKind.ipc },
+        debug: {
+            module: serverModule,
+            transport: TransportKind.ipc,
+            options: { execArgv: ['--nolazy', '--inspect=6009'] }
+        }
+    };
+
+    const clientOptions: LanguageClientOptions = {
+        // Any scheme: templates opened from the server live on loro://
+        documentSelector: [{ language: 'scriban' }],
+        // Diagnostics are published by ScribanDiagnosticsService inside the extension
+        initializationOptions: { diagnostics: false }
+    };
+
+    const client = new LanguageClient('scribanLanguageServer', 'Scriban Language Server', serverOptions, clientOptions);
+    await client.start();
+    return client;
+}
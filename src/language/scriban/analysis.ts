@@ -0,0 +1,534 @@
+import { Expression, ForStatement, FuncStatement, Node, SourceRange, Statement, TemplateNode, getChildren, getMemberPath, walk } from './ast';
+import { BUILTIN_NAMESPACES } from './builtins';
+import { Lexer } from './lexer';
+
+export type SymbolKind = 'variable' | 'function' | 'parameter' | 'loopVariable';
+
+export interface SymbolOccurrence {
+    name: string;
+    kind: SymbolKind;
+    range: SourceRange;
+    isDeclaration: boolean;
+}
+
+export interface DeclaredSymbol {
+    name: string;
+    kind: SymbolKind;
+    // Range of the name itself
+    selectionRange: SourceRange;
+    // Range of the whole declaring statement
+    range: SourceRange;
+    detail?: string;
+}
+
+// Identifiers that refer to built-in objects rather than template variables
+const RESERVED_ROOTS = new Set([...Object.keys(BUILTIN_NAMESPACES), 'for', 'tablerow', 'while', 'this', 'empty']);
+
+/**
+ * Collects every declaration and use of a template-level name. Member
+ * properties (`user.name` -> `name`) are not names in their own right.
+ */
+export function collectOccurrences(template: TemplateNode): SymbolOccurrence[] {
+    const occurrences: SymbolOccurrence[] = [];
+    const kinds = new Map<string, SymbolKind>();
+
+    walk(template, (node, parent) => {
+        if (node.kind !== 'identifier' || !node.name || RESERVED_ROOTS.has(node.name)) {
+            return;
+        }
+        if (parent && parent.kind === 'member' && parent.property === node) {
+            return;
+        }
+
+        const declarationKind = getDeclarationKind(node, parent);
+        if (declarationKind && !kinds.has(node.name)) {
+            kinds.set(node.name, declarationKind);
+        }
+        occurrences.push({
+            name: node.name,
+            kind: declarationKind || 'variable',
+            range: node.range,
+            isDeclaration: declarationKind !== undefined
+        });
+    });
+
+    // References take the kind of the name's first declaration
+    for (const occurrence of occurrences) {
+        if (!occurrence.isDeclaration) {
+            occurrence.kind = kinds.get(occurrence.name) || 'variable';
+        }
+    }
+    return occurrences;
+}
+
+function getDeclarationKind(node: Node, parent: Node | undefined): SymbolKind | undefined {
+    if (!parent) {
+        return undefined;
+    }
+    switch (parent.kind) {
+        case 'assign':
+            return parent.target === node ? 'variable' : undefined;
+        case 'capture':
+            return parent.target === node ? 'variable' : undefined;
+        case 'for':
+        case 'tablerow':
+            return parent.variable === node ? 'loopVariable' : undefined;
+        case 'func':
+            if (parent.name === node) {
+                return 'function';
+            }
+            return parent.parameters.includes(node as any) ? 'parameter' : undefined;
+        default:
+            return undefined;
+    }
+}
+
+export function collectDeclarations(template: TemplateNode): DeclaredSymbol[] {
+    const declarations: DeclaredSymbol[] = [];
+    const seen = new Set<string>();
+
+    walk(template, (node) => {
+        if (node.kind === 'func' && node.name.name) {
+            declarations.push({
+                name: node.name.name,
+                kind: 'function',
+                selectionRange: node.name.range,
+                range: node.range,
+                detail: `func ${node.name.name}(${node.parameters.map(p => p.name).join(', ')})`
+            });
+        } else if ((node.kind === 'assign' || node.kind === 'capture') && node.target.kind === 'identifier') {
+            // Variables are reported once, at their first assignment
+            if (!seen.has(node.target.name)) {
+                seen.add(node.target.name);
+                declarations.push({
+                    name: node.target.name,
+                    kind: 'variable',
+                    selectionRange: node.target.range,
+                    range: node.range,
+                    detail: node.kind === 'capture' ? 'capture' : undefined
+                });
+            }
+        }
+    });
+
+    return declarations;
+}
+
+export type DataKind = 'string' | 'number' | 'boolean' | 'date' | 'object' | 'array' | 'unknown';
+
+// One value the template reads from its input data, with what the template does with it
+export interface DataUsage {
+    kind: DataKind;
+    // Only used as a condition, e.g. `if user.is_admin`; a boolean unless other use says otherwise
+    conditionOnly: boolean;
+    // Read outside any if/case branch or condition, so the template expects it to be present
+    required: boolean;
+    properties: Map<string, DataUsage>;
+    // Element usage when the value is iterated or indexed
+    items?: DataUsage;
+}
+
+// What the first argument of a namespace's functions is expected to be
+const NAMESPACE_INPUT_KINDS: { [namespace: string]: DataKind } = {
+    string: 'string',
+    html: 'string',
+    regex: 'string',
+    math: 'number',
+    array: 'array',
+    date: 'date'
+};
+
+const ARITHMETIC_OPERATORS = new Set(['-', '*', '/', '//', '%']);
+const COMPARISON_OPERATORS = new Set(['==', '!=', '<', '>', '<=', '>=']);
+
+/**
+ * Works out the shape of the input data a template expects: every member path
+ * read from a name the template does not declare itself, with loop variables
+ * mapped onto the items of the collection they iterate over.
+ */
+export function collectDataUsage(template: TemplateNode): DataUsage {
+    const root = createUsage();
+    root.kind = 'object';
+    root.required = true;
+
+    // Template-level names assigned or captured by the template itself
+    const declared = new Set(collectDeclarations(template).map(declaration => declaration.name));
+
+    // Loop variables map to the items they iterate over; parameters and locals map to undefined
+    type Scope = Map<string, DataUsage | undefined>;
+
+    const resolve = (expression: Expression, scope: Scope, conditional: boolean, asCondition = false): DataUsage | undefined => {
+        let usage: DataUsage | undefined;
+        switch (expression.kind) {
+            case 'identifier': {
+                const name = expression.name;
+                if (scope.has(name)) {
+                    usage = scope.get(name);
+                } else if (!declared.has(name) && !RESERVED_ROOTS.has(name) && !name.startsWith('$')) {
+                    usage = getProperty(root, name);
+                }
+                break;
+            }
+            case 'member': {
+                const parent = resolve(expression.object, scope, conditional);
+                if (parent && expression.property.name === 'size') {
+                    // `items.size` is a property of arrays and strings, not a data member
+                    return undefined;
+                }
+                if (parent) {
+                    setKind(parent, 'object');
+                    usage = getProperty(parent, expression.property.name);
+                }
+                break;
+            }
+            case 'index': {
+                const parent = resolve(expression.object, scope, conditional);
+                visitExpression(expression.index, scope, conditional);
+                if (parent && expression.index.kind === 'literal' && typeof expression.index.value === 'string') {
+                    setKind(parent, 'object');
+                    usage = getProperty(parent, expression.index.value);
+                } else if (parent) {
+                    setKind(parent, 'array');
+                    usage = getItems(parent);
+                }
+                break;
+            }
+            default:
+                // Not a data path; record what its parts read instead
+                visitExpression(expression, scope, conditional);
+                return undefined;
+        }
+
+        if (usage) {
+            usage.conditionOnly = usage.conditionOnly && asCondition;
+            usage.required = usage.required || !conditional;
+        }
+        return usage;
+    };
+
+    // Record a use of the expression, with a kind when the context tells us one
+    const use = (expression: Expression, scope: Scope, conditional: boolean, kind?: DataKind): void => {
+        const usage = resolve(expression, scope, conditional);
+        if (usage && kind) {
+            setKind(usage, kind);
+        }
+    };
+
+    const useCondition = (expression: Expression, scope: Scope): void => {
+        resolve(expression, scope, true, true);
+    };
+
+    const visitExpression = (expression: Expression, scope: Scope, conditional: boolean): void => {
+        switch (expression.kind) {
+            case 'identifier':
+            case 'member':
+            case 'index':
+                resolve(expression, scope, conditional);
+                return;
+            case 'binary': {
+                let leftKind: DataKind | undefined;
+                let rightKind: DataKind | undefined;
+                if (ARITHMETIC_OPERATORS.has(expression.operator)) {
+                    leftKind = rightKind = 'number';
+                } else if (COMPARISON_OPERATORS.has(expression.operator) || expression.operator === '+') {
+                    leftKind = getKnownKind(expression.right);
+                    rightKind = getKnownKind(expression.left);
+                }
+                // The right side of ?? / || / && is only evaluated sometimes
+                const rightConditional = conditional || ['??', '||', 'or', '&&', 'and'].includes(expression.operator);
+                if (['&&', 'and', '||', 'or'].includes(expression.operator)) {
+                    useCondition(expression.left, scope);
+                    useCondition(expression.right, scope);
+                    return;
+                }
+                use(expression.left, scope, conditional, leftKind);
+                use(expression.right, scope, rightConditional, rightKind);
+                return;
+            }
+            case 'unary':
+                if (expression.operator === '!' || expression.operator === 'not') {
+                    useCondition(expression.operand, scope);
+                } else {
+                    use(expression.operand, scope, conditional, expression.operator === '-' ? 'number' : undefined);
+                }
+                return;
+            case 'conditional':
+                useCondition(expression.test, scope);
+                use(expression.consequent, scope, true);
+                use(expression.alternate, scope, true);
+                return;
+            case 'pipe':
+                use(expression.input, scope, conditional, getCallInputKind(expression.call));
+                visitExpression(expression.call, scope, conditional);
+                return;
+            case 'call': {
+                const calleePath = getCalleeNamespace(expression.callee);
+                expression.args.forEach((arg, index) => {
+                    if (arg.kind === 'namedArgument') {
+                        if (arg.value) {
+                            use(arg.value, scope, conditional);
+                        }
+                    } else {
+                        use(arg, scope, conditional, index === 0 && calleePath ? NAMESPACE_INPUT_KINDS[calleePath] : undefined);
+                    }
+                });
+                if (expression.callee.kind !== 'identifier' && expression.callee.kind !== 'member') {
+                    visitExpression(expression.callee, scope, conditional);
+                }
+                return;
+            }
+            default:
+                for (const child of getChildren(expression)) {
+                    if (child.kind === 'property' || child.kind === 'namedArgument') {
+                        if (child.value) {
+                            use(child.value, scope, conditional);
+                        }
+                    } else {
+                        use(child as Expression, scope, conditional);
+                    }
+                }
+        }
+    };
+
+    const visitStatements = (statements: Statement[], scope: Scope, conditional: boolean): void => {
+        statements.forEach(statement => visitStatement(statement, scope, conditional));
+    };
+
+    const visitStatement = (statement: Statement, scope: Scope, conditional: boolean): void => {
+        switch (statement.kind) {
+            case 'expression':
+                use(statement.expression, scope, conditional);
+                return;
+            case 'assign':
+                use(statement.value, scope, conditional);
+                return;
+            case 'capture':
+                visitStatements(statement.body, scope, conditional);
+                return;
+            case 'if':
+                useCondition(statement.condition, scope);
+                visitStatements(statement.body, scope, true);
+                if (statement.elseIf) {
+                    visitStatement(statement.elseIf, scope, true);
+                }
+                if (statement.elseBody) {
+                    visitStatements(statement.elseBody, scope, true);
+                }
+                return;
+            case 'while':
+                useCondition(statement.condition, scope);
+                visitStatements(statement.body, scope, true);
+                return;
+            case 'case':
+                use(statement.value, scope, conditional);
+                for (const when of statement.whens) {
+                    when.values.forEach(value => use(value, scope, true));
+                    visitStatements(when.body, scope, true);
+                }
+                if (statement.elseBody) {
+                    visitStatements(statement.elseBody, scope, true);
+                }
+                return;
+            case 'for':
+            case 'tablerow': {
+                const collection = resolve(statement.iterable, scope, conditional);
+                if (collection) {
+                    setKind(collection, 'array');
+                }
+                statement.params.forEach(param => param.value && use(param.value, scope, conditional));
+
+                const loopScope: Scope = new Map(scope);
+                loopScope.set(statement.variable.name, collection ? getItems(collection) : undefined);
+                visitStatements(statement.body, loopScope, conditional);
+                if (statement.elseBody) {
+                    visitStatements(statement.elseBody, scope, true);
+                }
+                return;
+            }
+            case 'func': {
+                const functionScope: Scope = new Map(scope);
+                statement.parameters.forEach(parameter => functionScope.set(parameter.name, undefined));
+                // Functions may never be called
+                visitStatements(statement.body, functionScope, true);
+                return;
+            }
+            case 'with':
+            case 'wrap':
+                use(statement.target, scope, conditional);
+                visitStatements(statement.body, scope, conditional);
+                return;
+            case 'ret':
+                if (statement.value) {
+                    use(statement.value, scope, conditional);
+                }
+                return;
+            case 'import':
+            case 'readonly':
+                use(statement.target, scope, conditional);
+                return;
+            default:
+                return;
+        }
+    };
+
+    visitStatements(template.body, new Map(), false);
+    return root;
+}
+
+// Path segment standing for "any element" of an array
+export const ITEMS_SEGMENT = '[]';
+
+/**
+ * Maps a member path written at `offset` onto the input data, following loop
+ * variables to the collection they iterate: inside `for item in order.items`,
+ * `item.price` is `order.items.[].price`. Returns undefined for names the
+ * template declares itself.
+ */
+export function resolveDataPath(template: TemplateNode, offset: number, path: string[]): string[] | undefined {
+    if (path.length === 0 || RESERVED_ROOTS.has(path[0]) || path[0].startsWith('$')) {
+        return undefined;
+    }
+
+    // Loops and functions around the offset, outermost first
+    const scopes: Array<ForStatement | FuncStatement> = [];
+    walk(template, node => {
+        if (!isScopeAt(node, offset)) {
+            return node.range.start.offset <= offset;
+        }
+        scopes.push(node as ForStatement | FuncStatement);
+    });
+
+    const declared = new Set(collectDeclarations(template).map(declaration => declaration.name));
+
+    const resolve = (segments: string[], depth: number): string[] | undefined => {
+        for (let i = depth - 1; i >= 0; i--) {
+            const scope = scopes[i];
+            if (scope.kind === 'func') {
+                if (scope.parameters.some(parameter => parameter.name === segments[0])) {
+                    return undefined;
+                }
+            } else if (scope.variable.name === segments[0]) {
+                const iterable = getMemberPath(scope.iterable);
+                const collection = iterable && resolve(iterable, i);
+                return collection ? [...collection, ITEMS_SEGMENT, ...segments.slice(1)] : undefined;
+            }
+        }
+        return declared.has(segments[0]) ? undefined : segments;
+    };
+
+    return resolve(path, scopes.length);
+}
+
+// Whether the offset is inside a loop body or function, including unterminated ones still being typed
+function isScopeAt(node: Node, offset: number): boolean {
+    if (node.kind !== 'for' && node.kind !== 'tablerow' && node.kind !== 'func') {
+        return false;
+    }
+
+    // The loop variable is not set in the `else` branch of an empty loop
+    if (node.kind !== 'func' && node.elseBody && node.elseBody.length > 0 && offset >= node.elseBody[0].range.start.offset) {
+        return false;
+    }
+
+    const start = node.kind === 'func' ? node.name.range.end.offset : node.iterable.range.end.offset;
+    const lastStatement = node.body[node.body.length - 1];
+    const end = Math.max(node.range.end.offset, lastStatement ? lastStatement.range.end.offset : 0);
+    return start < offset && offset <= end;
+}
+
+function createUsage(): DataUsage {
+    return { kind: 'unknown', conditionOnly: true, required: false, properties: new Map() };
+}
+
+function getProperty(parent: DataUsage, name: string): DataUsage {
+    let usage = parent.properties.get(name);
+    if (!usage) {
+        usage = createUsage();
+        parent.properties.set(name, usage);
+    }
+    return usage;
+}
+
+function getItems(parent: DataUsage): DataUsage {
+    if (!parent.items) {
+        parent.items = createUsage();
+        // Whether items exist at all is up to the collection
+        parent.items.required = true;
+    }
+    return parent.items;
+}
+
+// The first concrete kind wins; structural kinds override guesses made from how a value was printed
+function setKind(usage: DataUsage, kind: DataKind): void {
+    if (usage.kind === 'unknown' || kind === 'object' || kind === 'array') {
+        if (usage.kind !== 'object' && usage.kind !== 'array') {
+            usage.kind = kind;
+        }
+    }
+}
+
+// Kind of a literal or of `date.now`, to infer the kind of what it is compared with
+function getKnownKind(expression: Expression): DataKind | undefined {
+    if (getMemberPath(expression)?.join('.') === 'date.now') {
+        return 'date';
+    }
+    if (expression.kind !== 'literal' || expression.value === null) {
+        return undefined;
+    }
+    return typeof expression.value as DataKind;
+}
+
+function getCallInputKind(call: Expression): DataKind | undefined {
+    const namespace = getCalleeNamespace(call.kind === 'call' ? call.callee : call);
+    return namespace ? NAMESPACE_INPUT_KINDS[namespace] : undefined;
+}
+
+function getCalleeNamespace(callee: Expression): string | undefined {
+    return callee.kind === 'member' && callee.object.kind === 'identifier' ? callee.object.name : undefined;
+}
+
+export function findOccurrenceAt(occurrences: SymbolOccurrence[], offset: number): SymbolOccurrence | undefined {
+    return occurrences.find(occurrence =>
+        occurrence.range.start.offset <= offset && offset <= occurrence.range.end.offset
+    );
+}
+
+// Whether the offset falls inside a {{ }} code block
+export function isInsideCode(text: string, offset: number): boolean {
+    const tokens = new Lexer(text).tokenize();
+    let inCode = false;
+    for (const token of tokens) {
+        if (token.range.start.offset >= offset) {
+            break;
+        }
+        if (token.type === 'codeEnter') {
+            inCode = token.range.end.offset <= offset;
+        } else if (token.type === 'codeExit') {
+            inCode = token.range.end.offset > offset;
+        }
+    }
+    return inCode;
+}
+
+/**
+ * The dotted name under the cursor, up to the end of the segment the cursor is in.
+ * For `string.upcase` with the cursor on `string` this returns `string`.
+ */
+export function getPathAt(text: string, offset: number): { path: string; start: number; end: number } | undefined {
+    const isPathChar = (ch: string | undefined) => ch !== undefined && /[A-Za-z0-9_$.]/.test(ch);
+
+    let start = offset;
+    while (start > 0 && isPathChar(text[start - 1])) {
+        start--;
+    }
+    let end = offset;
+    while (end < text.length && /[A-Za-z0-9_$]/.test(text[end])) {
+        end++;
+    }
+
+    const path = text.substring(start, end).replace(/^\.+/, '');
+    if (!path) {
+        return undefined;
+    }
+    return { path, start: end - path.length, end };
+}
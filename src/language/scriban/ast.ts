@@ -0,0 +1,296 @@
+// AST node definitions for Scriban templates. Kept free of any vscode
+// dependency so the parser can be reused outside the extension host.
+
+export interface Position {
+    offset: number;
+    line: number;
+    character: number;
+}
+
+export interface SourceRange {
+    start: Position;
+    end: Position;
+}
+
+export interface ParseError {
+    message: string;
+    range: SourceRange;
+}
+
+interface BaseNode {
+    range: SourceRange;
+}
+
+// Statements
+
+export interface TemplateNode extends BaseNode {
+    kind: 'template';
+    body: Statement[];
+}
+
+export interface TextStatement extends BaseNode {
+    kind: 'text';
+    value: string;
+}
+
+export interface RawStatement extends BaseNode {
+    kind: 'raw';
+    value: string;
+}
+
+export interface ExpressionStatement extends BaseNode {
+    kind: 'expression';
+    expression: Expression;
+}
+
+export interface AssignStatement extends BaseNode {
+    kind: 'assign';
+    target: Expression;
+    value: Expression;
+}
+
+export interface IfStatement extends BaseNode {
+    kind: 'if';
+    condition: Expression;
+    body: Statement[];
+    elseIf?: IfStatement;
+    elseBody?: Statement[];
+}
+
+export interface ForStatement extends BaseNode {
+    kind: 'for' | 'tablerow';
+    variable: Identifier;
+    iterable: Expression;
+    params: NamedArgument[];
+    body: Statement[];
+    elseBody?: Statement[];
+}
+
+export interface WhileStatement extends BaseNode {
+    kind: 'while';
+    condition: Expression;
+    body: Statement[];
+}
+
+export interface CaseStatement extends BaseNode {
+    kind: 'case';
+    value: Expression;
+    whens: WhenClause[];
+    elseBody?: Statement[];
+}
+
+export interface WhenClause extends BaseNode {
+    kind: 'when';
+    values: Expression[];
+    body: Statement[];
+}
+
+export interface CaptureStatement extends BaseNode {
+    kind: 'capture';
+    target: Expression;
+    body: Statement[];
+}
+
+export interface FuncStatement extends BaseNode {
+    kind: 'func';
+    name: Identifier;
+    parameters: Identifier[];
+    body: Statement[];
+}
+
+export interface WithStatement extends BaseNode {
+    kind: 'with';
+    target: Expression;
+    body: Statement[];
+}
+
+export interface WrapStatement extends BaseNode {
+    kind: 'wrap';
+    target: Expression;
+    body: Statement[];
+}
+
+export interface ReturnStatement extends BaseNode {
+    kind: 'ret';
+    value?: Expression;
+}
+
+export interface LoopControlStatement extends BaseNode {
+    kind: 'break' | 'continue';
+}
+
+export interface ImportStatement extends BaseNode {
+    kind: 'import' | 'readonly';
+    target: Expression;
+}
+
+export type Statement =
+    | TextStatement
+    | RawStatement
+    | ExpressionStatement
+    | AssignStatement
+    | IfStatement
+    | ForStatement
+    | WhileStatement
+    | CaseStatement
+    | CaptureStatement
+    | FuncStatement
+    | WithStatement
+    | WrapStatement
+    | ReturnStatement
+    | LoopControlStatement
+    | ImportStatement;
+
+// Expressions
+
+export interface Literal extends BaseNode {
+    kind: 'literal';
+    value: string | number | boolean | null;
+    raw: string;
+}
+
+export interface Identifier extends BaseNode {
+    kind: 'identifier';
+    name: string;
+}
+
+export interface MemberExpression extends BaseNode {
+    kind: 'member';
+    object: Expression;
+    property: Identifier;
+    optional: boolean;
+}
+
+export interface IndexExpression extends BaseNode {
+    kind: 'index';
+    object: Expression;
+    index: Expression;
+}
+
+export interface CallExpression extends BaseNode {
+    kind: 'call';
+    callee: Expression;
+    args: Array<Expression | NamedArgument>;
+}
+
+export interface PipeExpression extends BaseNode {
+    kind: 'pipe';
+    input: Expression;
+    call: Expression;
+}
+
+export interface BinaryExpression extends BaseNode {
+    kind: 'binary';
+    operator: string;
+    left: Expression;
+    right: Expression;
+}
+
+export interface UnaryExpression extends BaseNode {
+    kind: 'unary';
+    operator: string;
+    operand: Expression;
+}
+
+export interface ConditionalExpression extends BaseNode {
+    kind: 'conditional';
+    test: Expression;
+    consequent: Expression;
+    alternate: Expression;
+}
+
+export interface ArrayExpression extends BaseNode {
+    kind: 'array';
+    elements: Expression[];
+}
+
+export interface ObjectProperty extends BaseNode {
+    kind: 'property';
+    key: string;
+    value: Expression;
+}
+
+export interface ObjectExpression extends BaseNode {
+    kind: 'object';
+    properties: ObjectProperty[];
+}
+
+export interface NamedArgument extends BaseNode {
+    kind: 'namedArgument';
+    name: string;
+    value?: Expression;
+}
+
+// Placeholder produced when an expression could not be parsed
+export interface ErrorExpression extends BaseNode {
+    kind: 'error';
+}
+
+export type Expression =
+    | Literal
+    | Identifier
+    | MemberExpression
+    | IndexExpression
+    | CallExpression
+    | PipeExpression
+    | BinaryExpression
+    | UnaryExpression
+    | ConditionalExpression
+    | ArrayExpression
+    | ObjectExpression
+    | ErrorExpression;
+
+export type Node =
+    | TemplateNode
+    | Statement
+    | WhenClause
+    | Expression
+    | ObjectProperty
+    | NamedArgument;
+
+// Child nodes of a node in source order
+export function getChildren(node: Node): Node[] {
+    const children: Node[] = [];
+    for (const key of Object.keys(node)) {
+        if (key === 'range') {
+            continue;
+        }
+        const value = (node as any)[key];
+        if (Array.isArray(value)) {
+            for (const item of value) {
+                if (isNode(item)) {
+                    children.push(item);
+                }
+            }
+        } else if (isNode(value)) {
+            children.push(value);
+        }
+    }
+    return children.sort((a, b) => a.range.start.offset - b.range.start.offset);
+}
+
+// Depth-first walk; return false from the visitor to skip a node's children
+export function walk(node: Node, visitor: (node: Node, parent?: Node) => boolean | void, parent?: Node): void {
+    if (visitor(node, parent) === false) {
+        return;
+    }
+    for (const child of getChildren(node)) {
+        walk(child, visitor, node);
+    }
+}
+
+function isNode(value: any): value is Node {
+    return value !== null && typeof value === 'object' && typeof value.kind === 'string' && value.range !== undefined;
+}
+
+// Dotted path for identifier/member chains such as `order.customer.name`
+export function getMemberPath(expression: Expression): string[] | undefined {
+    if (expression.kind === 'identifier') {
+        return [expression.name];
+    }
+    if (expression.kind === 'member') {
+        const objectPath = getMemberPath(expression.object);
+        return objectPath ? [...objectPath, expression.property.name] : undefined;
+    }
+    return undefined;
+}
@@ -0,0 +1,166 @@
+// Catalog of Scriban keywords and built-in functions used for completion and hover
+
+export interface KeywordInfo {
+    name: string;
+    description: string;
+    // Snippet inserted on completion, in LSP/VS Code snippet syntax
+    snippet?: string;
+}
+
+export interface BuiltinFunction {
+    // Fully qualified name such as `string.upcase`
+    name: string;
+    signature: string;
+    description: string;
+}
+
+export const KEYWORDS: KeywordInfo[] = [
+    { name: 'if', description: 'Renders the block when the condition is truthy. Chain with `else if` / `else` and close with `end`.', snippet: 'if ${1:condition}' },
+    { name: 'else', description: 'Alternative branch of an `if`, `for` or `case` block.' },
+    { name: 'end', description: 'Closes the innermost `if`, `for`, `while`, `case`, `capture`, `func`, `with` or `wrap` block.' },
+    { name: 'for', description: 'Iterates over an array or range: `for item in items` ... `end`. Supports `limit:`, `offset:` and `reversed`.', snippet: 'for ${1:item} in ${2:items}' },
+    { name: 'in', description: 'Separates the loop variable from the iterated collection in a `for` loop.' },
+    { name: 'tablerow', description: 'Like `for`, but wraps each iteration in HTML table rows and cells.', snippet: 'tablerow ${1:item} in ${2:items}' },
+    { name: 'while', description: 'Repeats the block while the condition is truthy.', snippet: 'while ${1:condition}' },
+    { name: 'break', description: 'Exits the innermost loop.' },
+    { name: 'continue', description: 'Skips to the next iteration of the innermost loop.' },
+    { name: 'case', description: 'Matches a value against `when` clauses.', snippet: 'case ${1:value}' },
+    { name: 'when', description: 'A branch of a `case` block; several values can be separated by commas.', snippet: 'when ${1:value}' },
+    { name: 'capture', description: 'Renders the block into a variable instead of the output.', snippet: 'capture ${1:variable}' },
+    { name: 'func', description: 'Declares a reusable function. Arguments are available as named parameters or `$0`, `$1`, ...', snippet: 'func ${1:name}(${2:args})' },
+    { name: 'ret', description: 'Returns a value from a function.' },
+    { name: 'with', description: 'Makes the members of an object available as variables within the block.', snippet: 'with ${1:object}' },
+    { name: 'wrap', description: 'Calls a function passing the block body, available inside the function as `$$`.', snippet: 'wrap ${1:function}' },
+    { name: 'import', description: 'Imports the members of an object into the current scope.' },
+    { name: 'readonly', description: 'Marks a variable as read-only.' },
+    { name: 'true', description: 'Boolean true.' },
+    { name: 'false', description: 'Boolean false.' },
+    { name: 'null', description: 'The null value.' }
+];
+
+export const BUILTIN_NAMESPACES: { [name: string]: string } = {
+    array: 'Functions for working with arrays and lists.',
+    date: 'Functions for parsing, formatting and manipulating dates.',
+    html: 'Functions for escaping and stripping HTML.',
+    math: 'Arithmetic and number formatting functions.',
+    object: 'Functions for inspecting objects and values.',
+    regex: 'Regular expression functions.',
+    string: 'Functions for manipulating strings.',
+    timespan: 'Functions for creating and formatting time spans.'
+};
+
+// Special variables available inside a `for` loop
+export const LOOP_VARIABLES: BuiltinFunction[] = [
+    { name: 'for.index', signature: 'for.index', description: 'Zero-based index of the current iteration.' },
+    { name: 'for.rindex', signature: 'for.rindex', description: 'Zero-based index from the end of the loop.' },
+    { name: 'for.first', signature: 'for.first', description: '`true` on the first iteration.' },
+    { name: 'for.last', signature: 'for.last', description: '`true` on the last iteration.' },
+    { name: 'for.even', signature: 'for.even', description: '`true` when the index is even.' },
+    { name: 'for.odd', signature: 'for.odd', description: '`true` when the index is odd.' },
+    { name: 'for.changed', signature: 'for.changed', description: '`true` when the value differs from the previous iteration.' }
+];
+
+export const BUILTIN_FUNCTIONS: BuiltinFunction[] = [
+    // array
+    { name: 'array.add', signature: 'array.add <list> <value>', description: 'Returns a new list with the value appended.' },
+    { name: 'array.add_range', signature: 'array.add_range <list1> <list2>', description: 'Returns a new list with the items of the second list appended.' },
+    { name: 'array.compact', signature: 'array.compact <list>', description: 'Removes null values from the list.' },
+    { name: 'array.concat', signature: 'array.concat <list1> <list2>', description: 'Concatenates two lists.' },
+    { name: 'array.cycle', signature: 'array.cycle <list> <group?>', description: 'Cycles through the list values on each call.' },
+    { name: 'array.first', signature: 'array.first <list>', description: 'Returns the first item of the list.' },
+    { name: 'array.insert_at', signature: 'array.insert_at <list> <index> <value>', description: 'Inserts a value at the given index.' },
+    { name: 'array.join', signature: 'array.join <list> <delimiter>', description: 'Joins the items of the list into a string.' },
+    { name: 'array.last', signature: 'array.last <list>', description: 'Returns the last item of the list.' },
+    { name: 'array.limit', signature: 'array.limit <list> <count>', description: 'Returns at most `count` items from the start of the list.' },
+    { name: 'array.map', signature: 'array.map <list> <member>', description: 'Returns the given member of each item.' },
+    { name: 'array.offset', signature: 'array.offset <list> <count>', description: 'Skips `count` items from the start of the list.' },
+    { name: 'array.remove_at', signature: 'array.remove_at <list> <index>', description: 'Removes the item at the given index.' },
+    { name: 'array.reverse', signature: 'array.reverse <list>', description: 'Reverses the order of the list.' },
+    { name: 'array.size', signature: 'array.size <list>', description: 'Returns the number of items in the list.' },
+    { name: 'array.sort', signature: 'array.sort <list> <member?>', description: 'Sorts the list, optionally by a member of each item.' },
+    { name: 'array.uniq', signature: 'array.uniq <list>', description: 'Removes duplicate values.' },
+    { name: 'array.contains', signature: 'array.contains <list> <item>', description: 'Returns `true` if the list contains the item.' },
+    // date
+    { name: 'date.now', signature: 'date.now', description: 'The current date and time.' },
+    { name: 'date.add_days', signature: 'date.add_days <date> <days>', description: 'Adds a number of days to a date.' },
+    { name: 'date.add_months', signature: 'date.add_months <date> <months>', description: 'Adds a number of months to a date.' },
+    { name: 'date.add_years', signature: 'date.add_years <date> <years>', description: 'Adds a number of years to a date.' },
+    { name: 'date.add_hours', signature: 'date.add_hours <date> <hours>', description: 'Adds a number of hours to a date.' },
+    { name: 'date.add_minutes', signature: 'date.add_minutes <date> <minutes>', description: 'Adds a number of minutes to a date.' },
+    { name: 'date.parse', signature: 'date.parse <text>', description: 'Parses a string into a date.' },
+    { name: 'date.to_string', signature: 'date.to_string <date> <format> <culture?>', description: 'Formats a date using strftime-style patterns such as `%Y-%m-%d`.' },
+    { name: 'date.format', signature: 'date.format <date> <format>', description: 'Formats a date using a .NET format string such as `MM/dd/yyyy`.' },
+    // html
+    { name: 'html.escape', signature: 'html.escape <text>', description: 'Escapes HTML special characters.' },
+    { name: 'html.strip', signature: 'html.strip <text>', description: 'Removes HTML tags from the text.' },
+    { name: 'html.url_encode', signature: 'html.url_encode <text>', description: 'URL-encodes the text.' },
+    { name: 'html.url_escape', signature: 'html.url_escape <text>', description: 'Escapes the text for use in a URL, keeping reserved characters.' },
+    // math
+    { name: 'math.abs', signature: 'math.abs <value>', description: 'Absolute value.' },
+    { name: 'math.ceil', signature: 'math.ceil <value>', description: 'Rounds up to the nearest integer.' },
+    { name: 'math.divided_by', signature: 'math.divided_by <value> <divisor>', description: 'Divides the value.' },
+    { name: 'math.floor', signature: 'math.floor <value>', description: 'Rounds down to the nearest integer.' },
+    { name: 'math.format', signature: 'math.format <value> <format>', description: 'Formats a number using a .NET format string such as `0.00` or `N2`.' },
+    { name: 'math.is_number', signature: 'math.is_number <value>', description: 'Returns `true` if the value is a number.' },
+    { name: 'math.minus', signature: 'math.minus <value> <with>', description: 'Subtracts from the value.' },
+    { name: 'math.modulo', signature: 'math.modulo <value> <with>', description: 'Remainder of a division.' },
+    { name: 'math.plus', signature: 'math.plus <value> <with>', description: 'Adds to the value.' },
+    { name: 'math.round', signature: 'math.round <value> <precision?>', description: 'Rounds to the given number of decimals.' },
+    { name: 'math.times', signature: 'math.times <value> <with>', description: 'Multiplies the value.' },
+    // object
+    { name: 'object.default', signature: 'object.default <value> <default>', description: 'Returns the default when the value is null or empty.' },
+    { name: 'object.eval', signature: 'object.eval <value>', description: 'Evaluates a string as a Scriban expression.' },
+    { name: 'object.format', signature: 'object.format <value> <format>', description: 'Formats a value using a .NET format string.' },
+    { name: 'object.has_key', signature: 'object.has_key <value> <key>', description: 'Returns `true` if the object has the member.' },
+    { name: 'object.has_value', signature: 'object.has_value <value> <key>', description: 'Returns `true` if the member exists and is not null.' },
+    { name: 'object.keys', signature: 'object.keys <value>', description: 'The member names of the object.' },
+    { name: 'object.size', signature: 'object.size <value>', description: 'Number of members, items or characters.' },
+    { name: 'object.to_json', signature: 'object.to_json <value>', description: 'Serializes the value to JSON.' },
+    { name: 'object.typeof', signature: 'object.typeof <value>', description: 'The type name of the value.' },
+    { name: 'object.values', signature: 'object.values <value>', description: 'The member values of the object.' },
+    // regex
+    { name: 'regex.escape', signature: 'regex.escape <pattern>', description: 'Escapes regular expression metacharacters.' },
+    { name: 'regex.match', signature: 'regex.match <text> <pattern> <options?>', description: 'Returns the groups of the first match.' },
+    { name: 'regex.replace', signature: 'regex.replace <text> <pattern> <replace> <options?>', description: 'Replaces all matches of the pattern.' },
+    { name: 'regex.split', signature: 'regex.split <text> <pattern> <options?>', description: 'Splits the text on the pattern.' },
+    // string
+    { name: 'string.append', signature: 'string.append <text> <with>', description: 'Appends a string.' },
+    { name: 'string.capitalize', signature: 'string.capitalize <text>', description: 'Uppercases the first character.' },
+    { name: 'string.capitalizewords', signature: 'string.capitalizewords <text>', description: 'Uppercases the first character of each word.' },
+    { name: 'string.contains', signature: 'string.contains <text> <value>', description: 'Returns `true` if the text contains the value.' },
+    { name: 'string.downcase', signature: 'string.downcase <text>', description: 'Converts to lowercase.' },
+    { name: 'string.empty', signature: 'string.empty <text>', description: 'Returns `true` if the text is null or empty.' },
+    { name: 'string.ends_with', signature: 'string.ends_with <text> <value>', description: 'Returns `true` if the text ends with the value.' },
+    { name: 'string.handleize', signature: 'string.handleize <text>', description: 'Converts to a URL-friendly handle.' },
+    { name: 'string.lstrip', signature: 'string.lstrip <text>', description: 'Removes leading whitespace.' },
+    { name: 'string.pluralize', signature: 'string.pluralize <number> <singular> <plural>', description: 'Chooses the singular or plural form.' },
+    { name: 'string.prepend', signature: 'string.prepend <text> <by>', description: 'Prepends a string.' },
+    { name: 'string.remove', signature: 'string.remove <text> <value>', description: 'Removes all occurrences of the value.' },
+    { name: 'string.remove_first', signature: 'string.remove_first <text> <value>', description: 'Removes the first occurrence of the value.' },
+    { name: 'string.replace', signature: 'string.replace <text> <match> <replace>', description: 'Replaces all occurrences.' },
+    { name: 'string.replace_first', signature: 'string.replace_first <text> <match> <replace>', description: 'Replaces the first occurrence.' },
+    { name: 'string.rstrip', signature: 'string.rstrip <text>', description: 'Removes trailing whitespace.' },
+    { name: 'string.size', signature: 'string.size <text>', description: 'Number of characters.' },
+    { name: 'string.slice', signature: 'string.slice <text> <start> <length?>', description: 'Extracts part of the string.' },
+    { name: 'string.split', signature: 'string.split <text> <match>', description: 'Splits the text into an array.' },
+    { name: 'string.starts_with', signature: 'string.starts_with <text> <value>', description: 'Returns `true` if the text starts with the value.' },
+    { name: 'string.strip', signature: 'string.strip <text>', description: 'Removes leading and trailing whitespace.' },
+    { name: 'string.strip_newlines', signature: 'string.strip_newlines <text>', description: 'Removes newlines.' },
+    { name: 'string.truncate', signature: 'string.truncate <text> <length> <ellipsis?>', description: 'Truncates to the given length, appending an ellipsis.' },
+    { name: 'string.truncatewords', signature: 'string.truncatewords <text> <count> <ellipsis?>', description: 'Truncates to the given number of words.' },
+    { name: 'string.upcase', signature: 'string.upcase <text>', description: 'Converts to uppercase.' },
+    // timespan
+    { name: 'timespan.from_days', signature: 'timespan.from_days <days>', description: 'A time span of the given number of days.' },
+    { name: 'timespan.from_hours', signature: 'timespan.from_hours <hours>', description: 'A time span of the given number of hours.' },
+    { name: 'timespan.from_minutes', signature: 'timespan.from_minutes <minutes>', description: 'A time span of the given number of minutes.' },
+    // global
+    { name: 'include', signature: 'include <name> <args...>', description: 'Renders another template inline.' }
+];
+
+export function findBuiltin(name: string): BuiltinFunction | undefined {
+    return BUILTIN_FUNCTIONS.find(fn => fn.name === name) || LOOP_VARIABLES.find(variable => variable.name === name);
+}
+
+export function findKeyword(name: string): KeywordInfo | undefined {
+    return KEYWORDS.find(keyword => keyword.name === name);
+}
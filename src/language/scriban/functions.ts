@@ -0,0 +1,461 @@
+// JavaScript implementations of the Scriban builtins supported by the local renderer.
+// Formatting follows the invariant culture, which is what the Loro API renders with.
+
+export type BuiltinImplementation = (...args: any[]) => any;
+
+const MONTH_NAMES = ['January', 'February', 'March', 'April', 'May', 'June', 'July', 'August', 'September', 'October', 'November', 'December'];
+const DAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+export function toText(value: any): string {
+    if (value === null || value === undefined) {
+        return '';
+    }
+    if (typeof value === 'string') {
+        return value;
+    }
+    if (typeof value === 'boolean') {
+        return value ? 'true' : 'false';
+    }
+    if (value instanceof Date) {
+        return formatStrftime(value, '%d %b %Y');
+    }
+    if (Array.isArray(value)) {
+        return `[${value.map(item => typeof item === 'string' ? `"${item}"` : toText(item)).join(', ')}]`;
+    }
+    if (typeof value === 'object') {
+        const entries = Object.keys(value).map(key => {
+            const item = value[key];
+            return `${key}: ${typeof item === 'string' ? `"${item}"` : toText(item)}`;
+        });
+        return `{${entries.join(', ')}}`;
+    }
+    return String(value);
+}
+
+export function toNumber(value: any): number {
+    if (typeof value === 'number') {
+        return value;
+    }
+    if (typeof value === 'boolean') {
+        return value ? 1 : 0;
+    }
+    if (value === null || value === undefined || value === '') {
+        return 0;
+    }
+    const parsed = Number(value);
+    return isNaN(parsed) ? 0 : parsed;
+}
+
+export function toDate(value: any): Date | null {
+    if (value instanceof Date) {
+        return value;
+    }
+    if (value === null || value === undefined || value === '') {
+        return null;
+    }
+    const date = new Date(value);
+    return isNaN(date.getTime()) ? null : date;
+}
+
+function toList(value: any): any[] {
+    if (Array.isArray(value)) {
+        return value;
+    }
+    if (value === null || value === undefined) {
+        return [];
+    }
+    return [value];
+}
+
+function pad(value: number, width: number): string {
+    return String(Math.abs(value)).padStart(width, '0');
+}
+
+function groupThousands(integerDigits: string): string {
+    return integerDigits.replace(/\B(?=(\d{3})+(?!\d))/g, ',');
+}
+
+/**
+ * Formats a number with a .NET standard (N2, F2, C, P0, D4) or custom (#,##0.00) format string.
+ */
+export function formatNumber(value: number, format: string): string {
+    const standard = /^([NnFfCcPpDd])(\d*)$/.exec(format || '');
+    if (standard) {
+        const specifier = standard[1].toUpperCase();
+        const precision = standard[2] === '' ? undefined : parseInt(standard[2], 10);
+        switch (specifier) {
+            case 'N': return formatFixed(value, precision ?? 2, true);
+            case 'F': return formatFixed(value, precision ?? 2, false);
+            case 'C': {
+                const formatted = formatFixed(Math.abs(value), precision ?? 2, true);
+                return value < 0 ? `(¤${formatted})` : `¤${formatted}`;
+            }
+            case 'P': return `${formatFixed(value * 100, precision ?? 2, true)} %`;
+            case 'D': {
+                const integer = Math.trunc(value);
+                return `${integer < 0 ? '-' : ''}${pad(integer, precision ?? 0)}`;
+            }
+        }
+    }
+
+    if (!format || !/[0#]/.test(format)) {
+        return String(value);
+    }
+    return formatCustomNumber(value, format);
+}
+
+function formatFixed(value: number, decimals: number, grouping: boolean): string {
+    const fixed = Math.abs(value).toFixed(decimals);
+    const [integer, fraction] = fixed.split('.');
+    const sign = value < 0 && Number(fixed) !== 0 ? '-' : '';
+    const integerPart = grouping ? groupThousands(integer) : integer;
+    return `${sign}${integerPart}${fraction !== undefined ? `.${fraction}` : ''}`;
+}
+
+function formatCustomNumber(value: number, format: string): string {
+    const first = format.search(/[0#]/);
+    let last = first;
+    for (let i = first; i < format.length; i++) {
+        if (/[0#.,]/.test(format[i])) {
+            last = i;
+        } else {
+            break;
+        }
+    }
+
+    const prefix = format.substring(0, first);
+    const suffix = format.substring(last + 1);
+    const pattern = format.substring(first, last + 1);
+    const [integerPattern, fractionPattern = ''] = pattern.split('.');
+
+    const minDecimals = (fractionPattern.match(/0/g) || []).length;
+    const maxDecimals = (fractionPattern.match(/[0#]/g) || []).length;
+    const minIntegerDigits = (integerPattern.match(/0/g) || []).length;
+    const grouping = integerPattern.includes(',');
+
+    let fixed = Math.abs(value).toFixed(maxDecimals);
+    let [integer, fraction = ''] = fixed.split('.');
+    while (fraction.length > minDecimals && fraction.endsWith('0')) {
+        fraction = fraction.slice(0, -1);
+    }
+    integer = integer.replace(/^0+/, '').padStart(minIntegerDigits, '0');
+    if (grouping) {
+        integer = groupThousands(integer);
+    }
+
+    const sign = value < 0 && Number(fixed) !== 0 ? '-' : '';
+    return `${sign}${prefix}${integer}${fraction ? `.${fraction}` : ''}${suffix}`;
+}
+
+/**
+ * Formats a date with strftime patterns as used by `date.to_string`.
+ */
+export function formatStrftime(date: Date, format: string): string {
+    return format.replace(/%([a-zA-Z%])/g, (match, code: string) => {
+        switch (code) {
+            case 'Y': return String(date.getUTCFullYear());
+            case 'y': return pad(date.getUTCFullYear() % 100, 2);
+            case 'm': return pad(date.getUTCMonth() + 1, 2);
+            case 'd': return pad(date.getUTCDate(), 2);
+            case 'e': return String(date.getUTCDate()).padStart(2, ' ');
+            case 'H': return pad(date.getUTCHours(), 2);
+            case 'I': return pad(date.getUTCHours() % 12 || 12, 2);
+            case 'M': return pad(date.getUTCMinutes(), 2);
+            case 'S': return pad(date.getUTCSeconds(), 2);
+            case 'L': return pad(date.getUTCMilliseconds(), 3);
+            case 'p': return date.getUTCHours() < 12 ? 'AM' : 'PM';
+            case 'b':
+            case 'h': return MONTH_NAMES[date.getUTCMonth()].substring(0, 3);
+            case 'B': return MONTH_NAMES[date.getUTCMonth()];
+            case 'a': return DAY_NAMES[date.getUTCDay()].substring(0, 3);
+            case 'A': return DAY_NAMES[date.getUTCDay()];
+            case 'j': {
+                const start = Date.UTC(date.getUTCFullYear(), 0, 1);
+                return pad(Math.floor((date.getTime() - start) / 86400000) + 1, 3);
+            }
+            case 'F': return `${date.getUTCFullYear()}-${pad(date.getUTCMonth() + 1, 2)}-${pad(date.getUTCDate(), 2)}`;
+            case 'D': return `${pad(date.getUTCMonth() + 1, 2)}/${pad(date.getUTCDate(), 2)}/${pad(date.getUTCFullYear() % 100, 2)}`;
+            case 'Z': return 'UTC';
+            case '%': return '%';
+            default: return match;
+        }
+    });
+}
+
+/**
+ * Formats a date with a .NET standard or custom format string as used by `date.format`.
+ */
+export function formatDotNetDate(date: Date, format: string): string {
+    const standard: { [key: string]: string } = {
+        d: 'MM/dd/yyyy',
+        D: 'dddd, dd MMMM yyyy',
+        f: 'dddd, dd MMMM yyyy HH:mm',
+        F: 'dddd, dd MMMM yyyy HH:mm:ss',
+        g: 'MM/dd/yyyy HH:mm',
+        G: 'MM/dd/yyyy HH:mm:ss',
+        M: 'MMMM dd',
+        m: 'MMMM dd',
+        s: "yyyy'-'MM'-'dd'T'HH':'mm':'ss",
+        t: 'HH:mm',
+        T: 'HH:mm:ss',
+        Y: 'yyyy MMMM',
+        y: 'yyyy MMMM'
+    };
+    const pattern = standard[format] || format || standard.G;
+
+    return pattern.replace(/'([^']*)'|"([^"]*)"|yyyy|yy|MMMM|MMM|MM|M|dddd|ddd|dd|d|HH|H|hh|h|mm|m|ss|s|fff|ff|f|tt|t|\\(.)/g,
+        (token: string, single?: string, double?: string, escaped?: string) => {
+            if (single !== undefined) {
+                return single;
+            }
+            if (double !== undefined) {
+                return double;
+            }
+            if (escaped !== undefined) {
+                return escaped;
+            }
+            switch (token) {
+                case 'yyyy': return String(date.getUTCFullYear());
+                case 'yy': return pad(date.getUTCFullYear() % 100, 2);
+                case 'MMMM': return MONTH_NAMES[date.getUTCMonth()];
+                case 'MMM': return MONTH_NAMES[date.getUTCMonth()].substring(0, 3);
+                case 'MM': return pad(date.getUTCMonth() + 1, 2);
+                case 'M': return String(date.getUTCMonth() + 1);
+                case 'dddd': return DAY_NAMES[date.getUTCDay()];
+                case 'ddd': return DAY_NAMES[date.getUTCDay()].substring(0, 3);
+                case 'dd': return pad(date.getUTCDate(), 2);
+                case 'd': return String(date.getUTCDate());
+                case 'HH': return pad(date.getUTCHours(), 2);
+                case 'H': return String(date.getUTCHours());
+                case 'hh': return pad(date.getUTCHours() % 12 || 12, 2);
+                case 'h': return String(date.getUTCHours() % 12 || 12);
+                case 'mm': return pad(date.getUTCMinutes(), 2);
+                case 'm': return String(date.getUTCMinutes());
+                case 'ss': return pad(date.getUTCSeconds(), 2);
+                case 's': return String(date.getUTCSeconds());
+                case 'fff': return pad(date.getUTCMilliseconds(), 3);
+                case 'ff': return pad(Math.floor(date.getUTCMilliseconds() / 10), 2);
+                case 'f': return String(Math.floor(date.getUTCMilliseconds() / 100));
+                case 'tt': return date.getUTCHours() < 12 ? 'AM' : 'PM';
+                case 't': return date.getUTCHours() < 12 ? 'A' : 'P';
+                default: return token;
+            }
+        });
+}
+
+function addToDate(apply: (date: Date, amount: number) => void) {
+    return (input: any, amount: any) => {
+        const date = toDate(input);
+        if (!date) {
+            return null;
+        }
+        const result = new Date(date.getTime());
+        apply(result, toNumber(amount));
+        return result;
+    };
+}
+
+function escapeRegex(text: string): string {
+    return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function regexFlags(options: any): string {
+    const text = toText(options);
+    let flags = 'g';
+    if (text.includes('i')) {
+        flags += 'i';
+    }
+    if (text.includes('m')) {
+        flags += 'm';
+    }
+    if (text.includes('s')) {
+        flags += 's';
+    }
+    return flags;
+}
+
+function compareValues(a: any, b: any): number {
+    if (typeof a === 'number' && typeof b === 'number') {
+        return a - b;
+    }
+    return toText(a).localeCompare(toText(b));
+}
+
+export function sizeOf(value: any): number {
+    if (value === null || value === undefined) {
+        return 0;
+    }
+    if (typeof value === 'string' || Array.isArray(value)) {
+        return value.length;
+    }
+    if (typeof value === 'object') {
+        return Object.keys(value).length;
+    }
+    return 0;
+}
+
+export const BUILTIN_IMPLEMENTATIONS: { [namespace: string]: { [name: string]: BuiltinImplementation } } = {
+    array: {
+        add: (list, value) => [...toList(list), value],
+        add_range: (list, other) => [...toList(list), ...toList(other)],
+        compact: (list) => toList(list).filter(item => item !== null && item !== undefined),
+        concat: (list, other) => [...toList(list), ...toList(other)],
+        contains: (list, item) => toList(list).some(value => value === item),
+        first: (list) => toList(list)[0] ?? null,
+        insert_at: (list, index, value) => {
+            const copy = [...toList(list)];
+            copy.splice(toNumber(index), 0, value);
+            return copy;
+        },
+        join: (list, delimiter) => toList(list).map(toText).join(toText(delimiter)),
+        last: (list) => {
+            const items = toList(list);
+            return items.length > 0 ? items[items.length - 1] : null;
+        },
+        limit: (list, count) => toList(list).slice(0, Math.max(0, toNumber(count))),
+        map: (list, member) => toList(list).map(item => item === null || item === undefined ? null : item[toText(member)] ?? null),
+        offset: (list, count) => toList(list).slice(Math.max(0, toNumber(count))),
+        remove_at: (list, index) => {
+            const copy = [...toList(list)];
+            const position = toNumber(index);
+            copy.splice(position < 0 ? copy.length + position : position, 1);
+            return copy;
+        },
+        reverse: (list) => [...toList(list)].reverse(),
+        size: (list) => sizeOf(list),
+        sort: (list, member) => {
+            const key = member === undefined ? undefined : toText(member);
+            return [...toList(list)].sort((a, b) => key
+                ? compareValues(a?.[key], b?.[key])
+                : compareValues(a, b));
+        },
+        uniq: (list) => Array.from(new Set(toList(list)))
+    },
+    date: {
+        now: () => new Date(),
+        add_days: addToDate((date, amount) => date.setUTCDate(date.getUTCDate() + amount)),
+        add_months: addToDate((date, amount) => date.setUTCMonth(date.getUTCMonth() + amount)),
+        add_years: addToDate((date, amount) => date.setUTCFullYear(date.getUTCFullYear() + amount)),
+        add_hours: addToDate((date, amount) => date.setTime(date.getTime() + amount * 3600000)),
+        add_minutes: addToDate((date, amount) => date.setTime(date.getTime() + amount * 60000)),
+        add_seconds: addToDate((date, amount) => date.setTime(date.getTime() + amount * 1000)),
+        parse: (text) => toDate(text),
+        to_string: (value, format) => {
+            const date = toDate(value);
+            return date ? formatStrftime(date, toText(format)) : null;
+        },
+        format: (value, format) => {
+            const date = toDate(value);
+            return date ? formatDotNetDate(date, toText(format)) : null;
+        }
+    },
+    html: {
+        escape: (text) => toText(text)
+            .replace(/&/g, '&amp;')
+            .replace(/</g, '&lt;')
+            .replace(/>/g, '&gt;')
+            .replace(/"/g, '&quot;')
+            .replace(/'/g, '&#39;'),
+        strip: (text) => toText(text).replace(/<[^>]*>/g, ''),
+        url_encode: (text) => encodeURIComponent(toText(text)),
+        url_escape: (text) => encodeURI(toText(text))
+    },
+    math: {
+        abs: (value) => Math.abs(toNumber(value)),
+        ceil: (value) => Math.ceil(toNumber(value)),
+        divided_by: (value, divisor) => {
+            const result = toNumber(value) / toNumber(divisor);
+            // Integer division when both operands are integers, as in Scriban
+            return Number.isInteger(toNumber(value)) && Number.isInteger(toNumber(divisor)) ? Math.trunc(result) : result;
+        },
+        floor: (value) => Math.floor(toNumber(value)),
+        format: (value, format) => formatNumber(toNumber(value), toText(format)),
+        is_number: (value) => typeof value === 'number',
+        minus: (value, other) => toNumber(value) - toNumber(other),
+        modulo: (value, other) => toNumber(value) % toNumber(other),
+        plus: (value, other) => toNumber(value) + toNumber(other),
+        round: (value, precision) => {
+            const factor = Math.pow(10, toNumber(precision));
+            return Math.round(toNumber(value) * factor) / factor;
+        },
+        times: (value, other) => toNumber(value) * toNumber(other)
+    },
+    object: {
+        default: (value, fallback) => value === null || value === undefined || value === '' ? fallback : value,
+        format: (value, format) => typeof value === 'number'
+            ? formatNumber(value, toText(format))
+            : value instanceof Date ? formatDotNetDate(value, toText(format)) : toText(value),
+        has_key: (value, key) => value !== null && typeof value === 'object' && toText(key) in value,
+        has_value: (value, key) => value !== null && typeof value === 'object' && value[toText(key)] !== null && value[toText(key)] !== undefined,
+        keys: (value) => value !== null && typeof value === 'object' ? Object.keys(value) : [],
+        size: (value) => sizeOf(value),
+        to_json: (value) => JSON.stringify(value ?? null),
+        typeof: (value) => {
+            if (value === null || value === undefined) {
+                return null;
+            }
+            if (Array.isArray(value)) {
+                return 'array';
+            }
+            if (value instanceof Date) {
+                return 'datetime';
+            }
+            return typeof value === 'number' ? 'number' : typeof value === 'string' ? 'string' : typeof value === 'boolean' ? 'boolean' : 'object';
+        },
+        values: (value) => value !== null && typeof value === 'object' ? Object.values(value) : []
+    },
+    regex: {
+        escape: (pattern) => escapeRegex(toText(pattern)),
+        match: (text, pattern, options) => {
+            const match = new RegExp(toText(pattern), regexFlags(options).replace('g', '')).exec(toText(text));
+            return match ? Array.from(match) : [];
+        },
+        replace: (text, pattern, replacement, options) =>
+            toText(text).replace(new RegExp(toText(pattern), regexFlags(options)), toText(replacement)),
+        split: (text, pattern, options) => toText(text).split(new RegExp(toText(pattern), regexFlags(options).replace('g', '')))
+    },
+    string: {
+        append: (text, other) => toText(text) + toText(other),
+        capitalize: (text) => {
+            const value = toText(text);
+            return value.charAt(0).toUpperCase() + value.slice(1);
+        },
+        capitalizewords: (text) => toText(text).replace(/\b\w/g, ch => ch.toUpperCase()),
+        contains: (text, value) => toText(text).includes(toText(value)),
+        downcase: (text) => toText(text).toLowerCase(),
+        empty: (text) => toText(text) === '',
+        ends_with: (text, value) => toText(text).endsWith(toText(value)),
+        handleize: (text) => toText(text).toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, ''),
+        lstrip: (text) => toText(text).replace(/^\s+/, ''),
+        pluralize: (count, singular, plural) => toNumber(count) === 1 ? toText(singular) : toText(plural),
+        prepend: (text, other) => toText(other) + toText(text),
+        remove: (text, value) => toText(text).split(toText(value)).join(''),
+        remove_first: (text, value) => toText(text).replace(toText(value), ''),
+        replace: (text, match, replacement) => toText(text).split(toText(match)).join(toText(replacement)),
+        replace_first: (text, match, replacement) => toText(text).replace(toText(match), () => toText(replacement)),
+        rstrip: (text) => toText(text).replace(/\s+$/, ''),
+        size: (text) => toText(text).length,
+        slice: (text, start, length) => {
+            const value = toText(text);
+            const from = toNumber(start) < 0 ? value.length + toNumber(start) : toNumber(start);
+            return length === undefined ? value.substring(from) : value.substr(from, toNumber(length));
+        },
+        split: (text, match) => toText(text).split(toText(match)),
+        starts_with: (text, value) => toText(text).startsWith(toText(value)),
+        strip: (text) => toText(text).trim(),
+        strip_newlines: (text) => toText(text).replace(/\r?\n/g, ''),
+        truncate: (text, length, ellipsis) => {
+            const value = toText(text);
+            const suffix = ellipsis === undefined ? '...' : toText(ellipsis);
+            const max = toNumber(length);
+            return value.length <= max ? value : value.substring(0, Math.max(0, max - suffix.length)) + suffix;
+        },
+        truncatewords: (text, count, ellipsis) => {
+            const words = toText(text).split(/\s+/).filter(word => word.length > 0);
+            const max = toNumber(count);
+            const suffix = ellipsis === undefined ? '...' : toText(ellipsis);
+            return words.length <= max ? words.join(' ') : words.slice(0, max).join(' ') + suffix;
+        },
+        upcase: (text) => toText(text).toUpperCase()
+    }
+};
@@ -0,0 +1,649 @@
+import {
+    CallExpression,
+    Expression,
+    ForStatement,
+    MemberExpression,
+    NamedArgument,
+    Node,
+    SourceRange,
+    Statement,
+    getMemberPath
+} from './ast';
+import { BUILTIN_NAMESPACES } from './builtins';
+import { BUILTIN_IMPLEMENTATIONS, BuiltinImplementation, toNumber, toText } from './functions';
+import { parseTemplate } from './parser';
+
+export class RenderError extends Error {
+    constructor(message: string, public readonly range?: SourceRange) {
+        super(range ? `Line ${range.start.line + 1}: ${message}` : message);
+        this.name = 'RenderError';
+    }
+}
+
+// Raised when a template uses Scriban features the local renderer does not implement
+export class UnsupportedFeatureError extends RenderError {
+    constructor(feature: string, range?: SourceRange) {
+        super(`${feature} is not supported by the local renderer. Render on the server instead.`, range);
+        this.name = 'UnsupportedFeatureError';
+    }
+}
+
+export interface RenderOptions {
+    // Maximum iterations for a single loop, matching Scriban's default LoopLimit
+    loopLimit?: number;
+    // Maximum nesting of script function calls, matching Scriban's default RecursiveLimit
+    recursiveLimit?: number;
+}
+
+interface ScriptFunction {
+    kind: 'scriptFunction';
+    name: string;
+    parameters: string[];
+    body: Statement[];
+}
+
+type Callable = BuiltinImplementation | ScriptFunction;
+
+// Control flow signals thrown through the statement walker
+class BreakSignal {}
+class ContinueSignal {}
+class ReturnSignal {
+    constructor(public readonly value: any) {}
+}
+
+class Scope {
+    private variables = new Map<string, any>();
+
+    // Function and `with` scopes own the variables assigned inside them; loop scopes do not
+    constructor(private parent?: Scope, private target?: any, private ownsAssignments = false) {}
+
+    has(name: string): boolean {
+        return this.variables.has(name) ||
+            (this.target !== undefined && Object.prototype.hasOwnProperty.call(this.target, name));
+    }
+
+    get(name: string): any {
+        if (this.has(name)) {
+            return this.variables.has(name) ? this.variables.get(name) : this.target[name];
+        }
+        return this.parent ? this.parent.get(name) : undefined;
+    }
+
+    // Assign to the nearest scope that already defines the name, else the enclosing function or global scope
+    set(name: string, value: any): void {
+        let scope: Scope | undefined = this;
+        let owner: Scope = this;
+        while (scope) {
+            if (scope.has(name)) {
+                scope.define(name, value);
+                return;
+            }
+            if (!scope.parent || scope.ownsAssignments) {
+                owner = scope;
+                break;
+            }
+            scope = scope.parent;
+        }
+        owner.define(name, value);
+    }
+
+    define(name: string, value: any): void {
+        if (this.target !== undefined) {
+            this.target[name] = value;
+        } else {
+            this.variables.set(name, value);
+        }
+    }
+}
+
+/**
+ * Renders a template in-process. Supports the common Scriban subset: text,
+ * expressions, pipes, if/else, for/while, case, capture, func and the
+ * builtins in functions.ts. Anything else raises UnsupportedFeatureError.
+ */
+export function renderTemplate(content: string, data: any, options: RenderOptions = {}): string {
+    const { template, errors } = parseTemplate(content);
+    if (errors.length > 0) {
+        throw new RenderError(errors[0].message, errors[0].range);
+    }
+
+    const interpreter = new Interpreter(data, options.loopLimit ?? 1000, options.recursiveLimit ?? 100);
+    return interpreter.render(template.body);
+}
+
+class Interpreter {
+    private output: string[] = [];
+    private scope: Scope;
+    private builtins: { [namespace: string]: { [name: string]: BuiltinImplementation } } = {};
+    private callDepth = 0;
+
+    constructor(data: any, private loopLimit: number, private recursiveLimit: number) {
+        // Namespaces without implementations are kept so their functions report as unsupported
+        for (const namespace of Object.keys(BUILTIN_NAMESPACES)) {
+            this.builtins[namespace] = BUILTIN_IMPLEMENTATIONS[namespace] || {};
+        }
+        this.scope = new Scope(undefined, data !== null && typeof data === 'object' && !Array.isArray(data) ? { ...data } : {});
+    }
+
+    render(body: Statement[]): string {
+        try {
+            this.executeBlock(body);
+        } catch (signal) {
+            if (signal instanceof ReturnSignal) {
+                this.write(signal.value);
+            } else if (signal instanceof BreakSignal || signal instanceof ContinueSignal) {
+                throw new RenderError('`break` and `continue` can only be used inside a loop');
+            } else {
+                throw signal;
+            }
+        }
+        return this.output.join('');
+    }
+
+    // Statements
+
+    private executeBlock(body: Statement[]): void {
+        for (const statement of body) {
+            this.execute(statement);
+        }
+    }
+
+    private execute(statement: Statement): void {
+        switch (statement.kind) {
+            case 'text':
+            case 'raw':
+                this.output.push(statement.value);
+                return;
+            case 'expression':
+                this.write(this.evaluate(statement.expression));
+                return;
+            case 'assign':
+                this.assign(statement.target, this.evaluate(statement.value));
+                return;
+            case 'if': {
+                if (isTruthy(this.evaluate(statement.condition))) {
+                    this.executeBlock(statement.body);
+                } else if (statement.elseIf) {
+                    this.execute(statement.elseIf);
+                } else if (statement.elseBody) {
+                    this.executeBlock(statement.elseBody);
+                }
+                return;
+            }
+            case 'for':
+                this.executeFor(statement);
+                return;
+            case 'while': {
+                let iterations = 0;
+                while (isTruthy(this.evaluate(statement.condition))) {
+                    this.checkLoopLimit(++iterations, statement.range);
+                    if (this.runLoopBody(statement.body) === 'break') {
+                        break;
+                    }
+                }
+                return;
+            }
+            case 'case': {
+                const value = this.evaluate(statement.value);
+                const match = statement.whens.find(when => when.values.some(candidate => isEqual(this.evaluate(candidate), value)));
+                if (match) {
+                    this.executeBlock(match.body);
+                } else if (statement.elseBody) {
+                    this.executeBlock(statement.elseBody);
+                }
+                return;
+            }
+            case 'capture': {
+                const captured = this.captureOutput(() => this.executeBlock(statement.body));
+                this.assign(statement.target, captured);
+                return;
+            }
+            case 'func': {
+                const fn: ScriptFunction = {
+                    kind: 'scriptFunction',
+                    name: statement.name.name,
+                    parameters: statement.parameters.map(parameter => parameter.name),
+                    body: statement.body
+                };
+                this.scope.set(fn.name, fn);
+                return;
+            }
+            case 'with': {
+                const target = this.evaluate(statement.target);
+                if (target === null || typeof target !== 'object') {
+                    throw new RenderError('`with` requires an object', statement.range);
+                }
+                const previous = this.scope;
+                this.scope = new Scope(previous, target, true);
+                try {
+                    this.executeBlock(statement.body);
+                } finally {
+                    this.scope = previous;
+                }
+                return;
+            }
+            case 'ret':
+                throw new ReturnSignal(statement.value ? this.evaluate(statement.value) : null);
+            case 'break':
+                throw new BreakSignal();
+            case 'continue':
+                throw new ContinueSignal();
+            case 'tablerow':
+                throw new UnsupportedFeatureError('`tablerow`', statement.range);
+            case 'wrap':
+                throw new UnsupportedFeatureError('`wrap`', statement.range);
+            case 'import':
+            case 'readonly':
+                throw new UnsupportedFeatureError(`\`${statement.kind}\``, statement.range);
+        }
+    }
+
+    private executeFor(statement: ForStatement): void {
+        let items = toIterable(this.evaluate(statement.iterable));
+        if (items === undefined) {
+            throw new RenderError('`for` can only iterate over arrays, objects and ranges', statement.iterable.range);
+        }
+
+        for (const param of statement.params) {
+            const value = param.value ? this.evaluate(param.value) : true;
+            switch (param.name) {
+                case 'offset': items = items.slice(toNumber(value)); break;
+                case 'limit': items = items.slice(0, toNumber(value)); break;
+                case 'reversed': items = [...items].reverse(); break;
+                default: throw new UnsupportedFeatureError(`Loop parameter \`${param.name}\``, param.range);
+            }
+        }
+
+        if (items.length === 0) {
+            if (statement.elseBody) {
+                this.executeBlock(statement.elseBody);
+            }
+            return;
+        }
+
+        const previous = this.scope;
+        this.scope = new Scope(previous);
+        try {
+            let last: any = undefined;
+            for (let index = 0; index < items.length; index++) {
+                this.checkLoopLimit(index + 1, statement.range);
+                const item = items[index];
+                this.scope.define(statement.variable.name, item);
+                this.scope.define('for', {
+                    index,
+                    rindex: items.length - index - 1,
+                    first: index === 0,
+                    last: index === items.length - 1,
+                    even: index % 2 === 0,
+                    odd: index % 2 === 1,
+                    length: items.length,
+                    changed: index === 0 || !isEqual(item, last)
+                });
+                last = item;
+                if (this.runLoopBody(statement.body) === 'break') {
+                    break;
+                }
+            }
+        } finally {
+            this.scope = previous;
+        }
+    }
+
+    private runLoopBody(body: Statement[]): 'break' | 'continue' | undefined {
+        try {
+            this.executeBlock(body);
+        } catch (signal) {
+            if (signal instanceof BreakSignal) {
+                return 'break';
+            }
+            if (signal instanceof ContinueSignal) {
+                return 'continue';
+            }
+            throw signal;
+        }
+        return undefined;
+    }
+
+    private checkLoopLimit(iterations: number, range: SourceRange): void {
+        if (iterations > this.loopLimit) {
+            throw new RenderError(`Exceeded the loop limit of ${this.loopLimit} iterations`, range);
+        }
+    }
+
+    private captureOutput(run: () => void): string {
+        const saved = this.output;
+        this.output = [];
+        try {
+            run();
+            return this.output.join('');
+        } finally {
+            this.output = saved;
+        }
+    }
+
+    private write(value: any): void {
+        if (isScriptFunction(value) || typeof value === 'function') {
+            return;
+        }
+        this.output.push(toText(value));
+    }
+
+    private assign(target: Expression, value: any): void {
+        switch (target.kind) {
+            case 'identifier':
+                this.scope.set(target.name, value);
+                return;
+            case 'member': {
+                const object = this.evaluate(target.object, false);
+                if (object === null || typeof object !== 'object') {
+                    throw new RenderError(`Cannot set '${target.property.name}' on a null value`, target.range);
+                }
+                object[target.property.name] = value;
+                return;
+            }
+            case 'index': {
+                const object = this.evaluate(target.object, false);
+                if (object === null || typeof object !== 'object') {
+                    throw new RenderError('Cannot index into a null value', target.range);
+                }
+                object[toText(this.evaluate(target.index))] = value;
+                return;
+            }
+            default:
+                throw new RenderError('Invalid assignment target', target.range);
+        }
+    }
+
+    // Expressions
+
+    // Functions referenced without arguments are invoked unless `autoCall` is false
+    private evaluate(expression: Expression, autoCall = true): any {
+        switch (expression.kind) {
+            case 'literal':
+                return expression.value;
+            case 'identifier': {
+                const value = this.lookup(expression.name, expression);
+                return autoCall && isCallable(value) ? this.invoke(value, [], expression) : value;
+            }
+            case 'member': {
+                const value = this.evaluateMember(expression);
+                return autoCall && isCallable(value) ? this.invoke(value, [], expression) : value;
+            }
+            case 'index': {
+                const object = this.evaluate(expression.object);
+                const index = this.evaluate(expression.index);
+                if (object === null || object === undefined) {
+                    return null;
+                }
+                if (Array.isArray(object) || typeof object === 'string') {
+                    const position = toNumber(index);
+                    return object[position < 0 ? object.length + position : position] ?? null;
+                }
+                return object[toText(index)] ?? null;
+            }
+            case 'call':
+                return this.evaluateCall(expression, []);
+            case 'pipe': {
+                const input = this.evaluate(expression.input);
+                if (expression.call.kind === 'call') {
+                    return this.evaluateCall(expression.call, [input]);
+                }
+                const callee = this.evaluate(expression.call, false);
+                if (!isCallable(callee)) {
+                    throw new RenderError('The right side of a pipe must be a function', expression.call.range);
+                }
+                return this.invoke(callee, [input], expression.call);
+            }
+            case 'binary':
+                return this.evaluateBinary(expression.operator, expression.left, expression.right, expression);
+            case 'unary': {
+                if (expression.operator === '@') {
+                    return this.evaluate(expression.operand, false);
+                }
+                const operand = this.evaluate(expression.operand);
+                switch (expression.operator) {
+                    case '!':
+                    case 'not': return !isTruthy(operand);
+                    case '-': return -toNumber(operand);
+                    case '+': return toNumber(operand);
+                    default: throw new UnsupportedFeatureError(`Operator \`${expression.operator}\``, expression.range);
+                }
+            }
+            case 'conditional':
+                return isTruthy(this.evaluate(expression.test))
+                    ? this.evaluate(expression.consequent)
+                    : this.evaluate(expression.alternate);
+            case 'array':
+                return expression.elements.map(element => this.evaluate(element));
+            case 'object': {
+                const result: { [key: string]: any } = {};
+                for (const property of expression.properties) {
+                    result[property.key] = this.evaluate(property.value);
+                }
+                return result;
+            }
+            case 'error':
+                throw new RenderError('Invalid expression', expression.range);
+        }
+    }
+
+    private lookup(name: string, node: Node): any {
+        const value = this.scope.get(name);
+        if (value !== undefined) {
+            return value;
+        }
+        if (name === 'include') {
+            throw new UnsupportedFeatureError('`include`', node.range);
+        }
+        if (Object.prototype.hasOwnProperty.call(this.builtins, name)) {
+            return this.builtins[name];
+        }
+        return null;
+    }
+
+    private evaluateMember(expression: MemberExpression): any {
+        const object = this.evaluate(expression.object, false);
+        const name = expression.property.name;
+
+        // Unknown members of builtin namespaces are functions we have not implemented
+        if (Object.values(this.builtins).includes(object)) {
+            if (!Object.prototype.hasOwnProperty.call(object, name)) {
+                const namespace = Object.keys(this.builtins).find(key => this.builtins[key] === object);
+                throw new UnsupportedFeatureError(`Function \`${namespace}.${name}\``, expression.range);
+            }
+            return object[name];
+        }
+
+        if (object === null || object === undefined) {
+            return null;
+        }
+        if (name === 'size' && (Array.isArray(object) || typeof object === 'string')) {
+            return object.length;
+        }
+        if (typeof object !== 'object') {
+            return null;
+        }
+        return Object.prototype.hasOwnProperty.call(object, name) ? object[name] : null;
+    }
+
+    private evaluateCall(call: CallExpression, leadingArgs: any[]): any {
+        const callee = this.evaluate(call.callee, false);
+        if (!isCallable(callee)) {
+            const path = getMemberPath(call.callee);
+            throw new RenderError(`\`${path ? path.join('.') : 'expression'}\` is not a function`, call.callee.range);
+        }
+
+        const args = [...leadingArgs];
+        for (const arg of call.args) {
+            if (arg.kind === 'namedArgument') {
+                throw new UnsupportedFeatureError(`Named argument \`${(arg as NamedArgument).name}\``, arg.range);
+            }
+            args.push(this.evaluate(arg));
+        }
+        return this.invoke(callee, args, call);
+    }
+
+    private invoke(callee: Callable, args: any[], node: Node): any {
+        if (typeof callee === 'function') {
+            try {
+                return normalize(callee(...args));
+            } catch (error) {
+                if (error instanceof RenderError) {
+                    throw error;
+                }
+                throw new RenderError(error instanceof Error ? error.message : String(error), node.range);
+            }
+        }
+
+        if (this.callDepth >= this.recursiveLimit) {
+            throw new RenderError(`Exceeded the recursion limit of ${this.recursiveLimit} nested function calls`, node.range);
+        }
+
+        // Script functions run in their own scope with named parameters and $0, $1, ...
+        const previous = this.scope;
+        this.callDepth++;
+        this.scope = new Scope(previous, undefined, true);
+        this.scope.define('$', args);
+        args.forEach((arg, index) => this.scope.define(`$${index}`, arg));
+        callee.parameters.forEach((name, index) => this.scope.define(name, args[index] ?? null));
+
+        try {
+            this.executeBlock(callee.body);
+            return null;
+        } catch (signal) {
+            if (signal instanceof ReturnSignal) {
+                return signal.value;
+            }
+            throw signal;
+        } finally {
+            this.scope = previous;
+            this.callDepth--;
+        }
+    }
+
+    private evaluateBinary(operator: string, leftNode: Expression, rightNode: Expression, node: Node): any {
+        // Short-circuiting operators
+        if (operator === '&&' || operator === 'and') {
+            return isTruthy(this.evaluate(leftNode)) && isTruthy(this.evaluate(rightNode));
+        }
+        if (operator === '||' || operator === 'or') {
+            return isTruthy(this.evaluate(leftNode)) || isTruthy(this.evaluate(rightNode));
+        }
+        if (operator === '??') {
+            const value = this.evaluate(leftNode);
+            return value === null || value === undefined ? this.evaluate(rightNode) : value;
+        }
+
+        const left = this.evaluate(leftNode);
+        const right = this.evaluate(rightNode);
+
+        switch (operator) {
+            case '+':
+                if (typeof left === 'string' || typeof right === 'string') {
+                    return toText(left) + toText(right);
+                }
+                if (Array.isArray(left) && Array.isArray(right)) {
+                    return [...left, ...right];
+                }
+                return toNumber(left) + toNumber(right);
+            case '-': return toNumber(left) - toNumber(right);
+            case '*': return toNumber(left) * toNumber(right);
+            case '/': {
+                if (toNumber(right) === 0) {
+                    throw new RenderError('Division by zero', node.range);
+                }
+                return toNumber(left) / toNumber(right);
+            }
+            case '//': {
+                if (toNumber(right) === 0) {
+                    throw new RenderError('Division by zero', node.range);
+                }
+                return Math.floor(toNumber(left) / toNumber(right));
+            }
+            case '%': return toNumber(left) % toNumber(right);
+            case '==': return isEqual(left, right);
+            case '!=': return !isEqual(left, right);
+            case '<': return compare(left, right) < 0;
+            case '>': return compare(left, right) > 0;
+            case '<=': return compare(left, right) <= 0;
+            case '>=': return compare(left, right) >= 0;
+            case '..':
+            case '..<': {
+                const start = toNumber(left);
+                const end = operator === '..' ? toNumber(right) : toNumber(right) - 1;
+                const step = start <= end ? 1 : -1;
+                const result: number[] = [];
+                for (let i = start; step > 0 ? i <= end : i >= end; i += step) {
+                    this.checkLoopLimit(result.length + 1, node.range);
+                    result.push(i);
+                }
+                return result;
+            }
+            default:
+                throw new UnsupportedFeatureError(`Operator \`${operator}\``, node.range);
+        }
+    }
+}
+
+function isScriptFunction(value: any): value is ScriptFunction {
+    return value !== null && typeof value === 'object' && value.kind === 'scriptFunction';
+}
+
+function isCallable(value: any): value is Callable {
+    return typeof value === 'function' || isScriptFunction(value);
+}
+
+// Builtins may return undefined; the template language only knows null
+function normalize(value: any): any {
+    return value === undefined ? null : value;
+}
+
+function isTruthy(value: any): boolean {
+    if (value === null || value === undefined || value === false) {
+        return false;
+    }
+    if (typeof value === 'number') {
+        return value !== 0;
+    }
+    if (typeof value === 'string') {
+        return value.length > 0;
+    }
+    return true;
+}
+
+function isEqual(a: any, b: any): boolean {
+    if (a instanceof Date && b instanceof Date) {
+        return a.getTime() === b.getTime();
+    }
+    if (typeof a === 'number' || typeof b === 'number') {
+        if (a === null || b === null || a === undefined || b === undefined) {
+            return false;
+        }
+        return toNumber(a) === toNumber(b);
+    }
+    return (a ?? null) === (b ?? null);
+}
+
+function compare(a: any, b: any): number {
+    if (a instanceof Date && b instanceof Date) {
+        return a.getTime() - b.getTime();
+    }
+    if (typeof a === 'string' && typeof b === 'string') {
+        return a < b ? -1 : a > b ? 1 : 0;
+    }
+    return toNumber(a) - toNumber(b);
+}
+
+function toIterable(value: any): any[] | undefined {
+    if (value === null || value === undefined) {
+        return [];
+    }
+    if (Array.isArray(value)) {
+        return value;
+    }
+    if (typeof value === 'object' && !(value instanceof Date)) {
+        // Iterating an object yields its values, as Scriban does for dictionaries
+        return Object.values(value);
+    }
+    return undefined;
+}
@@ -0,0 +1,370 @@
+import { ParseError, Position, SourceRange } from './ast';
+
+export type TokenType =
+    | 'text'        // literal template text outside of code blocks
+    | 'raw'         // content of an escape block {%{ ... }%}
+    | 'codeEnter'   // {{
+    | 'codeExit'    // }}
+    | 'newline'     // statement separator inside code
+    | 'identifier'
+    | 'number'
+    | 'string'
+    | 'punctuation'
+    | 'eof';
+
+export interface Token {
+    type: TokenType;
+    // For text tokens this is the text after whitespace control has been applied
+    value: string;
+    range: SourceRange;
+}
+
+const OPERATORS = [
+    '..<', '...', '?.', '??', '==', '!=', '<=', '>=', '&&', '||', '//', '<<', '>>', '..',
+    '+', '-', '*', '/', '%', '<', '>', '!', '=', '|', '.', ',', ':', ';', '(', ')', '[', ']', '{', '}', '?', '@', '^', '&'
+];
+
+/**
+ * Converts offsets into line/character positions.
+ */
+export class LineMap {
+    private lineStarts: number[] = [0];
+
+    constructor(text: string) {
+        for (let i = 0; i < text.length; i++) {
+            if (text.charCodeAt(i) === 10) {
+                this.lineStarts.push(i + 1);
+            }
+        }
+    }
+
+    positionAt(offset: number): Position {
+        let low = 0;
+        let high = this.lineStarts.length - 1;
+        while (low < high) {
+            const mid = (low + high + 1) >> 1;
+            if (this.lineStarts[mid] <= offset) {
+                low = mid;
+            } else {
+                high = mid - 1;
+            }
+        }
+        return { offset, line: low, character: offset - this.lineStarts[low] };
+    }
+
+    rangeAt(start: number, end: number): SourceRange {
+        return { start: this.positionAt(start), end: this.positionAt(end) };
+    }
+}
+
+/**
+ * Splits a Scriban template into text, escape blocks and code tokens.
+ * Whitespace control markers ({{- -}} {{~ ~}}) are applied to the adjacent text tokens.
+ */
+export class Lexer {
+    private pos = 0;
+    private tokens: Token[] = [];
+    readonly errors: ParseError[] = [];
+    readonly lines: LineMap;
+
+    constructor(private text: string) {
+        this.lines = new LineMap(text);
+    }
+
+    tokenize(): Token[] {
+        while (this.pos < this.text.length) {
+            this.lexText();
+            if (this.pos < this.text.length) {
+                if (this.text[this.pos + 1] === '%') {
+                    this.lexEscapeBlock();
+                } else {
+                    this.lexCode();
+                }
+            }
+        }
+        this.push('eof', '', this.text.length, this.text.length);
+        return this.tokens;
+    }
+
+    private push(type: TokenType, value: string, start: number, end: number): Token {
+        const token = { type, value, range: this.lines.rangeAt(start, end) };
+        this.tokens.push(token);
+        return token;
+    }
+
+    private error(message: string, start: number, end: number): void {
+        this.errors.push({ message, range: this.lines.rangeAt(start, end) });
+    }
+
+    // Consume text up to the next {{ or {%{ opener
+    private lexText(): void {
+        const start = this.pos;
+        let index = start;
+        while (index < this.text.length) {
+            const next = this.text.indexOf('{', index);
+            if (next === -1) {
+                index = this.text.length;
+                break;
+            }
+            if (this.text[next + 1] === '{' || this.isEscapeOpener(next)) {
+                index = next;
+                break;
+            }
+            index = next + 1;
+        }
+
+        if (index > start) {
+            this.push('text', this.text.substring(start, index), start, index);
+        }
+        this.pos = index;
+    }
+
+    private isEscapeOpener(offset: number): boolean {
+        let i = offset + 1;
+        if (this.text[i] !== '%') {
+            return false;
+        }
+        while (this.text[i] === '%') {
+            i++;
+        }
+        return this.text[i] === '{';
+    }
+
+    private lexEscapeBlock(): void {
+        const start = this.pos;
+        let i = start + 1;
+        while (this.text[i] === '%') {
+            i++;
+        }
+        const percents = this.text.substring(start + 1, i);
+        const closer = `}${percents}}`;
+        const contentStart = i + 1;
+        const close = this.text.indexOf(closer, contentStart);
+
+        if (close === -1) {
+            this.error(`Missing closing '${closer}' for escape block`, start, contentStart);
+            this.push('raw', this.text.substring(contentStart), start, this.text.length);
+            this.pos = this.text.length;
+            return;
+        }
+
+        this.push('raw', this.text.substring(contentStart, close), start, close + closer.length);
+        this.pos = close + closer.length;
+    }
+
+    private lexCode(): void {
+        const enterStart = this.pos;
+        let enterEnd = enterStart + 2;
+        const marker = this.text[enterEnd];
+        if (marker === '-' || marker === '~') {
+            enterEnd++;
+            this.trimPreviousText(marker);
+        }
+        this.push('codeEnter', this.text.substring(enterStart, enterEnd), enterStart, enterEnd);
+        this.pos = enterEnd;
+
+        let braceDepth = 0;
+        while (this.pos < this.text.length) {
+            const ch = this.text[this.pos];
+
+            if (braceDepth === 0 && this.isCodeExit()) {
+                this.lexCodeExit();
+                return;
+            }
+
+            if (ch === ' ' || ch === '\t' || ch === '\r') {
+                this.pos++;
+            } else if (ch === '\n') {
+                this.push('newline', '\n', this.pos, this.pos + 1);
+                this.pos++;
+            } else if (ch === '#') {
+                this.skipComment();
+            } else if (ch === '"' || ch === '\'' || ch === '`') {
+                this.lexString(ch);
+            } else if (isDigit(ch)) {
+                this.lexNumber();
+            } else if (isIdentifierStart(ch)) {
+                this.lexIdentifier();
+            } else {
+                const operator = OPERATORS.find(op => this.text.startsWith(op, this.pos));
+                if (!operator) {
+                    this.error(`Unexpected character '${ch}'`, this.pos, this.pos + 1);
+                    this.pos++;
+                    continue;
+                }
+                if (operator === '{') {
+                    braceDepth++;
+                } else if (operator === '}') {
+                    braceDepth--;
+                }
+                this.push(operator === ';' ? 'newline' : 'punctuation', operator, this.pos, this.pos + operator.length);
+                this.pos += operator.length;
+            }
+        }
+
+        this.error("Missing closing '}}' for code block", enterStart, enterEnd);
+    }
+
+    private isCodeExit(): boolean {
+        const ch = this.text[this.pos];
+        if (ch === '}') {
+            return this.text[this.pos + 1] === '}';
+        }
+        return (ch === '-' || ch === '~') && this.text.startsWith('}}', this.pos + 1);
+    }
+
+    private lexCodeExit(): void {
+        const start = this.pos;
+        const marker = this.text[start];
+        const end = marker === '}' ? start + 2 : start + 3;
+        this.push('codeExit', this.text.substring(start, end), start, end);
+        this.pos = end;
+
+        if (marker === '-' || marker === '~') {
+            this.trimNextText(marker);
+        }
+    }
+
+    // {{- removes all whitespace before the block, {{~ only spaces and tabs on the same line
+    private trimPreviousText(marker: string): void {
+        const previous = this.tokens[this.tokens.length - 1];
+        if (!previous || previous.type !== 'text') {
+            return;
+        }
+        previous.value = marker === '-'
+            ? previous.value.replace(/\s+$/, '')
+            : previous.value.replace(/[ \t]+$/, '');
+    }
+
+    // -}} removes all whitespace after the block, ~}} spaces, tabs and the first newline
+    private trimNextText(marker: string): void {
+        let end = this.pos;
+        if (marker === '-') {
+            while (end < this.text.length && /\s/.test(this.text[end])) {
+                end++;
+            }
+        } else {
+            while (end < this.text.length && (this.text[end] === ' ' || this.text[end] === '\t')) {
+                end++;
+            }
+            if (this.text[end] === '\r') {
+                end++;
+            }
+            if (this.text[end] === '\n') {
+                end++;
+            }
+        }
+        this.pos = end;
+    }
+
+    private skipComment(): void {
+        const start = this.pos;
+        if (this.text.startsWith('##', start)) {
+            const close = this.text.indexOf('##', start + 2);
+            const exit = this.text.indexOf('}}', start + 2);
+            if (close !== -1 && (exit === -1 || close < exit)) {
+                this.pos = close + 2;
+                return;
+            }
+            this.pos = exit === -1 ? this.text.length : exit;
+            return;
+        }
+
+        // Single line comments stop at the end of the line or the end of the code block
+        let i = start + 1;
+        while (i < this.text.length && this.text[i] !== '\n' && !this.text.startsWith('}}', i)) {
+            i++;
+        }
+        if ((this.text[i - 1] === '-' || this.text[i - 1] === '~') && this.text.startsWith('}}', i)) {
+            i--;
+        }
+        this.pos = i;
+    }
+
+    private lexString(quote: string): void {
+        const start = this.pos;
+        let i = start + 1;
+        let value = '';
+
+        while (i < this.text.length && this.text[i] !== quote) {
+            const ch = this.text[i];
+            if (ch === '\\' && quote !== '`' && i + 1 < this.text.length) {
+                value += unescape(this.text[i + 1]);
+                i += 2;
+                continue;
+            }
+            if (ch === '\n' && quote !== '`') {
+                break;
+            }
+            value += ch;
+            i++;
+        }
+
+        if (this.text[i] !== quote) {
+            this.error('Unterminated string literal', start, i);
+            this.push('string', value, start, i);
+            this.pos = i;
+            return;
+        }
+
+        this.push('string', value, start, i + 1);
+        this.pos = i + 1;
+    }
+
+    private lexNumber(): void {
+        const start = this.pos;
+        let i = start;
+        while (isDigit(this.text[i]) || this.text[i] === '_') {
+            i++;
+        }
+        // A single dot followed by a digit is a decimal point; `1..5` is a range
+        if (this.text[i] === '.' && isDigit(this.text[i + 1])) {
+            i++;
+            while (isDigit(this.text[i])) {
+                i++;
+            }
+        }
+        if ((this.text[i] === 'e' || this.text[i] === 'E') && /[0-9+-]/.test(this.text[i + 1] || '')) {
+            i += 2;
+            while (isDigit(this.text[i])) {
+                i++;
+            }
+        }
+        this.push('number', this.text.substring(start, i), start, i);
+        this.pos = i;
+    }
+
+    private lexIdentifier(): void {
+        const start = this.pos;
+        let i = start + 1;
+        while (i < this.text.length && isIdentifierPart(this.text[i])) {
+            i++;
+        }
+        this.push('identifier', this.text.substring(start, i), start, i);
+        this.pos = i;
+    }
+}
+
+function unescape(ch: string): string {
+    switch (ch) {
+        case 'n': return '\n';
+        case 'r': return '\r';
+        case 't': return '\t';
+        case '0': return '\0';
+        case 'b': return '\b';
+        case 'f': return '\f';
+        default: return ch;
+    }
+}
+
+function isDigit(ch: string | undefined): boolean {
+    return ch !== undefined && ch >= '0' && ch <= '9';
+}
+
+function isIdentifierStart(ch: string): boolean {
+    return /[A-Za-z_$]/.test(ch);
+}
+
+function isIdentifierPart(ch: string): boolean {
+    return /[A-Za-z0-9_]/.test(ch);
+}
@@ -0,0 +1,783 @@
+import {
+    Expression,
+    ForStatement,
+    Identifier,
+    IfStatement,
+    NamedArgument,
+    ParseError,
+    Position,
+    SourceRange,
+    Statement,
+    TemplateNode,
+    WhenClause
+} from './ast';
+import { Lexer, Token } from './lexer';
+
+export interface ParseResult {
+    template: TemplateNode;
+    errors: ParseError[];
+}
+
+// Keywords that open a block closed by `end`
+const BLOCK_KEYWORDS = ['if', 'for', 'tablerow', 'while', 'case', 'capture', 'func', 'with', 'wrap'];
+
+// Keywords that can only appear inside a block
+const CONTINUATION_KEYWORDS = ['else', 'end', 'when'];
+
+const BINARY_PRECEDENCE: { [operator: string]: number } = {
+    '??': 1,
+    '||': 2, 'or': 2,
+    '&&': 3, 'and': 3,
+    '==': 4, '!=': 4,
+    '<': 5, '>': 5, '<=': 5, '>=': 5,
+    '..': 6, '..<': 6,
+    '+': 7, '-': 7,
+    '*': 8, '/': 8, '//': 8, '%': 8
+};
+
+export function parseTemplate(text: string): ParseResult {
+    const lexer = new Lexer(text);
+    const tokens = lexer.tokenize();
+    const parser = new Parser(tokens);
+    const template = parser.parseTemplate();
+    const errors = [...lexer.errors, ...parser.errors]
+        .sort((a, b) => a.range.start.offset - b.range.start.offset);
+    return { template, errors };
+}
+
+/**
+ * Recursive descent parser over the lexer's token stream. Code blocks and
+ * text interleave freely, so `{{ if x }}text{{ end }}` is a single statement.
+ * Errors are collected rather than thrown and parsing resumes at the next
+ * statement boundary.
+ */
+class Parser {
+    private index = 0;
+    readonly errors: ParseError[] = [];
+
+    constructor(private tokens: Token[]) {}
+
+    parseTemplate(): TemplateNode {
+        const start = this.peek().range.start;
+        const body: Statement[] = [];
+
+        while (!this.isAtEnd()) {
+            if (this.skipSeparators()) {
+                continue;
+            }
+            const token = this.peek();
+            if (this.isKeyword(token, CONTINUATION_KEYWORDS)) {
+                this.error(`Unexpected '${token.value}' without a matching block`, token.range);
+                this.advance();
+                this.skipToStatementEnd();
+                continue;
+            }
+            const statement = this.parseStatement();
+            if (statement) {
+                body.push(statement);
+            }
+        }
+
+        return { kind: 'template', body, range: { start, end: this.peek().range.end } };
+    }
+
+    // Statements
+
+    private parseBlock(opener: Token, terminators: string[]): { body: Statement[]; terminator?: Token } {
+        const body: Statement[] = [];
+
+        while (!this.isAtEnd()) {
+            if (this.skipSeparators()) {
+                continue;
+            }
+            const token = this.peek();
+            if (this.isKeyword(token, terminators)) {
+                return { body, terminator: token };
+            }
+            if (this.isKeyword(token, CONTINUATION_KEYWORDS)) {
+                this.error(`Unexpected '${token.value}' inside '${opener.value}' block`, token.range);
+                this.advance();
+                this.skipToStatementEnd();
+                continue;
+            }
+            const statement = this.parseStatement();
+            if (statement) {
+                body.push(statement);
+            }
+        }
+
+        this.error(`Missing 'end' for '${opener.value}' block`, opener.range);
+        return { body };
+    }
+
+    private parseStatement(): Statement | undefined {
+        const token = this.peek();
+
+        if (token.type === 'text' || token.type === 'raw') {
+            this.advance();
+            return { kind: token.type, value: token.value, range: token.range };
+        }
+
+        // `for.index` and friends are loop variables, not the start of a loop
+        if (token.type === 'identifier' && !this.isPunctuation(this.peek(1), '.')) {
+            switch (token.value) {
+                case 'if': return this.parseIf();
+                case 'for':
+                case 'tablerow': return this.parseFor();
+                case 'while': return this.parseWhile();
+                case 'case': return this.parseCase();
+                case 'capture':
+                case 'with': return this.parseTargetBlock(token.value);
+                case 'wrap': return this.parseWrap();
+                case 'func': return this.parseFunc();
+                case 'ret': return this.parseReturn();
+                case 'break':
+                case 'continue': {
+                    this.advance();
+                    this.expectStatementEnd();
+                    return { kind: token.value, range: token.range };
+                }
+                case 'import':
+                case 'readonly': {
+                    this.advance();
+                    const target = this.parsePipeline();
+                    this.expectStatementEnd();
+                    return { kind: token.value, target, range: this.rangeFrom(token.range.start, target.range.end) };
+                }
+            }
+        }
+
+        return this.parseExpressionStatement();
+    }
+
+    private parseExpressionStatement(): Statement {
+        const expression = this.parsePipeline();
+
+        if (this.isPunctuation(this.peek(), '=')) {
+            this.advance();
+            if (expression.kind !== 'identifier' && expression.kind !== 'member' && expression.kind !== 'index') {
+                this.error('Invalid assignment target', expression.range);
+            }
+            const value = this.parsePipeline();
+            this.expectStatementEnd();
+            return {
+                kind: 'assign',
+                target: expression,
+                value,
+                range: this.rangeFrom(expression.range.start, value.range.end)
+            };
+        }
+
+        this.expectStatementEnd();
+        return { kind: 'expression', expression, range: expression.range };
+    }
+
+    private parseIf(): IfStatement {
+        const keyword = this.advance();
+        const condition = this.parsePipeline();
+        this.expectStatementEnd();
+
+        const { body, terminator } = this.parseBlock(keyword, ['else', 'end']);
+        const statement: IfStatement = {
+            kind: 'if',
+            condition,
+            body,
+            range: this.rangeFrom(keyword.range.start, this.previous().range.end)
+        };
+
+        if (terminator && terminator.value === 'else') {
+            this.advance();
+            const next = this.peek();
+            if (next.type === 'identifier' && next.value === 'if') {
+                // `else if` shares the closing `end` of the outer if
+                statement.elseIf = this.parseIf();
+                statement.range = this.rangeFrom(keyword.range.start, statement.elseIf.range.end);
+                return statement;
+            }
+            this.expectStatementEnd();
+            const elseBlock = this.parseBlock(keyword, ['end']);
+            statement.elseBody = elseBlock.body;
+            if (elseBlock.terminator) {
+                this.consumeEnd();
+            }
+        } else if (terminator) {
+            this.consumeEnd();
+        }
+
+        statement.range = this.rangeFrom(keyword.range.start, this.previous().range.end);
+        return statement;
+    }
+
+    private parseFor(): ForStatement {
+        const keyword = this.advance();
+        const variable = this.parseIdentifier();
+
+        const inToken = this.peek();
+        if (inToken.type === 'identifier' && inToken.value === 'in') {
+            this.advance();
+        } else {
+            this.error(`Expected 'in' after loop variable`, inToken.range);
+        }
+
+        const iterable = this.parseExpression();
+        const params: NamedArgument[] = [];
+        while (this.peek().type === 'identifier' && !this.isStatementEnd(this.peek())) {
+            params.push(this.parseNamedArgument());
+        }
+        this.expectStatementEnd();
+
+        const { body, terminator } = this.parseBlock(keyword, ['else', 'end']);
+        const statement: ForStatement = {
+            kind: keyword.value as 'for' | 'tablerow',
+            variable,
+            iterable,
+            params,
+            body,
+            range: keyword.range
+        };
+
+        if (terminator && terminator.value === 'else') {
+            this.advance();
+            this.expectStatementEnd();
+            const elseBlock = this.parseBlock(keyword, ['end']);
+            statement.elseBody = elseBlock.body;
+            if (elseBlock.terminator) {
+                this.consumeEnd();
+            }
+        } else if (terminator) {
+            this.consumeEnd();
+        }
+
+        statement.range = this.rangeFrom(keyword.range.start, this.previous().range.end);
+        return statement;
+    }
+
+    private parseWhile(): Statement {
+        const keyword = this.advance();
+        const condition = this.parsePipeline();
+        this.expectStatementEnd();
+        const body = this.parseEndedBlock(keyword);
+        return { kind: 'while', condition, body, range: this.rangeFrom(keyword.range.start, this.previous().range.end) };
+    }
+
+    private parseCase(): Statement {
+        const keyword = this.advance();
+        const value = this.parsePipeline();
+        this.expectStatementEnd();
+
+        const whens: WhenClause[] = [];
+        let elseBody: Statement[] | undefined;
+
+        // Only whitespace text may appear before the first `when`
+        while (!this.isAtEnd()) {
+            const token = this.peek();
+            if (this.skipSeparators()) {
+                continue;
+            }
+            if (token.type === 'text' && token.value.trim() === '') {
+                this.advance();
+                continue;
+            }
+            break;
+        }
+
+        while (!this.isAtEnd()) {
+            const token = this.peek();
+            if (this.isKeyword(token, ['when'])) {
+                this.advance();
+                const values: Expression[] = [this.parseExpression()];
+                while (this.isPunctuation(this.peek(), ',') || this.isPunctuation(this.peek(), '||') ||
+                    (this.peek().type === 'identifier' && this.peek().value === 'or')) {
+                    this.advance();
+                    values.push(this.parseExpression());
+                }
+                this.expectStatementEnd();
+                const block = this.parseBlock(keyword, ['when', 'else', 'end']);
+                whens.push({
+                    kind: 'when',
+                    values,
+                    body: block.body,
+                    range: this.rangeFrom(token.range.start, this.previous().range.end)
+                });
+                if (!block.terminator) {
+                    break;
+                }
+            } else if (this.isKeyword(token, ['else'])) {
+                this.advance();
+                this.expectStatementEnd();
+                const block = this.parseBlock(keyword, ['end']);
+                elseBody = block.body;
+                if (block.terminator) {
+                    this.consumeEnd();
+                }
+                break;
+            } else if (this.isKeyword(token, ['end'])) {
+                this.consumeEnd();
+                break;
+            } else {
+                this.error(`Expected 'when' inside 'case' block`, token.range);
+                this.parseBlock(keyword, ['when', 'else', 'end']);
+            }
+        }
+
+        return { kind: 'case', value, whens, elseBody, range: this.rangeFrom(keyword.range.start, this.previous().range.end) };
+    }
+
+    private parseTargetBlock(kind: 'capture' | 'with'): Statement {
+        const keyword = this.advance();
+        const target = this.parsePostfix();
+        this.expectStatementEnd();
+        const body = this.parseEndedBlock(keyword);
+        return { kind, target, body, range: this.rangeFrom(keyword.range.start, this.previous().range.end) };
+    }
+
+    private parseWrap(): Statement {
+        const keyword = this.advance();
+        const target = this.parsePipeline();
+        this.expectStatementEnd();
+        const body = this.parseEndedBlock(keyword);
+        return { kind: 'wrap', target, body, range: this.rangeFrom(keyword.range.start, this.previous().range.end) };
+    }
+
+    private parseFunc(): Statement {
+        const keyword = this.advance();
+        const name = this.parseIdentifier();
+        const parameters: Identifier[] = [];
+
+        if (this.isPunctuation(this.peek(), '(')) {
+            this.advance();
+            while (!this.isPunctuation(this.peek(), ')') && !this.isStatementEnd(this.peek())) {
+                parameters.push(this.parseIdentifier());
+                if (this.isPunctuation(this.peek(), ',')) {
+                    this.advance();
+                } else {
+                    break;
+                }
+            }
+            this.expectPunctuation(')');
+        }
+        this.expectStatementEnd();
+
+        const body = this.parseEndedBlock(keyword);
+        return { kind: 'func', name, parameters, body, range: this.rangeFrom(keyword.range.start, this.previous().range.end) };
+    }
+
+    private parseReturn(): Statement {
+        const keyword = this.advance();
+        if (this.isStatementEnd(this.peek())) {
+            return { kind: 'ret', range: keyword.range };
+        }
+        const value = this.parsePipeline();
+        this.expectStatementEnd();
+        return { kind: 'ret', value, range: this.rangeFrom(keyword.range.start, value.range.end) };
+    }
+
+    private parseEndedBlock(keyword: Token): Statement[] {
+        const { body, terminator } = this.parseBlock(keyword, ['end']);
+        if (terminator) {
+            this.consumeEnd();
+        }
+        return body;
+    }
+
+    private consumeEnd(): void {
+        this.advance();
+        this.expectStatementEnd();
+    }
+
+    // Expressions
+
+    // Lowest precedence: `a | f b | g`, plus implicit calls such as `string.upcase name`
+    private parsePipeline(): Expression {
+        let expression = this.parseCall();
+        while (this.isPunctuation(this.peek(), '|')) {
+            this.advance();
+            const call = this.parseCall();
+            expression = {
+                kind: 'pipe',
+                input: expression,
+                call,
+                range: this.rangeFrom(expression.range.start, call.range.end)
+            };
+        }
+        return expression;
+    }
+
+    private parseCall(): Expression {
+        const callee = this.parseExpression();
+        if ((callee.kind !== 'identifier' && callee.kind !== 'member') || !this.canStartArgument(this.peek())) {
+            return callee;
+        }
+
+        const args: Array<Expression | NamedArgument> = [];
+        while (this.canStartArgument(this.peek())) {
+            if (this.peek().type === 'identifier' && this.isPunctuation(this.peek(1), ':')) {
+                args.push(this.parseNamedArgument());
+            } else {
+                args.push(this.parseUnary());
+            }
+        }
+
+        return {
+            kind: 'call',
+            callee,
+            args,
+            range: this.rangeFrom(callee.range.start, args[args.length - 1].range.end)
+        };
+    }
+
+    private parseExpression(): Expression {
+        const test = this.parseBinary(1);
+        if (!this.isPunctuation(this.peek(), '?')) {
+            return test;
+        }
+
+        this.advance();
+        const consequent = this.parseExpression();
+        this.expectPunctuation(':');
+        const alternate = this.parseExpression();
+        return {
+            kind: 'conditional',
+            test,
+            consequent,
+            alternate,
+            range: this.rangeFrom(test.range.start, alternate.range.end)
+        };
+    }
+
+    private parseBinary(minPrecedence: number): Expression {
+        let left = this.parseUnary();
+
+        for (;;) {
+            const token = this.peek();
+            const operator = token.type === 'punctuation' || token.type === 'identifier' ? token.value : '';
+            const precedence = BINARY_PRECEDENCE[operator];
+            if (!precedence || precedence < minPrecedence) {
+                return left;
+            }
+
+            this.advance();
+            const right = this.parseBinary(precedence + 1);
+            left = {
+                kind: 'binary',
+                operator,
+                left,
+                right,
+                range: this.rangeFrom(left.range.start, right.range.end)
+            };
+        }
+    }
+
+    private parseUnary(): Expression {
+        const token = this.peek();
+        const isOperator = (token.type === 'punctuation' && ['!', '-', '+', '^', '@'].includes(token.value)) ||
+            (token.type === 'identifier' && token.value === 'not');
+
+        if (isOperator) {
+            this.advance();
+            const operand = this.parseUnary();
+            return {
+                kind: 'unary',
+                operator: token.value,
+                operand,
+                range: this.rangeFrom(token.range.start, operand.range.end)
+            };
+        }
+
+        return this.parsePostfix();
+    }
+
+    private parsePostfix(): Expression {
+        let expression = this.parsePrimary();
+
+        for (;;) {
+            const token = this.peek();
+            if (this.isPunctuation(token, '.') || this.isPunctuation(token, '?.')) {
+                this.advance();
+                const property = this.parseIdentifier();
+                expression = {
+                    kind: 'member',
+                    object: expression,
+                    property,
+                    optional: token.value === '?.',
+                    range: this.rangeFrom(expression.range.start, property.range.end)
+                };
+            } else if (this.isPunctuation(token, '[') && this.isAdjacent(expression, token)) {
+                this.advance();
+                const index = this.parsePipeline();
+                const close = this.expectPunctuation(']');
+                expression = {
+                    kind: 'index',
+                    object: expression,
+                    index,
+                    range: this.rangeFrom(expression.range.start, (close || index).range.end)
+                };
+            } else if (this.isPunctuation(token, '(') && this.isAdjacent(expression, token)) {
+                this.advance();
+                const args: Expression[] = [];
+                while (!this.isPunctuation(this.peek(), ')') && !this.isStatementEnd(this.peek())) {
+                    args.push(this.parsePipeline());
+                    if (this.isPunctuation(this.peek(), ',')) {
+                        this.advance();
+                    } else {
+                        break;
+                    }
+                }
+                const close = this.expectPunctuation(')');
+                expression = {
+                    kind: 'call',
+                    callee: expression,
+                    args,
+                    range: this.rangeFrom(expression.range.start, (close || this.previous()).range.end)
+                };
+            } else {
+                return expression;
+            }
+        }
+    }
+
+    private parsePrimary(): Expression {
+        const token = this.peek();
+
+        switch (token.type) {
+            case 'number':
+                this.advance();
+                return { kind: 'literal', value: Number(token.value.replace(/_/g, '')), raw: token.value, range: token.range };
+            case 'string':
+                this.advance();
+                return { kind: 'literal', value: token.value, raw: token.value, range: token.range };
+            case 'identifier': {
+                this.advance();
+                if (token.value === 'true' || token.value === 'false') {
+                    return { kind: 'literal', value: token.value === 'true', raw: token.value, range: token.range };
+                }
+                if (token.value === 'null') {
+                    return { kind: 'literal', value: null, raw: token.value, range: token.range };
+                }
+                return { kind: 'identifier', name: token.value, range: token.range };
+            }
+            case 'punctuation':
+                if (token.value === '(') {
+                    this.advance();
+                    const inner = this.parsePipeline();
+                    const close = this.expectPunctuation(')');
+                    return { ...inner, range: this.rangeFrom(token.range.start, (close || inner).range.end) };
+                }
+                if (token.value === '[') {
+                    return this.parseArray();
+                }
+                if (token.value === '{') {
+                    return this.parseObject();
+                }
+                break;
+        }
+
+        this.error(this.describeUnexpected(token), token.range);
+        if (!this.isStatementEnd(token)) {
+            this.advance();
+        }
+        return { kind: 'error', range: token.range };
+    }
+
+    private parseArray(): Expression {
+        const open = this.advance();
+        const elements: Expression[] = [];
+
+        this.skipNewlines();
+        while (!this.isPunctuation(this.peek(), ']') && !this.isBoundary(this.peek())) {
+            elements.push(this.parsePipeline());
+            this.skipNewlines();
+            if (!this.isPunctuation(this.peek(), ',')) {
+                break;
+            }
+            this.advance();
+            this.skipNewlines();
+        }
+
+        const close = this.expectPunctuation(']');
+        return { kind: 'array', elements, range: this.rangeFrom(open.range.start, (close || this.previous()).range.end) };
+    }
+
+    private parseObject(): Expression {
+        const open = this.advance();
+        const properties: Array<{ kind: 'property'; key: string; value: Expression; range: SourceRange }> = [];
+
+        this.skipNewlines();
+        while (!this.isPunctuation(this.peek(), '}') && !this.isBoundary(this.peek())) {
+            const keyToken = this.peek();
+            if (keyToken.type !== 'identifier' && keyToken.type !== 'string') {
+                this.error('Expected property name', keyToken.range);
+                break;
+            }
+            this.advance();
+            this.expectPunctuation(':');
+            const value = this.parsePipeline();
+            properties.push({
+                kind: 'property',
+                key: keyToken.value,
+                value,
+                range: this.rangeFrom(keyToken.range.start, value.range.end)
+            });
+            this.skipNewlines();
+            if (!this.isPunctuation(this.peek(), ',')) {
+                break;
+            }
+            this.advance();
+            this.skipNewlines();
+        }
+
+        const close = this.expectPunctuation('}');
+        return { kind: 'object', properties, range: this.rangeFrom(open.range.start, (close || this.previous()).range.end) };
+    }
+
+    private parseNamedArgument(): NamedArgument {
+        const nameToken = this.advance();
+        if (!this.isPunctuation(this.peek(), ':')) {
+            // Flags such as `reversed` have no value
+            return { kind: 'namedArgument', name: nameToken.value, range: nameToken.range };
+        }
+        this.advance();
+        const value = this.parseUnary();
+        return {
+            kind: 'namedArgument',
+            name: nameToken.value,
+            value,
+            range: this.rangeFrom(nameToken.range.start, value.range.end)
+        };
+    }
+
+    private parseIdentifier(): Identifier {
+        const token = this.peek();
+        if (token.type !== 'identifier') {
+            this.error(`Expected identifier but found ${this.describe(token)}`, token.range);
+            return { kind: 'identifier', name: '', range: token.range };
+        }
+        this.advance();
+        return { kind: 'identifier', name: token.value, range: token.range };
+    }
+
+    // Token helpers
+
+    private peek(offset = 0): Token {
+        return this.tokens[Math.min(this.index + offset, this.tokens.length - 1)];
+    }
+
+    private previous(): Token {
+        return this.tokens[Math.max(this.index - 1, 0)];
+    }
+
+    private advance(): Token {
+        const token = this.peek();
+        if (!this.isAtEnd()) {
+            this.index++;
+        }
+        return token;
+    }
+
+    private isAtEnd(): boolean {
+        return this.peek().type === 'eof';
+    }
+
+    private isKeyword(token: Token, keywords: string[]): boolean {
+        return token.type === 'identifier' && keywords.includes(token.value);
+    }
+
+    private isPunctuation(token: Token, value: string): boolean {
+        return token.type === 'punctuation' && token.value === value;
+    }
+
+    // Tokens that end a code statement
+    private isStatementEnd(token: Token): boolean {
+        return token.type === 'newline' || token.type === 'codeExit' || token.type === 'eof' ||
+            token.type === 'text' || token.type === 'raw' || token.type === 'codeEnter';
+    }
+
+    private isBoundary(token: Token): boolean {
+        return token.type === 'codeExit' || token.type === 'eof' || token.type === 'codeEnter';
+    }
+
+    // `a[0]` indexes while `f [1, 2]` passes an array argument
+    private isAdjacent(expression: Expression, token: Token): boolean {
+        return expression.range.end.offset === token.range.start.offset;
+    }
+
+    private canStartArgument(token: Token): boolean {
+        switch (token.type) {
+            case 'number':
+            case 'string':
+                return true;
+            case 'identifier':
+                return !BINARY_PRECEDENCE[token.value] && !BLOCK_KEYWORDS.includes(token.value) &&
+                    !CONTINUATION_KEYWORDS.includes(token.value) && token.value !== 'in';
+            case 'punctuation':
+                return token.value === '(' || token.value === '[' || token.value === '{';
+            default:
+                return false;
+        }
+    }
+
+    private skipSeparators(): boolean {
+        const type = this.peek().type;
+        if (type === 'newline' || type === 'codeEnter' || type === 'codeExit') {
+            this.advance();
+            return true;
+        }
+        return false;
+    }
+
+    private skipNewlines(): void {
+        while (this.peek().type === 'newline') {
+            this.advance();
+        }
+    }
+
+    private expectStatementEnd(): void {
+        const token = this.peek();
+        if (this.isStatementEnd(token)) {
+            return;
+        }
+        this.error(this.describeUnexpected(token), token.range);
+        this.skipToStatementEnd();
+    }
+
+    private skipToStatementEnd(): void {
+        while (!this.isStatementEnd(this.peek())) {
+            this.advance();
+        }
+    }
+
+    private expectPunctuation(value: string): Token | undefined {
+        const token = this.peek();
+        if (this.isPunctuation(token, value)) {
+            return this.advance();
+        }
+        this.error(`Expected '${value}' but found ${this.describe(token)}`, token.range);
+        return undefined;
+    }
+
+    private describe(token: Token): string {
+        switch (token.type) {
+            case 'eof': return 'end of template';
+            case 'codeExit': return `'}}'`;
+            case 'newline': return 'end of line';
+            case 'text':
+            case 'raw': return 'template text';
+            case 'string': return `string "${token.value}"`;
+            default: return `'${token.value}'`;
+        }
+    }
+
+    private describeUnexpected(token: Token): string {
+        return token.type === 'codeExit' || token.type === 'newline' || token.type === 'eof'
+            ? `Unexpected ${this.describe(token)}, expected an expression`
+            : `Unexpected ${this.describe(token)}`;
+    }
+
+    private rangeFrom(start: Position, end: Position): SourceRange {
+        return { start, end };
+    }
+
+    private error(message: string, range: SourceRange): void {
+        this.errors.push({ message, range });
+    }
+}
@@ -0,0 +1,31 @@
+import * as vscode from 'vscode';
+import { SourceRange } from './scriban/ast';
+import { parseTemplate, ParseResult } from './scriban/parser';
+
+// Parse results keyed by document URI; reused until the document version changes
+const parseCache = new Map<string, { version: number; result: ParseResult }>();
+
+export function parseDocument(document: vscode.TextDocument): ParseResult {
+    const key = document.uri.toString();
+    const cached = parseCache.get(key);
+    if (cached && cached.version === document.version) {
+        return cached.result;
+    }
+
+    const result = parseTemplate(document.getText());
+    parseCache.set(key, { version: document.version, result });
+    return result;
+}
+
+export function forgetDocument(document: vscode.TextDocument): void {
+    parseCache.delete(document.uri.toString());
+}
+
+export function toRange(range: SourceRange): vscode.Range {
+    return new vscode.Range(
+        range.start.line,
+        range.start.character,
+        range.end.line,
+        range.end.character
+    );
+}
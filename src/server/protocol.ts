@@ -0,0 +1,12 @@
+// Messages the VS Code extension sends to the Scriban language server beyond standard LSP
+
+import { JsonSchema } from '../core/schema';
+
+// The shape of a document's input data, from the template's schema or its sample data
+export const DATA_SHAPE_NOTIFICATION = 'scriban/dataShape';
+
+export interface DataShapeParams {
+    uri: string;
+    // null when nothing is known about the data
+    schema: JsonSchema | null;
+}
@@ -0,0 +1,355 @@
+// Scriban language server. Depends only on vscode-languageserver so it can be
+// started by any LSP client: `node out/server/server.js --stdio`.
+
+import {
+    CompletionItem,
+    CompletionItemKind,
+    Diagnostic,
+    DiagnosticSeverity,
+    DocumentSymbol,
+    Hover,
+    InitializeParams,
+    InitializeResult,
+    InsertTextFormat,
+    Location,
+    MarkupKind,
+    ProposedFeatures,
+    Range,
+    SymbolKind,
+    TextDocumentSyncKind,
+    TextDocuments,
+    createConnection
+} from 'vscode-languageserver/node';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { SourceRange } from '../language/scriban/ast';
+import { parseTemplate, ParseResult } from '../language/scriban/parser';
+import {
+    ITEMS_SEGMENT,
+    collectDeclarations,
+    collectOccurrences,
+    findOccurrenceAt,
+    getPathAt,
+    isInsideCode,
+    resolveDataPath,
+    SymbolKind as ScribanSymbolKind
+} from '../language/scriban/analysis';
+import {
+    BUILTIN_FUNCTIONS,
+    BUILTIN_NAMESPACES,
+    KEYWORDS,
+    LOOP_VARIABLES,
+    findBuiltin,
+    findKeyword
+} from '../language/scriban/builtins';
+import { JsonSchema, describeSchema, getSchemaAtPath, getSchemaProperties } from '../core/schema';
+import { DATA_SHAPE_NOTIFICATION, DataShapeParams } from './protocol';
+
+interface ServerOptions {
+    // The VS Code extension publishes its own diagnostics, other clients get them from here
+    diagnostics: boolean;
+}
+
+const connection = createConnection(ProposedFeatures.all);
+const documents = new TextDocuments(TextDocument);
+const parseCache = new Map<string, { version: number; result: ParseResult }>();
+// Input data shape of each document, as far as the client knows it
+const dataShapes = new Map<string, JsonSchema>();
+let options: ServerOptions = { diagnostics: true };
+
+connection.onInitialize((params: InitializeParams): InitializeResult => {
+    const initializationOptions = params.initializationOptions || {};
+    options = { diagnostics: initializationOptions.diagnostics !== false };
+
+    return {
+        capabilities: {
+            textDocumentSync: TextDocumentSyncKind.Incremental,
+            completionProvider: { triggerCharacters: ['.', '|', ' '] },
+            hoverProvider: true,
+            definitionProvider: true,
+            referencesProvider: true,
+            documentSymbolProvider: true
+        }
+    };
+});
+
+function parse(document: TextDocument): ParseResult {
+    const cached = parseCache.get(document.uri);
+    if (cached && cached.version === document.version) {
+        return cached.result;
+    }
+    const result = parseTemplate(document.getText());
+    parseCache.set(document.uri, { version: document.version, result });
+    return result;
+}
+
+function toRange(range: SourceRange): Range {
+    return {
+        start: { line: range.start.line, character: range.start.character },
+        end: { line: range.end.line, character: range.end.character }
+    };
+}
+
+// Diagnostics
+
+documents.onDidChangeContent(change => {
+    if (!options.diagnostics) {
+        return;
+    }
+    const { errors } = parse(change.document);
+    const diagnostics: Diagnostic[] = errors.map(error => ({
+        range: toRange(error.range),
+        message: error.message,
+        severity: DiagnosticSeverity.Error,
+        source: 'scriban'
+    }));
+    connection.sendDiagnostics({ uri: change.document.uri, diagnostics });
+});
+
+documents.onDidClose(event => {
+    parseCache.delete(event.document.uri);
+    dataShapes.delete(event.document.uri);
+    if (options.diagnostics) {
+        connection.sendDiagnostics({ uri: event.document.uri, diagnostics: [] });
+    }
+});
+
+// Data shapes
+
+connection.onNotification(DATA_SHAPE_NOTIFICATION, (params: DataShapeParams) => {
+    if (params.schema) {
+        dataShapes.set(params.uri, params.schema);
+    } else {
+        dataShapes.delete(params.uri);
+    }
+});
+
+// Completion
+
+connection.onCompletion(params => {
+    const document = documents.get(params.textDocument.uri);
+    if (!document) {
+        return [];
+    }
+
+    const text = document.getText();
+    const offset = document.offsetAt(params.position);
+    if (!isInsideCode(text, offset)) {
+        return [];
+    }
+
+    // After `order.items[0].` complete members of the input data
+    const prefix = text.substring(0, offset).match(/([A-Za-z_][A-Za-z0-9_]*)((?:\.[A-Za-z_][A-Za-z0-9_]*|\[[^\]]*\])*)\.[A-Za-z0-9_]*$/);
+    if (prefix && !BUILTIN_NAMESPACES[prefix[1]] && prefix[1] !== 'for') {
+        return getDataPathCompletions(document, offset, [prefix[1], ...splitPath(prefix[2])]);
+    }
+
+    // After `namespace.` only the members of that namespace make sense
+    if (prefix) {
+        const namespace = prefix[1];
+        const members = [...BUILTIN_FUNCTIONS, ...LOOP_VARIABLES].filter(fn => fn.name.startsWith(`${namespace}.`));
+        return members.map<CompletionItem>(fn => ({
+            label: fn.name.substring(namespace.length + 1),
+            kind: namespace === 'for' ? CompletionItemKind.Property : CompletionItemKind.Function,
+            detail: fn.signature,
+            documentation: { kind: MarkupKind.Markdown, value: fn.description }
+        }));
+    }
+
+    const items: CompletionItem[] = [];
+
+    for (const keyword of KEYWORDS) {
+        items.push({
+            label: keyword.name,
+            kind: CompletionItemKind.Keyword,
+            documentation: { kind: MarkupKind.Markdown, value: keyword.description },
+            insertText: keyword.snippet,
+            insertTextFormat: keyword.snippet ? InsertTextFormat.Snippet : undefined
+        });
+    }
+
+    for (const [namespace, description] of Object.entries(BUILTIN_NAMESPACES)) {
+        items.push({
+            label: namespace,
+            kind: CompletionItemKind.Module,
+            documentation: { kind: MarkupKind.Markdown, value: description }
+        });
+    }
+
+    const builtinGlobals = BUILTIN_FUNCTIONS.filter(fn => !fn.name.includes('.'));
+    for (const fn of builtinGlobals) {
+        items.push({
+            label: fn.name,
+            kind: CompletionItemKind.Function,
+            detail: fn.signature,
+            documentation: { kind: MarkupKind.Markdown, value: fn.description }
+        });
+    }
+
+    // Names declared in this template
+    const { template } = parse(document);
+    const seen = new Set<string>();
+    for (const occurrence of collectOccurrences(template)) {
+        if (!occurrence.isDeclaration || seen.has(occurrence.name)) {
+            continue;
+        }
+        seen.add(occurrence.name);
+        items.push({
+            label: occurrence.name,
+            kind: toCompletionKind(occurrence.kind)
+        });
+    }
+
+    // Top-level members of the input data
+    items.push(...getDataPathCompletions(document, offset, []).filter(item => !seen.has(item.label)));
+
+    return items;
+});
+
+// Members of the data at `path`, e.g. the properties of `item` inside `for item in order.items`
+function getDataPathCompletions(document: TextDocument, offset: number, path: string[]): CompletionItem[] {
+    const schema = dataShapes.get(document.uri);
+    if (!schema) {
+        return [];
+    }
+
+    const dataPath = path.length > 0 ? resolveDataPath(parse(document).template, offset, path) : [];
+    const target = dataPath && getSchemaAtPath(schema, dataPath);
+    if (!target) {
+        return [];
+    }
+
+    return Object.entries(getSchemaProperties(target, schema)).map<CompletionItem>(([name, property]) => ({
+        label: name,
+        kind: path.length > 0 ? CompletionItemKind.Field : CompletionItemKind.Variable,
+        detail: describeSchema(property, schema),
+        documentation: property.description ? { kind: MarkupKind.Markdown, value: property.description } : undefined,
+        // Data members before keywords and builtins
+        sortText: `0${name}`
+    }));
+}
+
+// `.items[0].name` -> ['items', '[]', 'name']; quoted indexes are property names
+function splitPath(members: string): string[] {
+    const segments: string[] = [];
+    const pattern = /\.([A-Za-z_][A-Za-z0-9_]*)|\[\s*(?:(["'])(.*?)\2|[^\]]*)\s*\]/g;
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(members))) {
+        segments.push(match[1] ?? match[3] ?? ITEMS_SEGMENT);
+    }
+    return segments;
+}
+
+function toCompletionKind(kind: ScribanSymbolKind): CompletionItemKind {
+    switch (kind) {
+        case 'function': return CompletionItemKind.Function;
+        case 'parameter': return CompletionItemKind.TypeParameter;
+        default: return CompletionItemKind.Variable;
+    }
+}
+
+// Hover
+
+connection.onHover((params): Hover | null => {
+    const document = documents.get(params.textDocument.uri);
+    if (!document) {
+        return null;
+    }
+
+    const text = document.getText();
+    const offset = document.offsetAt(params.position);
+    if (!isInsideCode(text, offset)) {
+        return null;
+    }
+
+    const word = getPathAt(text, offset);
+    if (!word) {
+        return null;
+    }
+    const range: Range = { start: document.positionAt(word.start), end: document.positionAt(word.end) };
+
+    const builtin = findBuiltin(word.path);
+    if (builtin) {
+        return markdownHover(`\`\`\`scriban\n${builtin.signature}\n\`\`\`\n${builtin.description}`, range);
+    }
+    if (BUILTIN_NAMESPACES[word.path]) {
+        return markdownHover(`**${word.path}**\n\n${BUILTIN_NAMESPACES[word.path]}`, range);
+    }
+    const keyword = findKeyword(word.path);
+    if (keyword) {
+        return markdownHover(`**${keyword.name}**\n\n${keyword.description}`, range);
+    }
+
+    const { template } = parse(document);
+    const occurrence = findOccurrenceAt(collectOccurrences(template), offset);
+    if (!occurrence) {
+        return null;
+    }
+
+    const declaration = collectDeclarations(template).find(symbol => symbol.name === occurrence.name);
+    if (declaration && declaration.kind === 'function') {
+        return markdownHover(`\`\`\`scriban\n${declaration.detail}\n\`\`\``, range);
+    }
+    const label = occurrence.kind === 'loopVariable' ? 'loop variable' : occurrence.kind;
+    const where = declaration ? ` (assigned on line ${declaration.selectionRange.start.line + 1})` : '';
+    return markdownHover(`${label} **${occurrence.name}**${where}`, range);
+});
+
+function markdownHover(value: string, range: Range): Hover {
+    return { contents: { kind: MarkupKind.Markdown, value }, range };
+}
+
+// Definition and references
+
+connection.onDefinition(params => {
+    const document = documents.get(params.textDocument.uri);
+    if (!document) {
+        return null;
+    }
+
+    const { template } = parse(document);
+    const occurrences = collectOccurrences(template);
+    const occurrence = findOccurrenceAt(occurrences, document.offsetAt(params.position));
+    if (!occurrence) {
+        return null;
+    }
+
+    const declarations = occurrences.filter(o => o.name === occurrence.name && o.isDeclaration);
+    return declarations.map(o => Location.create(document.uri, toRange(o.range)));
+});
+
+connection.onReferences(params => {
+    const document = documents.get(params.textDocument.uri);
+    if (!document) {
+        return null;
+    }
+
+    const { template } = parse(document);
+    const occurrences = collectOccurrences(template);
+    const occurrence = findOccurrenceAt(occurrences, document.offsetAt(params.position));
+    if (!occurrence) {
+        return null;
+    }
+
+    return occurrences
+        .filter(o => o.name === occurrence.name && (params.context.includeDeclaration || !o.isDeclaration))
+        .map(o => Location.create(document.uri, toRange(o.range)));
+});
+
+connection.onDocumentSymbol(params => {
+    const document = documents.get(params.textDocument.uri);
+    if (!document) {
+        return [];
+    }
+
+    const { template } = parse(document);
+    return collectDeclarations(template).map<DocumentSymbol>(symbol => ({
+        name: symbol.name,
+        detail: symbol.detail,
+        kind: symbol.kind === 'function' ? SymbolKind.Function : SymbolKind.Variable,
+        range: toRange(symbol.range),
+        selectionRange: toRange(symbol.selectionRange)
+    }));
+});
+
+documents.listen(connection);
+connection.listen();
@@ -0,0 +1,26 @@
+import * as vscode from 'vscode';
+
+export const READONLY_SCHEME = 'loro-readonly';
+
+/**
+ * Serves in-memory text as read-only documents, e.g. the server copy of a template
+ * or a rendered output shown on one side of a diff editor.
+ */
+export class ReadOnlyDocumentProvider implements vscode.TextDocumentContentProvider {
+    private _onDidChange = new vscode.EventEmitter<vscode.Uri>();
+    readonly onDidChange: vscode.Event<vscode.Uri> = this._onDidChange.event;
+
+    private documents = new Map<string, string>();
+
+    // `path` only has to be unique per document; its file name is what the editor tab shows
+    createDocument(path: string, content: string): vscode.Uri {
+        const uri = vscode.Uri.from({ scheme: READONLY_SCHEME, path: path.startsWith('/') ? path : `/${path}` });
+        this.documents.set(uri.toString(), content);
+        this._onDidChange.fire(uri);
+        return uri;
+    }
+
+    provideTextDocumentContent(uri: vscode.Uri): string {
+        return this.documents.get(uri.toString()) ?? '';
+    }
+}
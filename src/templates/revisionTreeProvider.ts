@@ -0,0 +1,76 @@
+import * as vscode from 'vscode';
+import { Template, TemplateRevision } from '../types';
+import { TemplateService } from './templateService';
+import { LocalTemplateHistory } from './templateHistory';
+
+/**
+ * Timeline of previous versions of one template: the server's revision history when
+ * it has one, otherwise the revisions recorded locally on save.
+ */
+export class RevisionTreeProvider implements vscode.TreeDataProvider<RevisionTreeItem> {
+    private _onDidChangeTreeData: vscode.EventEmitter<RevisionTreeItem | undefined | null | void> =
+        new vscode.EventEmitter<RevisionTreeItem | undefined | null | void>();
+    readonly onDidChangeTreeData: vscode.Event<RevisionTreeItem | undefined | null | void> =
+        this._onDidChangeTreeData.event;
+
+    private template: Template | undefined;
+
+    constructor(private templateService: TemplateService, private localHistory: LocalTemplateHistory) {}
+
+    getTemplate(): Template | undefined {
+        return this.template;
+    }
+
+    setTemplate(template: Template | undefined): void {
+        if (template?.id === this.template?.id) {
+            return;
+        }
+        this.template = template;
+        this.refresh();
+    }
+
+    refresh(): void {
+        this._onDidChangeTreeData.fire();
+    }
+
+    getTreeItem(element: RevisionTreeItem): vscode.TreeItem {
+        return element;
+    }
+
+    async getChildren(element?: RevisionTreeItem): Promise<RevisionTreeItem[]> {
+        if (element || !this.template) {
+            return [];
+        }
+
+        const template = this.template;
+        const serverRevisions = await this.templateService.getTemplateRevisions(template.id);
+        const revisions = serverRevisions ?? await this.localHistory.getRevisions(template.id);
+
+        return revisions
+            .sort((a, b) => (Date.parse(b.createdAt) || 0) - (Date.parse(a.createdAt) || 0))
+            .map(revision => new RevisionTreeItem(template, revision));
+    }
+}
+
+export class RevisionTreeItem extends vscode.TreeItem {
+    constructor(public readonly template: Template, public readonly revision: TemplateRevision) {
+        super(new Date(revision.createdAt).toLocaleString(), vscode.TreeItemCollapsibleState.None);
+
+        this.id = `${template.id}:${revision.source}:${revision.id}`;
+        this.contextValue = 'revision';
+        this.description = revision.author || '';
+        this.iconPath = new vscode.ThemeIcon(revision.source === 'server' ? 'git-commit' : 'history');
+        this.tooltip = [
+            `Template: ${template.name}`,
+            `Saved: ${new Date(revision.createdAt).toLocaleString()}`,
+            `Author: ${revision.author || 'Unknown'}`,
+            revision.source === 'server' ? 'Server revision' : 'Recorded locally when saved from VS Code'
+        ].join('\n');
+
+        this.command = {
+            command: 'loro.compareRevision',
+            title: 'Compare with Current',
+            arguments: [this]
+        };
+    }
+}
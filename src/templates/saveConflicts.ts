@@ -0,0 +1,92 @@
+import * as vscode from 'vscode';
+import { SaveConflict, SaveConflictHandler, SaveConflictResolution } from './templateFileSystemProvider';
+import { ReadOnlyDocumentProvider } from './readOnlyDocumentProvider';
+import { mergeText } from '../utils/textMerge';
+
+const MERGE_LABELS = { mine: 'Yours', theirs: 'Server' };
+
+// Ask what to do when a template was changed on the server while it was being edited
+export function createSaveConflictHandler(readOnlyDocuments: ReadOnlyDocumentProvider): SaveConflictHandler {
+    return async (conflict: SaveConflict): Promise<SaveConflictResolution> => {
+        const name = conflict.base.name;
+        const changedAt = conflict.theirs.updatedAt ? ` at ${new Date(conflict.theirs.updatedAt).toLocaleString()}` : '';
+
+        const choice = await vscode.window.showWarningMessage(
+            `Template "${name}" was changed on the server${changedAt} since you opened it.`,
+            {
+                modal: true,
+                detail: 'Keep Mine overwrites the server copy, Take Theirs discards your changes, Merge combines both and marks any overlapping edits.'
+            },
+            'Keep Mine',
+            'Take Theirs',
+            'Merge'
+        );
+
+        switch (choice) {
+            case 'Keep Mine':
+                return { action: 'save', content: conflict.mine };
+            case 'Take Theirs':
+                // The save is rejected; reload the editor from the server once VS Code has reported that
+                setTimeout(() => revertToServer(conflict.uri), 0);
+                return { action: 'takeTheirs' };
+            case 'Merge':
+                return mergeConflict(conflict, readOnlyDocuments);
+            default:
+                return { action: 'abort', message: `Save of "${name}" cancelled because the template was changed on the server` };
+        }
+    };
+}
+
+function mergeConflict(conflict: SaveConflict, readOnlyDocuments: ReadOnlyDocumentProvider): SaveConflictResolution {
+    const name = conflict.base.name;
+    const merged = mergeText(conflict.base.content || '', conflict.mine, conflict.theirs.content || '', MERGE_LABELS);
+
+    if (merged.conflicts === 0) {
+        vscode.window.showInformationMessage(`Merged your changes to "${name}" with the server copy.`);
+        return { action: 'save', content: merged.text };
+    }
+
+    // The save is rejected; once VS Code has reported that, put the merge result in the
+    // editor next to the server copy so the markers can be resolved and saved again
+    setTimeout(() => showMergeResult(conflict, merged.text, readOnlyDocuments), 0);
+
+    return {
+        action: 'abort',
+        message: `"${name}" has ${merged.conflicts} merge conflict(s). Resolve the conflict markers and save again.`
+    };
+}
+
+async function revertToServer(uri: vscode.Uri) {
+    try {
+        await vscode.window.showTextDocument(uri, { preview: false });
+        await vscode.commands.executeCommand('workbench.action.files.revert');
+    } catch (error) {
+        vscode.window.showErrorMessage(`Failed to load the server copy: ${error}`);
+    }
+}
+
+async function showMergeResult(conflict: SaveConflict, mergedText: string, readOnlyDocuments: ReadOnlyDocumentProvider) {
+    try {
+        const document = await vscode.workspace.openTextDocument(conflict.uri);
+        const edit = new vscode.WorkspaceEdit();
+        edit.replace(conflict.uri, document.validateRange(new vscode.Range(0, 0, document.lineCount, 0)), mergedText);
+        if (!await vscode.workspace.applyEdit(edit)) {
+            throw new Error('the editor could not be updated');
+        }
+        // The editor now holds the server's changes, so its next save is checked against this server copy
+        conflict.rebase();
+
+        const serverUri = readOnlyDocuments.createDocument(
+            `server/${conflict.theirs.id}/${conflict.uri.path.split('/').pop()}`,
+            conflict.theirs.content || ''
+        );
+        await vscode.commands.executeCommand(
+            'vscode.diff',
+            serverUri,
+            conflict.uri,
+            `${conflict.base.name}: Server ↔ Merge Result`
+        );
+    } catch (error) {
+        vscode.window.showErrorMessage(`Failed to show merge result: ${error}`);
+    }
+}
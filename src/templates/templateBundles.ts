@@ -0,0 +1,128 @@
+import * as vscode from 'vscode';
+import { Template } from '../types';
+import { TemplateService } from './templateService';
+import { ProfileManager } from '../auth/profiles';
+import {
+    ClashStrategy,
+    ImportPlanEntry,
+    TemplateBundle,
+    createBundle,
+    getUniqueName,
+    parseBundle,
+    planImport,
+    serializeBundle,
+    toTemplateFields
+} from '../core/bundles';
+
+export interface BundleImportResult {
+    created: string[];
+    updated: string[];
+    skipped: string[];
+    errors: string[];
+}
+
+/**
+ * Writes templates to a bundle file and imports bundles into the active profile's
+ * account, matching existing templates by category and name.
+ */
+export class TemplateBundleService {
+    constructor(private templateService: TemplateService, private profiles: ProfileManager) {}
+
+    // The template list holds summaries; each template is fetched in full before it is written
+    async exportBundle(templates: Template[], uri: vscode.Uri, token?: vscode.CancellationToken): Promise<TemplateBundle | undefined> {
+        const fullTemplates: Template[] = [];
+        for (const summary of templates) {
+            if (token?.isCancellationRequested) {
+                return undefined;
+            }
+            const template = await this.templateService.getTemplate(summary.id);
+            if (!template) {
+                throw new Error(`Template "${summary.name}" could not be loaded from the server`);
+            }
+            fullTemplates.push(template);
+        }
+
+        const bundle = createBundle(fullTemplates, this.profiles.getActiveProfile().endpoint);
+        await vscode.workspace.fs.writeFile(uri, Buffer.from(serializeBundle(bundle), 'utf8'));
+        return bundle;
+    }
+
+    async readBundle(uri: vscode.Uri): Promise<TemplateBundle> {
+        const text = Buffer.from(await vscode.workspace.fs.readFile(uri)).toString('utf8');
+        const parsed = parseBundle(text);
+        if (!parsed.bundle) {
+            throw new Error(`${vscode.workspace.asRelativePath(uri)}: ${parsed.error}`);
+        }
+        return parsed.bundle;
+    }
+
+    async planImport(bundle: TemplateBundle): Promise<ImportPlanEntry[]> {
+        return planImport(bundle, await this.templateService.getTemplates());
+    }
+
+    async importTemplates(
+        entries: ImportPlanEntry[],
+        strategy: ClashStrategy,
+        progress?: vscode.Progress<{ message?: string; increment?: number }>
+    ): Promise<BundleImportResult> {
+        const result: BundleImportResult = { created: [], updated: [], skipped: [], errors: [] };
+
+        // Names already used per category, including templates created by this import
+        const takenNames = new Map<string, Set<string>>();
+        for (const template of await this.templateService.getTemplates()) {
+            getTakenNames(takenNames, template.category).add(template.name.toLowerCase());
+        }
+
+        for (const { template, existing } of entries) {
+            progress?.report({ message: template.name, increment: 100 / entries.length });
+            const fields = toTemplateFields(template);
+
+            if (existing && strategy === 'skip') {
+                result.skipped.push(template.name);
+                continue;
+            }
+
+            if (existing && strategy === 'overwrite') {
+                const updated = await this.templateService.updateTemplate(existing.id, { ...existing, ...fields });
+                if (updated) {
+                    result.updated.push(template.name);
+                } else {
+                    result.errors.push(`${template.name}: could not overwrite the existing template`);
+                }
+                continue;
+            }
+
+            const names = getTakenNames(takenNames, template.category);
+            const name = existing ? getUniqueName(template.name, names) : template.name;
+            const created = await this.templateService.createTemplate({
+                name,
+                category: template.category,
+                description: fields.description || '',
+                content: template.content,
+                sampleData: fields.sampleData,
+                isActive: template.isActive
+            });
+            if (!created) {
+                result.errors.push(`${template.name}: could not be created`);
+                continue;
+            }
+            names.add(name.toLowerCase());
+
+            // Schemas are not part of the create request
+            if (fields.schema && !await this.templateService.updateTemplate(created.id, { ...created, ...fields, name })) {
+                result.errors.push(`${name}: created, but its schema could not be saved`);
+            }
+            result.created.push(name === template.name ? name : `${template.name} → ${name}`);
+        }
+
+        return result;
+    }
+}
+
+function getTakenNames(takenNames: Map<string, Set<string>>, category: string | undefined): Set<string> {
+    const key = (category || 'Uncategorized').toLowerCase();
+    if (!takenNames.has(key)) {
+        takenNames.set(key, new Set());
+    }
+    return takenNames.get(key)!;
+}
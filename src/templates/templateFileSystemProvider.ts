@@ -0,0 +1,364 @@
+import * as vscode from 'vscode';
+import { Template } from '../types';
+import { TemplateService } from './templateService';
+import { TEMPLATE_EXTENSION, getTemplateFileName } from '../core/templateFiles';
+
+export const TEMPLATE_SCHEME = 'loro';
+
+// loro://<category>/<name>.schema.json holds the JSON Schema of the template's input data
+const SCHEMA_SUFFIX = '.schema.json';
+
+// Build the loro://<category>/<name>.sbn URI for a template
+export function getTemplateUri(template: Pick<Template, 'name' | 'category'>): vscode.Uri {
+    return vscode.Uri.from({
+        scheme: TEMPLATE_SCHEME,
+        authority: template.category || 'Uncategorized',
+        path: `/${getTemplateFileName(template.name)}`
+    });
+}
+
+// The schema document of a template, saved back to the template's schema field
+export function getSchemaUri(template: Pick<Template, 'name' | 'category'>): vscode.Uri {
+    const templateUri = getTemplateUri(template);
+    return templateUri.with({ path: templateUri.path.slice(0, -TEMPLATE_EXTENSION.length) + SCHEMA_SUFFIX });
+}
+
+export function isSchemaUri(uri: vscode.Uri): boolean {
+    return uri.scheme === TEMPLATE_SCHEME && uri.path.endsWith(SCHEMA_SUFFIX);
+}
+
+function fromFileName(fileName: string): string {
+    if (fileName.endsWith(SCHEMA_SUFFIX)) {
+        return fileName.slice(0, -SCHEMA_SUFFIX.length);
+    }
+    return fileName.endsWith(TEMPLATE_EXTENSION)
+        ? fileName.slice(0, -TEMPLATE_EXTENSION.length)
+        : fileName;
+}
+
+// Pretty-print stored schemas for editing; anything unparseable is shown as stored
+function formatSchema(schema: string | undefined): string {
+    if (!schema || !schema.trim()) {
+        return '';
+    }
+    try {
+        return `${JSON.stringify(JSON.parse(schema), null, 2)}\n`;
+    } catch {
+        return schema;
+    }
+}
+
+// The server copy changed since the editor's copy was read
+export interface SaveConflict {
+    uri: vscode.Uri;
+    base: Template;
+    mine: string;
+    theirs: Template;
+    // Make the server copy the editor's base once the editor holds text merged with it
+    rebase(): void;
+}
+
+export type SaveConflictResolution =
+    | { action: 'save'; content: string }
+    | { action: 'takeTheirs' }
+    | { action: 'abort'; message: string };
+
+export type SaveConflictHandler = (conflict: SaveConflict) => Promise<SaveConflictResolution>;
+
+/**
+ * Exposes server templates as files under the loro:// scheme so that VS Code
+ * handles save, dirty tracking and restoring editors after a reload.
+ */
+export class TemplateFileSystemProvider implements vscode.FileSystemProvider {
+    private _onDidChangeFile = new vscode.EventEmitter<vscode.FileChangeEvent[]>();
+    readonly onDidChangeFile: vscode.Event<vscode.FileChangeEvent[]> = this._onDidChangeFile.event;
+
+    // Fired after a save reached the server, with the server copy it replaced
+    private _onDidSaveTemplate = new vscode.EventEmitter<{ previous: Template; saved: Template }>();
+    readonly onDidSaveTemplate: vscode.Event<{ previous: Template; saved: Template }> = this._onDidSaveTemplate.event;
+
+    // Last known server copy of each opened template, keyed by URI string
+    private templates = new Map<string, Template>();
+    // Editors opened before reset() that have not re-read since; they hold the previous environment's text
+    private staleUris = new Set<string>();
+
+    constructor(private templateService: TemplateService, private onSaveConflict?: SaveConflictHandler) {}
+
+    // Synchronous lookup for templates that have already been read through this provider
+    getTemplate(uri: vscode.Uri): Template | undefined {
+        return this.templates.get(uri.toString());
+    }
+
+    watch(): vscode.Disposable {
+        // Changes are announced from readFile/writeFile; there is no server push to subscribe to
+        return new vscode.Disposable(() => {});
+    }
+
+    async stat(uri: vscode.Uri): Promise<vscode.FileStat> {
+        if (this.isCategory(uri)) {
+            return { type: vscode.FileType.Directory, ctime: 0, mtime: 0, size: 0 };
+        }
+
+        const template = await this.resolveTemplate(uri);
+        if (!template) {
+            throw vscode.FileSystemError.FileNotFound(uri);
+        }
+
+        return {
+            type: vscode.FileType.File,
+            ctime: Date.parse(template.createdAt) || 0,
+            mtime: Date.parse(template.updatedAt) || 0,
+            size: Buffer.byteLength(isSchemaUri(uri) ? formatSchema(template.schema) : template.content || '')
+        };
+    }
+
+    async readDirectory(uri: vscode.Uri): Promise<[string, vscode.FileType][]> {
+        if (!this.isCategory(uri)) {
+            throw vscode.FileSystemError.FileNotADirectory(uri);
+        }
+
+        const templates = await this.templateService.getTemplates();
+        return templates
+            .filter(template => (template.category || 'Uncategorized') === uri.authority)
+            .map(template => [getTemplateFileName(template.name), vscode.FileType.File] as [string, vscode.FileType]);
+    }
+
+    createDirectory(uri: vscode.Uri): void {
+        throw vscode.FileSystemError.NoPermissions('Categories are created by saving a template into them');
+    }
+
+    async readFile(uri: vscode.Uri): Promise<Uint8Array> {
+        const summary = await this.resolveTemplate(uri);
+        if (!summary) {
+            throw vscode.FileSystemError.FileNotFound(uri);
+        }
+
+        // Always read the latest content from the server
+        const template = await this.templateService.getTemplate(summary.id);
+        if (!template) {
+            throw vscode.FileSystemError.Unavailable(uri);
+        }
+
+        this.templates.set(uri.toString(), template);
+        this.staleUris.delete(uri.toString());
+        return Buffer.from(isSchemaUri(uri) ? formatSchema(template.schema) : template.content || '', 'utf8');
+    }
+
+    async writeFile(uri: vscode.Uri, content: Uint8Array, options: { create: boolean; overwrite: boolean }): Promise<void> {
+        // URIs carry no environment, so the same name would resolve to another profile's template
+        if (this.staleUris.has(uri.toString())) {
+            throw vscode.FileSystemError.Unavailable(
+                `${uri.path.replace(/^\//, '')} was opened from another environment profile. ` +
+                'Copy your changes and revert the editor to load the template from this profile.'
+            );
+        }
+
+        const text = Buffer.from(content).toString('utf8');
+        const existing = await this.resolveTemplate(uri);
+
+        if (isSchemaUri(uri)) {
+            if (!existing) {
+                throw vscode.FileSystemError.FileNotFound(uri);
+            }
+            return this.writeSchema(uri, existing, text);
+        }
+
+        if (!existing) {
+            if (!options.create) {
+                throw vscode.FileSystemError.FileNotFound(uri);
+            }
+
+            const created = await this.templateService.createTemplate({
+                name: this.getTemplateName(uri),
+                category: uri.authority,
+                description: '',
+                content: text,
+                isActive: true
+            });
+            if (!created) {
+                throw vscode.FileSystemError.Unavailable(uri);
+            }
+
+            this.templates.set(uri.toString(), { ...created, content: text });
+            this._onDidChangeFile.fire([{ type: vscode.FileChangeType.Created, uri }]);
+            return;
+        }
+
+        if (!options.overwrite) {
+            throw vscode.FileSystemError.FileExists(uri);
+        }
+
+        // Optimistic concurrency: only overwrite the server copy this editor was based on
+        const latest = await this.templateService.getTemplate(existing.id);
+        if (!latest) {
+            throw vscode.FileSystemError.Unavailable(uri);
+        }
+
+        let contentToSave = text;
+        if (latest.updatedAt !== existing.updatedAt && latest.content !== existing.content && latest.content !== text) {
+            const resolution: SaveConflictResolution = this.onSaveConflict
+                ? await this.onSaveConflict({
+                    uri,
+                    base: existing,
+                    mine: text,
+                    theirs: latest,
+                    rebase: () => this.templates.set(uri.toString(), latest)
+                })
+                : { action: 'abort', message: `Template "${existing.name}" was changed on the server` };
+
+            // The base stays until a save succeeds or the editor is reloaded, so a cancelled save conflicts again
+            if (resolution.action === 'takeTheirs') {
+                // Failing the save keeps VS Code from marking the editor's text as saved; reverting reads the server copy
+                throw vscode.FileSystemError.Unavailable(`Took the server copy of "${existing.name}"; your changes were discarded`);
+            }
+            if (resolution.action === 'abort') {
+                throw vscode.FileSystemError.Unavailable(resolution.message);
+            }
+            contentToSave = resolution.content;
+        }
+
+        const updated = await this.templateService.updateTemplate(latest.id, {
+            name: latest.name,
+            category: latest.category,
+            description: latest.description,
+            content: contentToSave,
+            isActive: latest.isActive,
+            sampleData: latest.sampleData,
+            schema: latest.schema
+        });
+        if (!updated) {
+            throw vscode.FileSystemError.Unavailable(uri);
+        }
+
+        // Re-read so the next save compares against the server's own updatedAt
+        const saved = await this.templateService.getTemplate(latest.id) || { ...latest, ...updated, content: contentToSave };
+        this.templates.set(uri.toString(), saved);
+        this._onDidChangeFile.fire([{ type: vscode.FileChangeType.Changed, uri }]);
+        this._onDidSaveTemplate.fire({ previous: latest, saved });
+        vscode.window.setStatusBarMessage(`$(cloud-upload) Template "${latest.name}" saved to server`, 3000);
+    }
+
+    private async writeSchema(uri: vscode.Uri, existing: Template, text: string): Promise<void> {
+        if (text.trim()) {
+            try {
+                JSON.parse(text);
+            } catch (error) {
+                throw vscode.FileSystemError.Unavailable(`The schema of "${existing.name}" is not valid JSON: ${error instanceof Error ? error.message : error}`);
+            }
+        }
+
+        // Only the schema changes, so save it onto the latest server copy of everything else
+        const latest = await this.templateService.getTemplate(existing.id);
+        if (!latest) {
+            throw vscode.FileSystemError.Unavailable(uri);
+        }
+
+        const updated = await this.templateService.updateTemplate(latest.id, { ...latest, schema: text.trim() ? text : undefined });
+        if (!updated) {
+            throw vscode.FileSystemError.Unavailable(uri);
+        }
+
+        const saved = await this.templateService.getTemplate(latest.id) || { ...latest, schema: text };
+        this.templates.set(uri.toString(), saved);
+
+        // Open template editors keep their own base copy for conflict detection; only refresh the schema
+        for (const [key, template] of this.templates) {
+            if (template.id === saved.id && key !== uri.toString()) {
+                this.templates.set(key, { ...template, schema: saved.schema });
+            }
+        }
+
+        this._onDidChangeFile.fire([{ type: vscode.FileChangeType.Changed, uri }]);
+        vscode.window.setStatusBarMessage(`$(cloud-upload) Schema of "${latest.name}" saved to server`, 3000);
+    }
+
+    // Tell open editors that the server copy changed outside this provider; clean editors reload
+    notifyChanged(uri: vscode.Uri): void {
+        this._onDidChangeFile.fire([{ type: vscode.FileChangeType.Changed, uri }]);
+    }
+
+    // Forget every server copy, e.g. after switching environments; clean editors re-read from the new
+    // server and editors with unsaved changes cannot be saved until they do
+    reset(): void {
+        const uris = [...this.templates.keys()].map(key => vscode.Uri.parse(key));
+        uris.forEach(uri => this.staleUris.add(uri.toString()));
+        this.templates.clear();
+        this._onDidChangeFile.fire(uris.map(uri => ({ type: vscode.FileChangeType.Changed, uri })));
+    }
+
+    async delete(uri: vscode.Uri): Promise<void> {
+        if (isSchemaUri(uri)) {
+            throw vscode.FileSystemError.NoPermissions('Clear the schema document and save it to remove a schema');
+        }
+
+        const template = await this.resolveTemplate(uri);
+        if (!template) {
+            throw vscode.FileSystemError.FileNotFound(uri);
+        }
+
+        const deleted = await this.templateService.deleteTemplate(template.id);
+        if (!deleted) {
+            throw vscode.FileSystemError.Unavailable(uri);
+        }
+
+        this.templates.delete(uri.toString());
+        this._onDidChangeFile.fire([{ type: vscode.FileChangeType.Deleted, uri }]);
+    }
+
+    async rename(oldUri: vscode.Uri, newUri: vscode.Uri, options: { overwrite: boolean }): Promise<void> {
+        if (isSchemaUri(oldUri) || isSchemaUri(newUri)) {
+            throw vscode.FileSystemError.NoPermissions('Schemas move with their template');
+        }
+        const summary = await this.resolveTemplate(oldUri);
+        if (!summary) {
+            throw vscode.FileSystemError.FileNotFound(oldUri);
+        }
+        if (!options.overwrite && await this.resolveTemplate(newUri)) {
+            throw vscode.FileSystemError.FileExists(newUri);
+        }
+
+        const template = await this.templateService.getTemplate(summary.id);
+        if (!template) {
+            throw vscode.FileSystemError.Unavailable(oldUri);
+        }
+
+        const updated = await this.templateService.updateTemplate(template.id, {
+            ...template,
+            name: this.getTemplateName(newUri),
+            category: newUri.authority
+        });
+        if (!updated) {
+            throw vscode.FileSystemError.Unavailable(oldUri);
+        }
+
+        this.templates.delete(oldUri.toString());
+        this.templates.set(newUri.toString(), { ...template, ...updated });
+        this._onDidChangeFile.fire([
+            { type: vscode.FileChangeType.Deleted, uri: oldUri },
+            { type: vscode.FileChangeType.Created, uri: newUri }
+        ]);
+    }
+
+    private isCategory(uri: vscode.Uri): boolean {
+        return uri.path === '' || uri.path === '/';
+    }
+
+    private getTemplateName(uri: vscode.Uri): string {
+        return fromFileName(uri.path.replace(/^\//, ''));
+    }
+
+    // Map a URI back to a template, falling back to the server list after a reload
+    private async resolveTemplate(uri: vscode.Uri): Promise<Template | undefined> {
+        const cached = this.templates.get(uri.toString());
+        if (cached) {
+            return cached;
+        }
+
+        const fileName = getTemplateFileName(this.getTemplateName(uri));
+        const templates = await this.templateService.getTemplates();
+        return templates.find(template =>
+            (template.category || 'Uncategorized') === uri.authority &&
+            getTemplateFileName(template.name) === fileName
+        );
+    }
+}
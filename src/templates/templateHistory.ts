@@ -0,0 +1,51 @@
+import * as vscode from 'vscode';
+import { Template, TemplateRevision } from '../types';
+
+const MAX_REVISIONS = 50;
+
+/**
+ * Revisions recorded by this extension each time it saves a template, for servers
+ * that do not keep history themselves. Stored per template in global storage.
+ */
+export class LocalTemplateHistory {
+    constructor(private context: vscode.ExtensionContext) {}
+
+    async getRevisions(templateId: string): Promise<TemplateRevision[]> {
+        try {
+            const data = await vscode.workspace.fs.readFile(this.getHistoryUri(templateId));
+            const revisions = JSON.parse(Buffer.from(data).toString('utf8'));
+            return Array.isArray(revisions) ? revisions : [];
+        } catch {
+            return [];
+        }
+    }
+
+    // Newest first; a revision identical to the latest one is not recorded again
+    async record(template: Template, author?: string): Promise<void> {
+        const revisions = await this.getRevisions(template.id);
+        if (revisions.length > 0 && revisions[0].content === template.content) {
+            return;
+        }
+
+        const createdAt = template.updatedAt || new Date().toISOString();
+        revisions.unshift({
+            id: `${Date.parse(createdAt) || Date.now()}-${revisions.length}`,
+            templateId: template.id,
+            content: template.content || '',
+            author,
+            createdAt,
+            source: 'local'
+        });
+
+        const folder = vscode.Uri.joinPath(this.context.globalStorageUri, 'history');
+        await vscode.workspace.fs.createDirectory(folder);
+        await vscode.workspace.fs.writeFile(
+            this.getHistoryUri(template.id),
+            Buffer.from(JSON.stringify(revisions.slice(0, MAX_REVISIONS), null, 2), 'utf8')
+        );
+    }
+
+    private getHistoryUri(templateId: string): vscode.Uri {
+        return vscode.Uri.joinPath(this.context.globalStorageUri, 'history', `${encodeURIComponent(templateId)}.json`);
+    }
+}
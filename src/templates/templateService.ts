@@ -1,48 +1,44 @@
 import * as vscode from 'vscode';
-import { Template, UsageInfo, TemplateCreateRequest, ApiResponse } from '../types';
-import { httpRequest, HttpOptions } from '../utils/httpClient';
-
+import { Template, TemplateRevision, UsageInfo, TemplateCreateRequest } from '../types';
+import { LoroApiClient } from '../core/apiClient';
+import { RenderFormats } from '../core/formats';
+import { validateTemplateContent, ValidationResult } from '../core/validation';
+import { AuthProvider } from '../auth/authProvider';
+import { ProfileManager } from '../auth/profiles';
+
+// Extension-side wrapper around LoroApiClient: talks to the active profile's endpoint with
+// its key from SecretStorage, and reports failures to the user instead of throwing
 export class TemplateService {
-    private apiEndpoint: string;
-
-    constructor(private context: vscode.ExtensionContext) {
-        const config = vscode.workspace.getConfiguration('loro');
-        this.apiEndpoint = config.get<string>('apiEndpoint', 'https://api.lorotemplates.com');
+    private client: LoroApiClient;
+
+    constructor(
+        private context: vscode.ExtensionContext,
+        private profiles: ProfileManager,
+        private authProvider: AuthProvider
+    ) {
+        this.client = this.createClient();
     }
 
-    private async getApiKey(): Promise<string | null> {
-        return await this.context.secrets.get('loro.apiKey') || null;
+    // Point the client at the active profile again after switching environments
+    reload(): void {
+        this.client = this.createClient();
     }
 
-    private async makeApiCall<T>(endpoint: string, options: HttpOptions = {}): Promise<T> {
-        const apiKey = await this.getApiKey();
-        if (!apiKey) {
-            throw new Error('Not authenticated. Please login first.');
-        }
-
-        const response = await httpRequest(`${this.apiEndpoint}${endpoint}`, {
-            ...options,
-            headers: {
-                'X-API-Key': apiKey,
-                'Content-Type': 'application/json',
-                ...options.headers
-            }
+    private createClient(): LoroApiClient {
+        return new LoroApiClient({
+            endpoint: this.profiles.getActiveProfile().endpoint,
+            getApiKey: () => this.getApiKey()
         });
+    }
 
-        if (!response.ok) {
-            const errorText = await response.text();
-            throw new Error(`API call failed: ${response.status} ${response.statusText} - ${errorText}`);
-        }
-
-        return await response.json() as T;
+    private async getApiKey(): Promise<string | null> {
+        return await this.context.secrets.get(this.authProvider.getApiKeySecret()) || null;
     }
 
     async getTemplates(): Promise<Template[]> {
         try {
             console.log('Fetching templates from API...');
-            const response = await this.makeApiCall<Template[]>('/api/templates');
-            console.log('Templates response:', response);
-            const templates = Array.isArray(response) ? response : [];
+            const templates = await this.client.getTemplates();
             console.log(`Found ${templates.length} templates`);
             return templates;
         } catch (error) {
@@ -55,27 +51,7 @@ export class TemplateService {
     async getTemplate(id: string): Promise<Template | null> {
         try {
             console.log(`Fetching template with id: ${id}`);
-            const response = await this.makeApiCall<any>(`/api/templates/${id}`);
-            console.log('Raw API response:', response);
-
-            // Normalize the template to ensure camelCase field names
-            const template: Template = {
-                id: response.id || response.Id,
-                name: response.name || response.Name,
-                category: response.category || response.Category,
-                description: response.description || response.Description,
-                content: response.content || response.Content,
-                sampleData: response.sampleData || response.SampleData || null,
-                isActive: response.isActive !== undefined ? response.isActive : response.IsActive,
-                createdAt: response.createdAt || response.CreatedAt,
-                updatedAt: response.updatedAt || response.UpdatedAt,
-                userId: response.userId || response.UserId,
-                schema: response.schema || response.Schema
-            };
-
-            console.log('Normalized template:', template);
-            console.log('SampleData value:', template.sampleData);
-            return template;
+            return await this.client.getTemplate(id);
         } catch (error) {
             console.error('Error fetching template:', error);
             vscode.window.showErrorMessage(`Failed to fetch template: ${error}`);
@@ -85,28 +61,7 @@ export class TemplateService {
 
     async createTemplate(templateData: TemplateCreateRequest): Promise<Template | null> {
         try {
-            // Convert to PascalCase for API (API expects C# naming conventions)
-            const requestBody = {
-                Name: templateData.name,
-                Category: templateData.category,
-                Description: templateData.description,
-                Content: templateData.content,
-                IsActive: templateData.isActive,
-                SampleData: templateData.sampleData
-            };
-            
-            // Remove undefined fields
-            Object.keys(requestBody).forEach(key => {
-                if (requestBody[key as keyof typeof requestBody] === undefined) {
-                    delete requestBody[key as keyof typeof requestBody];
-                }
-            });
-            
-            const template = await this.makeApiCall<Template>('/api/templates', {
-                method: 'POST',
-                body: JSON.stringify(requestBody)
-            });
-            return template;
+            return await this.client.createTemplate(templateData);
         } catch (error) {
             console.error('Error creating template:', error);
             vscode.window.showErrorMessage(`Failed to create template: ${error}`);
@@ -116,55 +71,7 @@ export class TemplateService {
 
     async updateTemplate(id: string, templateData: Partial<Template>): Promise<Template | null> {
         try {
-            // Validate that we have the required fields
-            if (!templateData.name) {
-                throw new Error('Name field is required');
-            }
-            if (!templateData.content) {
-                throw new Error('Content field is required');
-            }
-            
-            // Convert to PascalCase for API (API expects C# naming conventions)
-            const requestBody: any = {
-                Id: id,
-                Name: templateData.name,
-                Description: templateData.description || '',
-                Content: templateData.content,
-                Category: templateData.category || 'General',
-                IsActive: templateData.isActive !== undefined ? templateData.isActive : true,
-                Schema: templateData.schema || null,
-                SampleData: templateData.sampleData || null,
-                UpdatedAt: new Date().toISOString()
-            };
-            
-            // Remove undefined fields but keep null and empty string values
-            Object.keys(requestBody).forEach(key => {
-                if (requestBody[key] === undefined) {
-                    delete requestBody[key];
-                }
-            });
-            
-            const template = await this.makeApiCall<Template | null>(`/api/templates/${id}`, {
-                method: 'PUT',
-                body: JSON.stringify(requestBody)
-            });
-            // If API returns 204 No Content, consider it successful
-            if (template === null) {
-                // Return the data we sent as confirmation
-                return {
-                    id: id,
-                    name: templateData.name!,
-                    category: templateData.category!,
-                    description: templateData.description!,
-                    content: templateData.content!,
-                    isActive: templateData.isActive!,
-                    sampleData: templateData.sampleData || null,
-                    schema: templateData.schema || null,
-                    createdAt: '',
-                    updatedAt: new Date().toISOString()
-                } as Template;
-            }
-            return template;
+            return await this.client.updateTemplate(id, templateData);
         } catch (error) {
             console.error('Error updating template:', error);
             vscode.window.showErrorMessage(`Failed to update template: ${error}`);
@@ -172,11 +79,19 @@ export class TemplateService {
         }
     }
 
+    // Returns null when the server does not keep revision history, so callers can fall back to local history
+    async getTemplateRevisions(id: string): Promise<TemplateRevision[] | null> {
+        try {
+            return await this.client.getTemplateRevisions(id);
+        } catch (error) {
+            console.log('Template revisions are not available from the server:', error);
+            return null;
+        }
+    }
+
     async deleteTemplate(id: string): Promise<boolean> {
         try {
-            await this.makeApiCall(`/api/templates/${id}`, {
-                method: 'DELETE'
-            });
+            await this.client.deleteTemplate(id);
             return true;
         } catch (error) {
             console.error('Error deleting template:', error);
@@ -185,25 +100,24 @@ export class TemplateService {
         }
     }
 
-    async testTemplate(id: string, sampleData: any): Promise<any> {
-        try {
-            console.log(`Testing template ${id} with data:`, sampleData);
-            const result = await this.makeApiCall(`/api/templates/${id}/render?inputFormat=json&outputFormat=json`, {
-                method: 'POST',
-                body: JSON.stringify(sampleData)
-            });
-            console.log('Template test API response:', result);
-            return result;
-        } catch (error) {
-            console.error('Error testing template:', error);
-            throw error;
-        }
+    // Raw render response; errors are thrown so the caller can report them as a failed test
+    async testTemplate(id: string, sampleData: any, formats?: RenderFormats): Promise<any> {
+        return this.client.renderTemplate(id, sampleData, formats);
+    }
+
+    // Render ad-hoc content (e.g. unsaved editor text) without storing it as a template
+    async renderContent(content: string, sampleData: any, formats?: RenderFormats): Promise<any> {
+        return this.client.renderContent(content, sampleData, formats);
+    }
+
+    // The underlying client, for core helpers that take one
+    getClient(): LoroApiClient {
+        return this.client;
     }
 
     async getUsage(): Promise<UsageInfo | null> {
         try {
-            const usage = await this.makeApiCall<UsageInfo>('/api/usage/dashboard');
-            return usage;
+            return await this.client.getUsage();
         } catch (error) {
             console.error('Error fetching usage:', error);
             return null;
@@ -242,43 +156,8 @@ export class TemplateService {
         return categorized;
     }
 
-    // Method to validate template content (basic validation)
-    validateTemplateContent(content: string): { isValid: boolean; errors: string[] } {
-        const errors: string[] = [];
-        
-        // Basic Scriban syntax validation
-        const openBraces = (content.match(/{{/g) || []).length;
-        const closeBraces = (content.match(/}}/g) || []).length;
-        
-        if (openBraces !== closeBraces) {
-            errors.push('Mismatched {{ }} braces');
-        }
-
-        const openStatements = (content.match(/{%/g) || []).length;
-        const closeStatements = (content.match(/%}/g) || []).length;
-        
-        if (openStatements !== closeStatements) {
-            errors.push('Mismatched {% %} statement braces');
-        }
-
-        // Check for common Scriban block endings
-        const ifBlocks = (content.match(/{%\s*if/g) || []).length;
-        const endifBlocks = (content.match(/{%\s*endif/g) || []).length;
-        
-        if (ifBlocks !== endifBlocks) {
-            errors.push('Mismatched if/endif blocks');
-        }
-
-        const forBlocks = (content.match(/{%\s*for/g) || []).length;
-        const endforBlocks = (content.match(/{%\s*endfor/g) || []).length;
-        
-        if (forBlocks !== endforBlocks) {
-            errors.push('Mismatched for/endfor blocks');
-        }
-
-        return {
-            isValid: errors.length === 0,
-            errors
-        };
+    // Method to validate template content against the Scriban parser
+    validateTemplateContent(content: string): ValidationResult {
+        return validateTemplateContent(content);
     }
 }
\ No newline at end of file
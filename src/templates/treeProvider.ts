@@ -45,7 +45,7 @@ export class TemplateTreeProvider implements vscode.TreeDataProvider<TemplateTre
             }
         } else if (element.contextValue === 'category') {
             // Category level - show templates in this category
-            const categoryTemplates = this.templates.filter(t => t.category === element.id);
+            const categoryTemplates = this.templates.filter(t => (t.category || 'Uncategorized') === element.id);
             return categoryTemplates.map(template => 
                 new TemplateTreeItem(
                     template.name, 
@@ -86,19 +86,53 @@ export class TemplateTreeProvider implements vscode.TreeDataProvider<TemplateTre
         // Create category tree items
         const categoryItems: TemplateTreeItem[] = [];
         for (const [categoryName, templates] of categories.entries()) {
-            const categoryItem = new TemplateTreeItem(
-                `${categoryName} (${templates.length})`,
-                categoryName,
-                vscode.TreeItemCollapsibleState.Collapsed,
-                'category'
-            );
-            categoryItem.iconPath = new vscode.ThemeIcon('folder');
-            categoryItems.push(categoryItem);
+            categoryItems.push(this.createCategoryItem(categoryName, templates.length));
         }
 
         return categoryItems.sort((a, b) => a.label!.toString().localeCompare(b.label!.toString()));
     }
 
+    private createCategoryItem(categoryName: string, count: number): TemplateTreeItem {
+        const categoryItem = new TemplateTreeItem(
+            `${categoryName} (${count})`,
+            categoryName,
+            vscode.TreeItemCollapsibleState.Collapsed,
+            'category'
+        );
+        categoryItem.iconPath = new vscode.ThemeIcon('folder');
+        return categoryItem;
+    }
+
+    getParent(element: TemplateTreeItem): TemplateTreeItem | undefined {
+        if (!element.template || !this.groupByCategory) {
+            return undefined;
+        }
+
+        const categoryName = element.template.category || 'Uncategorized';
+        const count = this.templates.filter(t => (t.category || 'Uncategorized') === categoryName).length;
+        return this.createCategoryItem(categoryName, count);
+    }
+
+    // Find the tree item for a template so it can be revealed in the view
+    async findTemplateItem(predicate: (template: Template) => boolean): Promise<TemplateTreeItem | undefined> {
+        if (this.templates.length === 0) {
+            await this.loadTemplates();
+        }
+
+        const template = this.templates.find(predicate);
+        if (!template) {
+            return undefined;
+        }
+
+        return new TemplateTreeItem(
+            template.name,
+            template.id,
+            vscode.TreeItemCollapsibleState.None,
+            'template',
+            template
+        );
+    }
+
     // Method to toggle between category view and flat view
     toggleGroupByCategory(): void {
         this.groupByCategory = !this.groupByCategory;
@@ -121,7 +155,7 @@ export class TemplateTreeProvider implements vscode.TreeDataProvider<TemplateTre
     }
 }
 
-class TemplateTreeItem extends vscode.TreeItem {
+export class TemplateTreeItem extends vscode.TreeItem {
     constructor(
         public readonly label: string,
         public readonly id: string,
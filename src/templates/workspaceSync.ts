@@ -0,0 +1,383 @@
+import * as vscode from 'vscode';
+import { createHash } from 'crypto';
+import { Template } from '../types';
+import { TemplateService } from './templateService';
+import { ProfileManager } from '../auth/profiles';
+import {
+    TEMPLATE_EXTENSION,
+    TemplateFiles,
+    TemplateMetadata,
+    getMetadataPath,
+    parseMetadata,
+    serializeMetadata,
+    toTemplateFiles,
+    toTemplateUpdate
+} from '../core/templateFiles';
+
+const SYNC_STATE_KEY = 'loro.syncState';
+// Which profile each sync folder mirrors, so two environments never sync into the same files
+const FOLDER_PROFILES_KEY = 'loro.syncFolderProfiles';
+
+// What the last sync saw for a template, used to tell which side changed since
+interface SyncEntry {
+    path: string;
+    remoteUpdatedAt: string;
+    localHash: string;
+}
+
+interface LocalTemplate extends TemplateFiles {
+    hash: string;
+}
+
+export interface SyncResult {
+    pulled: string[];
+    pushed: string[];
+    conflicts: { id: string; name: string }[];
+    untracked: string[];
+    errors: string[];
+}
+
+/**
+ * Mirrors the account's templates into <workspace>/<syncFolder>/<category>/<name>.sbn
+ * with a <name>.json sidecar for the remaining metadata, so templates can be kept in git.
+ * Whichever side changed since the last sync wins; changes on both sides are reported
+ * as conflicts and left untouched until resolved.
+ */
+export class WorkspaceSyncService implements vscode.Disposable {
+    private syncing: Promise<SyncResult> | undefined;
+    private watcher: vscode.FileSystemWatcher | undefined;
+    private debounceTimer: NodeJS.Timeout | undefined;
+
+    constructor(
+        private context: vscode.ExtensionContext,
+        private templateService: TemplateService,
+        private profiles: ProfileManager
+    ) {}
+
+    getSyncFolder(): vscode.Uri | undefined {
+        const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
+        if (!workspaceFolder) {
+            return undefined;
+        }
+        const folderName = this.profiles.getActiveProfile().syncFolder
+            || vscode.workspace.getConfiguration('loro').get<string>('syncFolder', 'loro');
+        return vscode.Uri.joinPath(workspaceFolder.uri, folderName);
+    }
+
+    async hasSyncFolder(): Promise<boolean> {
+        const folder = this.getSyncFolder();
+        if (!folder) {
+            return false;
+        }
+        try {
+            await vscode.workspace.fs.stat(folder);
+            return true;
+        } catch {
+            return false;
+        }
+    }
+
+    // Re-sync shortly after local files under the sync folder change
+    watch(): void {
+        const folder = this.getSyncFolder();
+        if (!folder || this.watcher) {
+            return;
+        }
+
+        this.watcher = vscode.workspace.createFileSystemWatcher(new vscode.RelativePattern(folder, '**/*'));
+        const schedule = () => {
+            if (this.debounceTimer) {
+                clearTimeout(this.debounceTimer);
+            }
+            this.debounceTimer = setTimeout(() => {
+                this.sync().catch(error => console.error('Automatic template sync failed:', error));
+            }, 2000);
+        };
+        this.watcher.onDidChange(schedule);
+        this.watcher.onDidCreate(schedule);
+    }
+
+    // Stop watching, e.g. before switching to a profile with another sync folder
+    unwatch(): void {
+        if (this.debounceTimer) {
+            clearTimeout(this.debounceTimer);
+        }
+        this.watcher?.dispose();
+        this.watcher = undefined;
+    }
+
+    // Runs one full pull/push pass; concurrent callers share the pass in progress
+    sync(): Promise<SyncResult> {
+        if (!this.syncing) {
+            this.syncing = this.runSync().finally(() => {
+                this.syncing = undefined;
+            });
+        }
+        return this.syncing;
+    }
+
+    // Settle conflicts by overwriting one side with the other
+    async resolveConflicts(templateIds: string[], keep: 'local' | 'server'): Promise<SyncResult> {
+        const result = this.emptyResult();
+        const folder = this.getSyncFolder();
+        if (!folder) {
+            return result;
+        }
+
+        await this.claimFolder(folder);
+        const state = this.getState();
+        const local = await this.readLocalTemplates(folder, result);
+
+        for (const id of templateIds) {
+            const localTemplate = local.get(id);
+            try {
+                const remote = await this.templateService.getTemplate(id);
+                if (!remote) {
+                    result.errors.push(`Template ${id} no longer exists on the server`);
+                    continue;
+                }
+                if (keep === 'local' && localTemplate) {
+                    state[id] = await this.push(localTemplate);
+                    result.pushed.push(localTemplate.name);
+                } else {
+                    state[id] = await this.pull(folder, remote, localTemplate);
+                    result.pulled.push(remote.name);
+                }
+            } catch (error) {
+                result.errors.push(`${localTemplate?.name || id}: ${error instanceof Error ? error.message : String(error)}`);
+            }
+        }
+
+        await this.context.workspaceState.update(this.getStateKey(), state);
+        return result;
+    }
+
+    private async runSync(): Promise<SyncResult> {
+        const result = this.emptyResult();
+        const folder = this.getSyncFolder();
+        if (!folder) {
+            throw new Error('Open a workspace folder to sync templates into');
+        }
+
+        await this.claimFolder(folder);
+        await vscode.workspace.fs.createDirectory(folder);
+
+        const state = this.getState();
+        const local = await this.readLocalTemplates(folder, result);
+        const remoteTemplates = await this.templateService.getTemplates();
+        const remoteIds = new Set(remoteTemplates.map(template => template.id));
+
+        for (const summary of remoteTemplates) {
+            const entry = state[summary.id];
+            const localTemplate = local.get(summary.id);
+
+            try {
+                const remoteChanged = !entry || entry.remoteUpdatedAt !== summary.updatedAt;
+                const localChanged = !!entry && !!localTemplate && localTemplate.hash !== entry.localHash;
+
+                if (!localTemplate) {
+                    // New on the server, or deleted locally: restore the server copy
+                    state[summary.id] = await this.pull(folder, await this.fetch(summary.id));
+                    result.pulled.push(summary.name);
+                } else if (!entry) {
+                    // Files exist but were never synced here (e.g. freshly cloned from git)
+                    const remote = await this.fetch(summary.id);
+                    if (this.hashLocal(this.toLocal(remote)) === localTemplate.hash) {
+                        state[summary.id] = this.toEntry(localTemplate, remote.updatedAt);
+                    } else {
+                        result.conflicts.push({ id: summary.id, name: summary.name });
+                    }
+                } else if (remoteChanged && localChanged) {
+                    result.conflicts.push({ id: summary.id, name: summary.name });
+                } else if (remoteChanged) {
+                    state[summary.id] = await this.pull(folder, await this.fetch(summary.id), localTemplate);
+                    result.pulled.push(summary.name);
+                } else if (localChanged) {
+                    state[summary.id] = await this.push(localTemplate);
+                    result.pushed.push(localTemplate.name);
+                }
+            } catch (error) {
+                result.errors.push(`${summary.name}: ${error instanceof Error ? error.message : String(error)}`);
+            }
+        }
+
+        // Deleted on the server: stop tracking but leave the files for the user to remove
+        for (const id of Object.keys(state)) {
+            if (!remoteIds.has(id)) {
+                delete state[id];
+            }
+        }
+
+        for (const [id, localTemplate] of local) {
+            if (!remoteIds.has(id)) {
+                result.untracked.push(localTemplate.path);
+            }
+        }
+
+        await this.context.workspaceState.update(this.getStateKey(), state);
+        return result;
+    }
+
+    private async fetch(id: string): Promise<Template> {
+        const template = await this.templateService.getTemplate(id);
+        if (!template) {
+            throw new Error('Template could not be loaded from the server');
+        }
+        return template;
+    }
+
+    private async pull(folder: vscode.Uri, remote: Template, previous?: LocalTemplate): Promise<SyncEntry> {
+        const localTemplate = this.toLocal(remote);
+        const templateUri = vscode.Uri.joinPath(folder, localTemplate.path);
+        const metadataUri = this.getMetadataUri(templateUri);
+
+        // Renamed or moved on the server: drop the files at the old location
+        if (previous && previous.path !== localTemplate.path) {
+            const previousUri = vscode.Uri.joinPath(folder, previous.path);
+            await this.deleteIfExists(previousUri);
+            await this.deleteIfExists(this.getMetadataUri(previousUri));
+        }
+
+        await vscode.workspace.fs.createDirectory(vscode.Uri.joinPath(templateUri, '..'));
+        await vscode.workspace.fs.writeFile(templateUri, Buffer.from(localTemplate.content, 'utf8'));
+        await vscode.workspace.fs.writeFile(metadataUri, Buffer.from(serializeMetadata(localTemplate.metadata), 'utf8'));
+
+        return this.toEntry(localTemplate, remote.updatedAt);
+    }
+
+    private async push(localTemplate: LocalTemplate): Promise<SyncEntry> {
+        const { metadata } = localTemplate;
+        if (!await this.templateService.updateTemplate(metadata.id, toTemplateUpdate(localTemplate))) {
+            throw new Error('The server did not accept the update');
+        }
+
+        // The server assigns the new updatedAt
+        const remote = await this.fetch(metadata.id);
+        return this.toEntry(localTemplate, remote.updatedAt);
+    }
+
+    private async readLocalTemplates(folder: vscode.Uri, result: SyncResult): Promise<Map<string, LocalTemplate>> {
+        const templates = new Map<string, LocalTemplate>();
+
+        let categories: [string, vscode.FileType][];
+        try {
+            categories = await vscode.workspace.fs.readDirectory(folder);
+        } catch {
+            return templates;
+        }
+
+        for (const [category, categoryType] of categories) {
+            if (categoryType !== vscode.FileType.Directory) {
+                continue;
+            }
+
+            const categoryUri = vscode.Uri.joinPath(folder, category);
+            for (const [fileName, fileType] of await vscode.workspace.fs.readDirectory(categoryUri)) {
+                if (fileType !== vscode.FileType.File || !fileName.endsWith(TEMPLATE_EXTENSION)) {
+                    continue;
+                }
+
+                const path = `${category}/${fileName}`;
+                const templateUri = vscode.Uri.joinPath(categoryUri, fileName);
+                const metadata = await this.readMetadata(this.getMetadataUri(templateUri));
+                if (!metadata) {
+                    // Created locally; new templates are created from the extension, not by sync
+                    result.untracked.push(path);
+                    continue;
+                }
+
+                const content = Buffer.from(await vscode.workspace.fs.readFile(templateUri)).toString('utf8');
+                const localTemplate: LocalTemplate = {
+                    path,
+                    name: fileName.slice(0, -TEMPLATE_EXTENSION.length),
+                    category,
+                    content,
+                    metadata,
+                    hash: ''
+                };
+                localTemplate.hash = this.hashLocal(localTemplate);
+                templates.set(metadata.id, localTemplate);
+            }
+        }
+
+        return templates;
+    }
+
+    private async readMetadata(uri: vscode.Uri): Promise<TemplateMetadata | undefined> {
+        try {
+            return parseMetadata(Buffer.from(await vscode.workspace.fs.readFile(uri)).toString('utf8'));
+        } catch {
+            return undefined;
+        }
+    }
+
+    private toLocal(template: Template): LocalTemplate {
+        const localTemplate: LocalTemplate = { ...toTemplateFiles(template), hash: '' };
+        localTemplate.hash = this.hashLocal(localTemplate);
+        return localTemplate;
+    }
+
+    private toEntry(localTemplate: LocalTemplate, remoteUpdatedAt: string): SyncEntry {
+        return { path: localTemplate.path, remoteUpdatedAt, localHash: localTemplate.hash };
+    }
+
+    // Covers the path too, so a local rename or move counts as a change
+    private hashLocal(localTemplate: LocalTemplate): string {
+        return createHash('sha1')
+            .update(localTemplate.path)
+            .update('\0')
+            .update(localTemplate.content)
+            .update('\0')
+            .update(serializeMetadata(localTemplate.metadata))
+            .digest('hex');
+    }
+
+    private getMetadataUri(templateUri: vscode.Uri): vscode.Uri {
+        return templateUri.with({ path: getMetadataPath(templateUri.path) });
+    }
+
+    private async deleteIfExists(uri: vscode.Uri): Promise<void> {
+        try {
+            await vscode.workspace.fs.delete(uri);
+        } catch {
+            // Already gone
+        }
+    }
+
+    private getState(): { [templateId: string]: SyncEntry } {
+        return { ...this.context.workspaceState.get<{ [templateId: string]: SyncEntry }>(this.getStateKey(), {}) };
+    }
+
+    // Template ids differ between environments, so each profile tracks its own sync state
+    private getStateKey(): string {
+        return SYNC_STATE_KEY + this.profiles.getActiveProfile().storageSuffix;
+    }
+
+    // Folders synced before profiles were configured belong to whichever profile syncs them first
+    private async claimFolder(folder: vscode.Uri): Promise<void> {
+        if (!this.profiles.hasProfiles()) {
+            return;
+        }
+
+        const profile = this.profiles.getActiveProfile().name;
+        const owners = this.context.workspaceState.get<{ [folder: string]: string }>(FOLDER_PROFILES_KEY, {});
+        const owner = owners[folder.toString()];
+        if (owner && owner !== profile) {
+            throw new Error(
+                `${vscode.workspace.asRelativePath(folder)} mirrors the "${owner}" profile. ` +
+                `Give "${profile}" its own syncFolder in loro.profiles to sync it into the workspace too.`
+            );
+        }
+        if (!owner) {
+            await this.context.workspaceState.update(FOLDER_PROFILES_KEY, { ...owners, [folder.toString()]: profile });
+        }
+    }
+
+    private emptyResult(): SyncResult {
+        return { pulled: [], pushed: [], conflicts: [], untracked: [], errors: [] };
+    }
+
+    dispose(): void {
+        this.unwatch();
+    }
+}
@@ -0,0 +1,64 @@
+import * as vscode from 'vscode';
+import { Template, TestResult } from '../types';
+import { ReadOnlyDocumentProvider } from '../templates/readOnlyDocumentProvider';
+import { RenderFormats } from '../core/formats';
+import { isHtml } from '../core/emailHtml';
+import { TestRunner } from './testRunner';
+
+const RENDER_PATH_PREFIX = 'renders';
+
+// One side of a comparison: the saved server copy of a template, or content such as the editor text
+export interface RenderVariant {
+    label: string;
+    template?: Template;
+    content?: string;
+    schema?: string;
+    data: any;
+    formats?: RenderFormats;
+}
+
+/**
+ * Renders two variants of a template (saved vs. editor, or one dataset vs. another)
+ * and opens the outputs side by side in a diff editor.
+ */
+export class RenderComparisonService {
+    constructor(
+        private testRunner: TestRunner,
+        private readOnlyDocuments: ReadOnlyDocumentProvider
+    ) {}
+
+    async compare(name: string, left: RenderVariant, right: RenderVariant): Promise<void> {
+        const [leftResult, rightResult] = await Promise.all([this.render(left), this.render(right)]);
+        const results = [[left, leftResult], [right, rightResult]] as [RenderVariant, TestResult][];
+        const errors = results
+            .filter(([, result]) => !result.success)
+            .map(([variant, result]) => `${variant.label}: ${(result.errors || []).join('\n') || 'The template did not render'}`);
+        if (errors.length > 0) {
+            throw new Error(errors.join('\n'));
+        }
+
+        // Named by the output type so the diff editor highlights it
+        const extension = isHtml(leftResult.output) || isHtml(rightResult.output) ? 'html' : 'txt';
+        const createDocument = (variant: RenderVariant, output: string) => this.readOnlyDocuments.createDocument(
+            `${RENDER_PATH_PREFIX}/${toPathSegment(name)}/${toPathSegment(variant.label)}/${toPathSegment(name)}.${extension}`,
+            output
+        );
+
+        await vscode.commands.executeCommand(
+            'vscode.diff',
+            createDocument(left, leftResult.output),
+            createDocument(right, rightResult.output),
+            `${name}: ${left.label} ↔ ${right.label}`
+        );
+    }
+
+    private render(variant: RenderVariant): Promise<TestResult> {
+        return variant.content === undefined && variant.template
+            ? this.testRunner.testTemplate(variant.template, variant.data, variant.formats)
+            : this.testRunner.testContent(variant.content ?? '', variant.data, variant.schema, variant.formats);
+    }
+}
+
+function toPathSegment(name: string): string {
+    return name.replace(/[\\/]/g, '_');
+}
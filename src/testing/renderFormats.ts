@@ -0,0 +1,31 @@
+import * as vscode from 'vscode';
+import { DEFAULT_RENDER_FORMATS, RenderFormats, isInputFormat, isOutputFormat } from '../core/formats';
+
+const STATE_KEY = 'loro.renderFormats';
+
+/**
+ * The input and output formats last used to render each template, kept in workspace
+ * state. Server templates are keyed by id, other Scriban files by document URI.
+ */
+export class RenderFormatStore {
+    constructor(private state: vscode.Memento) {}
+
+    get(key: string | undefined): RenderFormats {
+        const stored = key ? this.state.get<{ [key: string]: RenderFormats }>(STATE_KEY, {})[key] : undefined;
+        return {
+            input: isInputFormat(stored?.input) ? stored!.input : DEFAULT_RENDER_FORMATS.input,
+            output: isOutputFormat(stored?.output) ? stored!.output : DEFAULT_RENDER_FORMATS.output
+        };
+    }
+
+    async set(key: string, formats: RenderFormats): Promise<void> {
+        const all = this.state.get<{ [key: string]: RenderFormats }>(STATE_KEY, {});
+        await this.state.update(STATE_KEY, { ...all, [key]: formats });
+    }
+
+    // Saved data is a JSON value or the text of another format; values always go as JSON
+    getForData(key: string | undefined, data: any): RenderFormats {
+        const formats = this.get(key);
+        return typeof data === 'string' ? formats : { ...formats, input: 'json' };
+    }
+}
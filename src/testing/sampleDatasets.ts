@@ -0,0 +1,76 @@
+import * as vscode from 'vscode';
+import { SampleDatasetFile, getDatasetFilePath, parseDatasetFile, serializeDatasetFile } from '../core/datasets';
+import { FakeDataOptions } from '../core/fakeData';
+
+// What datasets are stored by: server templates by category and name, plain files by name
+export interface DatasetOwner {
+    name: string;
+    category?: string;
+}
+
+/**
+ * Named sample datasets per template, kept as workspace files under
+ * <workspace>/<datasetFolder>/<category>/<template>.datasets.json so they can be
+ * shared in git.
+ */
+export class SampleDatasetService {
+    getDatasetFolder(): vscode.Uri | undefined {
+        const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
+        if (!workspaceFolder) {
+            return undefined;
+        }
+        const folderName = vscode.workspace.getConfiguration('loro').get<string>('datasetFolder', 'loro-datasets');
+        return vscode.Uri.joinPath(workspaceFolder.uri, folderName);
+    }
+
+    getDatasetUri(owner: DatasetOwner): vscode.Uri | undefined {
+        const folder = this.getDatasetFolder();
+        return folder && vscode.Uri.joinPath(folder, getDatasetFilePath(owner.category, owner.name));
+    }
+
+    async load(owner: DatasetOwner): Promise<SampleDatasetFile> {
+        const uri = this.getDatasetUri(owner);
+        if (!uri) {
+            return { datasets: {} };
+        }
+
+        let text: string;
+        try {
+            text = Buffer.from(await vscode.workspace.fs.readFile(uri)).toString('utf8');
+        } catch {
+            // No datasets saved for this template yet
+            return { datasets: {} };
+        }
+
+        const parsed = parseDatasetFile(text);
+        if (!parsed.file) {
+            throw new Error(`${vscode.workspace.asRelativePath(uri)}: ${parsed.error}`);
+        }
+        return parsed.file;
+    }
+
+    async save(owner: DatasetOwner, file: SampleDatasetFile): Promise<vscode.Uri> {
+        const uri = this.getDatasetUri(owner);
+        if (!uri) {
+            throw new Error('Open a workspace folder to save sample datasets in');
+        }
+
+        await vscode.workspace.fs.createDirectory(vscode.Uri.joinPath(uri, '..'));
+        await vscode.workspace.fs.writeFile(uri, Buffer.from(serializeDatasetFile(file), 'utf8'));
+        return uri;
+    }
+
+    async getDefault(owner: DatasetOwner): Promise<{ name: string; data: any } | undefined> {
+        const file = await this.load(owner);
+        return file.default ? { name: file.default, data: file.datasets[file.default] } : undefined;
+    }
+}
+
+// Generated values are seeded, so the same template always gets the same data
+export function getFakeDataOptions(): FakeDataOptions {
+    const config = vscode.workspace.getConfiguration('loro');
+    return {
+        seed: config.get<number>('sampleDataSeed', 1),
+        locale: config.get<string>('sampleDataLocale', '') || vscode.env.language
+    };
+}
@@ -0,0 +1,201 @@
+import * as vscode from 'vscode';
+import { Template, TestResult } from '../types';
+import { TemplateService } from '../templates/templateService';
+import { ReadOnlyDocumentProvider } from '../templates/readOnlyDocumentProvider';
+import { getTemplateUri } from '../templates/templateFileSystemProvider';
+import { TestRunner } from './testRunner';
+import { RenderFormats } from '../core/formats';
+
+const SNAPSHOT_EXTENSION = '.snap';
+const RESULT_PATH_PREFIX = 'snapshot-results';
+
+// <dataset>.json next to each <dataset>.snap: what to render the output with
+interface SnapshotRecord {
+    templateId: string;
+    templateName: string;
+    dataset: string;
+    data: any;
+    // Missing for snapshots rendered from JSON to JSON
+    formats?: RenderFormats;
+    recordedAt: string;
+}
+
+export interface SnapshotCheck {
+    snapshotUri: vscode.Uri;
+    record: SnapshotRecord;
+    status: 'matched' | 'changed' | 'error';
+    expected?: string;
+    actual?: string;
+    error?: string;
+}
+
+/**
+ * Golden output tests: the rendered output of a template for a named dataset is
+ * recorded under <workspace>/<snapshotFolder>/<category>/<template>/<dataset>.snap
+ * and later renders are compared against it.
+ */
+export class SnapshotService {
+    // New outputs shown in a diff editor and waiting to be accepted, keyed by document URI
+    private pendingResults = new Map<string, SnapshotCheck>();
+
+    constructor(
+        private templateService: TemplateService,
+        private testRunner: TestRunner,
+        private readOnlyDocuments: ReadOnlyDocumentProvider
+    ) {}
+
+    getSnapshotFolder(): vscode.Uri | undefined {
+        const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
+        if (!workspaceFolder) {
+            return undefined;
+        }
+        const folderName = vscode.workspace.getConfiguration('loro').get<string>('snapshotFolder', 'loro-snapshots');
+        return vscode.Uri.joinPath(workspaceFolder.uri, folderName);
+    }
+
+    async record(template: Template, dataset: string, data: any, formats?: RenderFormats): Promise<vscode.Uri> {
+        const folder = this.getSnapshotFolder();
+        if (!folder) {
+            throw new Error('Open a workspace folder to record snapshots in');
+        }
+
+        const result = await this.render(template, data, formats);
+        if (!result.success) {
+            throw new Error(result.errors && result.errors.length > 0 ? result.errors.join('\n') : 'The template did not render');
+        }
+
+        const templateFolder = vscode.Uri.joinPath(
+            folder,
+            toPathSegment(template.category || 'Uncategorized'),
+            toPathSegment(template.name)
+        );
+        const snapshotUri = vscode.Uri.joinPath(templateFolder, `${toPathSegment(dataset)}${SNAPSHOT_EXTENSION}`);
+        const record: SnapshotRecord = {
+            templateId: template.id,
+            templateName: template.name,
+            dataset,
+            data,
+            formats,
+            recordedAt: new Date().toISOString()
+        };
+
+        await vscode.workspace.fs.createDirectory(templateFolder);
+        await this.writeSnapshot(snapshotUri, record, result.output);
+        return snapshotUri;
+    }
+
+    // Re-render every recorded snapshot, or only those of one template
+    async check(templateId?: string, token?: vscode.CancellationToken): Promise<SnapshotCheck[]> {
+        const folder = this.getSnapshotFolder();
+        if (!folder) {
+            return [];
+        }
+
+        const snapshotFiles = await vscode.workspace.findFiles(new vscode.RelativePattern(folder, `**/*${SNAPSHOT_EXTENSION}`));
+        const checks: SnapshotCheck[] = [];
+        const templates = new Map<string, Promise<Template | null>>();
+
+        for (const snapshotUri of snapshotFiles.sort((a, b) => a.path.localeCompare(b.path))) {
+            if (token?.isCancellationRequested) {
+                break;
+            }
+
+            const record = await this.readRecord(snapshotUri);
+            if (!record || (templateId && record.templateId !== templateId)) {
+                continue;
+            }
+
+            checks.push(await this.checkSnapshot(snapshotUri, record, templates));
+        }
+
+        return checks;
+    }
+
+    async showDiff(check: SnapshotCheck): Promise<void> {
+        const relativePath = vscode.workspace.asRelativePath(check.snapshotUri, false);
+        const resultUri = this.readOnlyDocuments.createDocument(`${RESULT_PATH_PREFIX}/${relativePath}`, check.actual || '');
+        this.pendingResults.set(resultUri.toString(), check);
+
+        await vscode.commands.executeCommand(
+            'vscode.diff',
+            check.snapshotUri,
+            resultUri,
+            `${check.record.templateName} › ${check.record.dataset}: Snapshot ↔ New Output`
+        );
+    }
+
+    // `resultUri` is the new-output side of a diff opened by showDiff
+    async accept(resultUri: vscode.Uri): Promise<SnapshotCheck | undefined> {
+        const check = this.pendingResults.get(resultUri.toString());
+        if (!check || check.actual === undefined) {
+            return undefined;
+        }
+
+        await this.writeSnapshot(check.snapshotUri, { ...check.record, recordedAt: new Date().toISOString() }, check.actual);
+        this.pendingResults.delete(resultUri.toString());
+        return check;
+    }
+
+    private async checkSnapshot(
+        snapshotUri: vscode.Uri,
+        record: SnapshotRecord,
+        templates: Map<string, Promise<Template | null>>
+    ): Promise<SnapshotCheck> {
+        try {
+            if (!templates.has(record.templateId)) {
+                templates.set(record.templateId, this.templateService.getTemplate(record.templateId));
+            }
+            const template = await templates.get(record.templateId);
+            if (!template) {
+                return { snapshotUri, record, status: 'error', error: `Template "${record.templateName}" could not be loaded from the server` };
+            }
+
+            const expected = Buffer.from(await vscode.workspace.fs.readFile(snapshotUri)).toString('utf8');
+            const result = await this.render(template, record.data, record.formats);
+            if (!result.success) {
+                return { snapshotUri, record, status: 'error', expected, error: (result.errors || []).join('\n') || 'The template did not render' };
+            }
+
+            const matched = normalizeLineEndings(expected) === normalizeLineEndings(result.output);
+            return { snapshotUri, record, status: matched ? 'matched' : 'changed', expected, actual: result.output };
+        } catch (error) {
+            return { snapshotUri, record, status: 'error', error: error instanceof Error ? error.message : String(error) };
+        }
+    }
+
+    // Unsaved changes in an open editor win over the server copy, so they can be checked before they are saved
+    private render(template: Template, data: any, formats?: RenderFormats): Promise<TestResult> {
+        const templateUri = getTemplateUri(template).toString();
+        const document = vscode.workspace.textDocuments.find(candidate => candidate.uri.toString() === templateUri);
+        return document?.isDirty
+            ? this.testRunner.testTemplateFromEditor(document, data, template.schema, formats)
+            : this.testRunner.testTemplate(template, data, formats);
+    }
+
+    private async readRecord(snapshotUri: vscode.Uri): Promise<SnapshotRecord | undefined> {
+        try {
+            const data = await vscode.workspace.fs.readFile(this.getRecordUri(snapshotUri));
+            const record = JSON.parse(Buffer.from(data).toString('utf8'));
+            return record && typeof record.templateId === 'string' ? record : undefined;
+        } catch {
+            return undefined;
+        }
+    }
+
+    private async writeSnapshot(snapshotUri: vscode.Uri, record: SnapshotRecord, output: string): Promise<void> {
+        await vscode.workspace.fs.writeFile(snapshotUri, Buffer.from(output, 'utf8'));
+        await vscode.workspace.fs.writeFile(this.getRecordUri(snapshotUri), Buffer.from(`${JSON.stringify(record, null, 2)}\n`, 'utf8'));
+    }
+
+    private getRecordUri(snapshotUri: vscode.Uri): vscode.Uri {
+        return snapshotUri.with({ path: snapshotUri.path.slice(0, -SNAPSHOT_EXTENSION.length) + '.json' });
+    }
+}
+
+function toPathSegment(name: string): string {
+    return name.replace(/[\\/]/g, '_');
+}
+
+function normalizeLineEndings(text: string): string {
+    return text.replace(/\r\n/g, '\n');
+}
@@ -0,0 +1,253 @@
+import * as vscode from 'vscode';
+import { TestResult } from '../types';
+import { TemplateService } from '../templates/templateService';
+import { TestRunner } from './testRunner';
+import {
+    TEST_FILE_SUFFIX,
+    TemplateTestCase,
+    TemplateTestFile,
+    evaluateTestCase,
+    getDefaultTemplatePath,
+    parseTestFile
+} from '../core/testCases';
+
+const TEST_FILE_GLOB = `**/*${TEST_FILE_SUFFIX}`;
+
+/**
+ * Publishes the cases of every `<name>.tests.json` file in the workspace to the
+ * Test Explorer and runs them against the server or the local renderer.
+ */
+export class TemplateTestController implements vscode.Disposable {
+    private controller: vscode.TestController;
+    private disposables: vscode.Disposable[] = [];
+
+    // Parsed contents of each file item, keyed by file URI string
+    private testFiles = new Map<string, TemplateTestFile>();
+    // The case behind each case item
+    private testCases = new WeakMap<vscode.TestItem, TemplateTestCase>();
+
+    constructor(private templateService: TemplateService, private testRunner: TestRunner) {
+        this.controller = vscode.tests.createTestController('loroTemplateTests', 'Loro Templates');
+        this.controller.resolveHandler = async item => {
+            if (!item) {
+                await this.discoverTestFiles();
+            } else {
+                await this.loadTestFile(item.uri!);
+            }
+        };
+        this.controller.refreshHandler = async () => {
+            this.controller.items.replace([]);
+            await this.discoverTestFiles();
+        };
+        this.controller.createRunProfile('Run', vscode.TestRunProfileKind.Run, (request, token) => this.runTests(request, token), true);
+
+        const watcher = vscode.workspace.createFileSystemWatcher(TEST_FILE_GLOB);
+        watcher.onDidCreate(uri => this.loadTestFile(uri));
+        watcher.onDidChange(uri => this.loadTestFile(uri));
+        watcher.onDidDelete(uri => {
+            this.controller.items.delete(uri.toString());
+            this.testFiles.delete(uri.toString());
+        });
+
+        this.disposables.push(this.controller, watcher);
+    }
+
+    private async discoverTestFiles(): Promise<void> {
+        const files = await vscode.workspace.findFiles(TEST_FILE_GLOB, '**/node_modules/**');
+        await Promise.all(files.map(uri => this.loadTestFile(uri)));
+    }
+
+    private async loadTestFile(uri: vscode.Uri): Promise<void> {
+        const fileItem = this.getOrCreateFileItem(uri);
+
+        let text: string;
+        try {
+            text = Buffer.from(await vscode.workspace.fs.readFile(uri)).toString('utf8');
+        } catch (error) {
+            fileItem.error = `Could not read test file: ${error}`;
+            return;
+        }
+
+        const parsed = parseTestFile(text);
+        if (!parsed.file) {
+            fileItem.error = parsed.error;
+            fileItem.children.replace([]);
+            this.testFiles.delete(uri.toString());
+            return;
+        }
+
+        fileItem.error = undefined;
+        this.testFiles.set(uri.toString(), parsed.file);
+
+        const lineStarts = getLineStarts(text);
+        const seen = new Set<string>();
+        fileItem.children.replace(parsed.file.cases.map((testCase, index) => {
+            // Case names should be unique, but keep duplicates runnable
+            const id = seen.has(testCase.name) ? `${testCase.name} (${index + 1})` : testCase.name;
+            seen.add(testCase.name);
+
+            const caseItem = this.controller.createTestItem(`${uri.toString()}#${id}`, id, uri);
+            caseItem.range = toRange(lineStarts, testCase.offset);
+            this.testCases.set(caseItem, testCase);
+            return caseItem;
+        }));
+    }
+
+    private getOrCreateFileItem(uri: vscode.Uri): vscode.TestItem {
+        const existing = this.controller.items.get(uri.toString());
+        if (existing) {
+            return existing;
+        }
+
+        const label = vscode.workspace.asRelativePath(uri);
+        const item = this.controller.createTestItem(uri.toString(), label, uri);
+        item.canResolveChildren = true;
+        this.controller.items.add(item);
+        return item;
+    }
+
+    private async runTests(request: vscode.TestRunRequest, token: vscode.CancellationToken): Promise<void> {
+        const run = this.controller.createTestRun(request);
+        const queue: vscode.TestItem[] = [];
+
+        const roots: vscode.TestItem[] = [];
+        if (request.include) {
+            roots.push(...request.include);
+        } else {
+            this.controller.items.forEach(item => roots.push(item));
+        }
+
+        // Expand file items into their cases
+        for (const item of roots) {
+            if (this.testCases.has(item)) {
+                queue.push(item);
+                continue;
+            }
+            if (item.uri && !this.testFiles.has(item.uri.toString())) {
+                await this.loadTestFile(item.uri);
+            }
+            item.children.forEach(child => queue.push(child));
+        }
+
+        const excluded = new Set(request.exclude || []);
+        const cases = queue.filter(item => !excluded.has(item) && !(item.parent && excluded.has(item.parent)));
+        cases.forEach(item => run.enqueued(item));
+
+        // Read each template once per run
+        const templates = new Map<string, Promise<string | Error>>();
+
+        for (const item of cases) {
+            if (token.isCancellationRequested) {
+                run.skipped(item);
+                continue;
+            }
+
+            const testCase = this.testCases.get(item)!;
+            const file = this.testFiles.get(item.uri!.toString())!;
+            run.started(item);
+
+            const result = await this.renderCase(item.uri!, file, testCase, templates);
+            if (result instanceof Error) {
+                run.errored(item, this.createMessage(item, result.message));
+                continue;
+            }
+
+            if (!result.success) {
+                const errors = result.errors && result.errors.length > 0 ? result.errors.join('\n') : 'The template did not render';
+                run.failed(item, this.createMessage(item, errors), result.duration);
+                continue;
+            }
+
+            const failures = evaluateTestCase(testCase, result.output);
+            if (failures.length === 0) {
+                run.passed(item, result.duration);
+            } else {
+                run.failed(item, failures.map(failure => {
+                    const message = failure.expected !== undefined
+                        ? vscode.TestMessage.diff(failure.message, failure.expected, failure.actual ?? '')
+                        : new vscode.TestMessage(failure.actual !== undefined
+                            ? `${failure.message}\n\nActual output:\n${failure.actual}`
+                            : failure.message);
+                    message.location = this.getLocation(item);
+                    return message;
+                }), result.duration);
+            }
+        }
+
+        run.end();
+    }
+
+    private async renderCase(
+        testFileUri: vscode.Uri,
+        file: TemplateTestFile,
+        testCase: TemplateTestCase,
+        templates: Map<string, Promise<string | Error>>
+    ): Promise<TestResult | Error> {
+        if (file.templateId) {
+            const template = await this.templateService.getTemplate(file.templateId);
+            if (!template) {
+                return new Error(`Template ${file.templateId} could not be loaded from the server`);
+            }
+            return file.renderer === 'local'
+                ? this.testRunner.renderLocally(template.content, testCase.data)
+                : this.testRunner.testTemplate(template, testCase.data);
+        }
+
+        const templateUri = this.getTemplateUri(testFileUri, file);
+        const key = templateUri.toString();
+        if (!templates.has(key)) {
+            templates.set(key, Promise.resolve(vscode.workspace.fs.readFile(templateUri)).then(
+                data => Buffer.from(data).toString('utf8'),
+                () => new Error(`Template file ${vscode.workspace.asRelativePath(templateUri)} was not found`)
+            ));
+        }
+
+        const content = await templates.get(key)!;
+        if (content instanceof Error) {
+            return content;
+        }
+
+        return file.renderer === 'local'
+            ? this.testRunner.renderLocally(content, testCase.data)
+            : this.testRunner.testContent(content, testCase.data);
+    }
+
+    private getTemplateUri(testFileUri: vscode.Uri, file: TemplateTestFile): vscode.Uri {
+        const folder = vscode.Uri.joinPath(testFileUri, '..');
+        const fileName = testFileUri.path.split('/').pop()!;
+        return vscode.Uri.joinPath(folder, file.template || getDefaultTemplatePath(fileName));
+    }
+
+    private createMessage(item: vscode.TestItem, text: string): vscode.TestMessage {
+        const message = new vscode.TestMessage(text);
+        message.location = this.getLocation(item);
+        return message;
+    }
+
+    private getLocation(item: vscode.TestItem): vscode.Location | undefined {
+        return item.uri && item.range ? new vscode.Location(item.uri, item.range) : undefined;
+    }
+
+    dispose(): void {
+        this.disposables.forEach(disposable => disposable.dispose());
+    }
+}
+
+function getLineStarts(text: string): number[] {
+    const starts = [0];
+    for (let i = 0; i < text.length; i++) {
+        if (text[i] === '\n') {
+            starts.push(i + 1);
+        }
+    }
+    return starts;
+}
+
+function toRange(lineStarts: number[], offset: number): vscode.Range {
+    let line = 0;
+    while (line + 1 < lineStarts.length && lineStarts[line + 1] <= offset) {
+        line++;
+    }
+    const position = new vscode.Position(line, offset - lineStarts[line]);
+    return new vscode.Range(position, position);
+}
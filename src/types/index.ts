@@ -14,6 +14,16 @@ export interface Template {
     schema?: string;
 }
 
+// A previous version of a template, from the server's history or recorded locally on save
+export interface TemplateRevision {
+    id: string;
+    templateId: string;
+    content: string;
+    author?: string;
+    createdAt: string;
+    source: 'server' | 'local';
+}
+
 export interface UsageInfo {
     usageCount: number;
     usageLimit: number;
@@ -27,12 +37,17 @@ export interface UsageInfo {
     percentageUsed: number;
 }
 
+// Where a test render came from: the template's saved server copy, editor content
+// rendered by the server, or the local interpreter
+export type RenderSource = 'saved' | 'unsaved' | 'local';
+
 export interface TestResult {
     success: boolean;
     output: string;
     duration: number;
     errors?: string[];
     usageConsumed?: number;
+    source?: RenderSource;
 }
 
 export interface ApiResponse<T> {
@@ -0,0 +1,150 @@
+// Line-based three-way merge used when a template changed on the server while being edited
+
+export interface MergeResult {
+    text: string;
+    conflicts: number;
+}
+
+export interface MergeLabels {
+    mine: string;
+    theirs: string;
+}
+
+interface Hunk {
+    baseStart: number;
+    baseEnd: number;
+    start: number;
+    end: number;
+}
+
+interface SideHunk extends Hunk {
+    side: 'mine' | 'theirs';
+}
+
+/**
+ * Merge the changes made in `mine` and `theirs` relative to their common `base`.
+ * Changes to different lines are combined; overlapping changes that differ are
+ * written out between git-style conflict markers.
+ */
+export function mergeText(base: string, mine: string, theirs: string, labels: MergeLabels): MergeResult {
+    const eol = mine.includes('\r\n') ? '\r\n' : '\n';
+    const baseLines = splitLines(base);
+    const sides = {
+        mine: splitLines(mine),
+        theirs: splitLines(theirs)
+    };
+
+    const hunks: SideHunk[] = [
+        ...diffLines(baseLines, sides.mine).map(hunk => ({ ...hunk, side: 'mine' as const })),
+        ...diffLines(baseLines, sides.theirs).map(hunk => ({ ...hunk, side: 'theirs' as const }))
+    ].sort((a, b) => a.baseStart - b.baseStart || (a.side === 'mine' ? -1 : 1));
+
+    const output: string[] = [];
+    let conflicts = 0;
+    let basePosition = 0;
+    let i = 0;
+
+    while (i < hunks.length) {
+        // Group hunks whose base ranges touch or overlap
+        const group = [hunks[i]];
+        const start = hunks[i].baseStart;
+        let end = hunks[i].baseEnd;
+        i++;
+        while (i < hunks.length && hunks[i].baseStart <= end) {
+            group.push(hunks[i]);
+            end = Math.max(end, hunks[i].baseEnd);
+            i++;
+        }
+
+        output.push(...baseLines.slice(basePosition, start));
+
+        const mineHunks = group.filter(hunk => hunk.side === 'mine');
+        const theirsHunks = group.filter(hunk => hunk.side === 'theirs');
+        const mineLines = applyHunks(baseLines, sides.mine, mineHunks, start, end);
+        const theirsLines = applyHunks(baseLines, sides.theirs, theirsHunks, start, end);
+
+        if (theirsHunks.length === 0 || sameLines(mineLines, theirsLines)) {
+            output.push(...mineLines);
+        } else if (mineHunks.length === 0) {
+            output.push(...theirsLines);
+        } else {
+            conflicts++;
+            output.push(`<<<<<<< ${labels.mine}`, ...mineLines, '=======', ...theirsLines, `>>>>>>> ${labels.theirs}`);
+        }
+
+        basePosition = end;
+    }
+
+    output.push(...baseLines.slice(basePosition));
+    return { text: output.join(eol), conflicts };
+}
+
+function splitLines(text: string): string[] {
+    return text.split(/\r?\n/);
+}
+
+function sameLines(a: string[], b: string[]): boolean {
+    return a.length === b.length && a.every((line, index) => line === b[index]);
+}
+
+// One side's version of base[start, end) with that side's hunks applied
+function applyHunks(baseLines: string[], sideLines: string[], hunks: Hunk[], start: number, end: number): string[] {
+    const lines: string[] = [];
+    let position = start;
+    for (const hunk of hunks) {
+        lines.push(...baseLines.slice(position, hunk.baseStart), ...sideLines.slice(hunk.start, hunk.end));
+        position = hunk.baseEnd;
+    }
+    lines.push(...baseLines.slice(position, end));
+    return lines;
+}
+
+// Changed regions between two line arrays, from a longest-common-subsequence table
+function diffLines(base: string[], other: string[]): Hunk[] {
+    const rows = base.length;
+    const columns = other.length;
+    const lengths: Uint32Array[] = [];
+    for (let row = 0; row <= rows; row++) {
+        lengths.push(new Uint32Array(columns + 1));
+    }
+    for (let row = rows - 1; row >= 0; row--) {
+        for (let column = columns - 1; column >= 0; column--) {
+            lengths[row][column] = base[row] === other[column]
+                ? lengths[row + 1][column + 1] + 1
+                : Math.max(lengths[row + 1][column], lengths[row][column + 1]);
+        }
+    }
+
+    const hunks: Hunk[] = [];
+    let current: Hunk | undefined;
+    let row = 0;
+    let column = 0;
+
+    while (row < rows || column < columns) {
+        if (row < rows && column < columns && base[row] === other[column]) {
+            if (current) {
+                hunks.push(current);
+                current = undefined;
+            }
+            row++;
+            column++;
+            continue;
+        }
+
+        if (!current) {
+            current = { baseStart: row, baseEnd: row, start: column, end: column };
+        }
+        if (column < columns && (row >= rows || lengths[row][column + 1] >= lengths[row + 1][column])) {
+            column++;
+            current.end = column;
+        } else {
+            row++;
+            current.baseEnd = row;
+        }
+    }
+    if (current) {
+        hunks.push(current);
+    }
+
+    return hunks;
+}
@@ -0,0 +1,242 @@
+import * as vscode from 'vscode';
+import { BulkTestEntry, summarize, toJUnitXml, toJsonReport } from '../core/reports';
+
+export class BulkTestReport {
+    private panel: vscode.WebviewPanel | undefined;
+    private entries: BulkTestEntry[] = [];
+    private title = '';
+    private completedAt = new Date();
+
+    constructor(private context: vscode.ExtensionContext) {}
+
+    public show(title: string, entries: BulkTestEntry[]): void {
+        this.title = title;
+        this.entries = entries;
+        this.completedAt = new Date();
+
+        if (this.panel) {
+            this.panel.title = `Test Report: ${title}`;
+            this.panel.webview.html = this.getWebviewContent();
+            this.panel.reveal(vscode.ViewColumn.One);
+            return;
+        }
+
+        this.panel = vscode.window.createWebviewPanel(
+            'loroBulkTestReport',
+            `Test Report: ${title}`,
+            vscode.ViewColumn.One,
+            {
+                enableScripts: true,
+                retainContextWhenHidden: true
+            }
+        );
+
+        // Handle panel disposal
+        this.panel.onDidDispose(() => {
+            this.panel = undefined;
+        }, null, this.context.subscriptions);
+
+        // Handle messages from webview
+        this.panel.webview.onDidReceiveMessage(
+            async (message) => {
+                switch (message.type) {
+                    case 'export':
+                        await this.exportReport(message.format);
+                        break;
+                    case 'openTemplate':
+                        await vscode.commands.executeCommand('loro.openTemplate', { id: message.templateId });
+                        break;
+                }
+            },
+            null,
+            this.context.subscriptions
+        );
+
+        this.panel.webview.html = this.getWebviewContent();
+    }
+
+    private async exportReport(format: 'junit' | 'json'): Promise<void> {
+        const extension = format === 'junit' ? 'xml' : 'json';
+        const fileName = `loro-test-report.${extension}`;
+        const defaultFolder = vscode.workspace.workspaceFolders?.[0]?.uri;
+
+        const target = await vscode.window.showSaveDialog({
+            defaultUri: defaultFolder ? vscode.Uri.joinPath(defaultFolder, fileName) : undefined,
+            filters: format === 'junit' ? { 'JUnit XML': ['xml'] } : { 'JSON': ['json'] },
+            saveLabel: 'Export Report'
+        });
+        if (!target) {
+            return;
+        }
+
+        const content = format === 'junit'
+            ? toJUnitXml(this.entries, `Loro Templates: ${this.title}`, this.completedAt)
+            : toJsonReport(this.entries, this.completedAt);
+
+        try {
+            await vscode.workspace.fs.writeFile(target, Buffer.from(content, 'utf8'));
+            vscode.window.showInformationMessage(`Test report exported to ${vscode.workspace.asRelativePath(target)}`);
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to export test report: ${error}`);
+        }
+    }
+
+    private getWebviewContent(): string {
+        const summary = summarize(this.entries);
+        const rows = this.entries.map(entry => {
+            const errors = (entry.result.errors || []).join('\n');
+            return `
+                <tr>
+                    <td data-sort="${entry.result.success ? 1 : 0}" class="${entry.result.success ? 'passed' : 'failed'}">
+                        ${entry.result.success ? '✅ Passed' : '❌ Failed'}
+                    </td>
+                    <td data-sort="${escapeHtml(entry.name.toLowerCase())}">
+                        <a href="#" data-template-id="${escapeHtml(entry.templateId)}">${escapeHtml(entry.name)}</a>
+                    </td>
+                    <td data-sort="${escapeHtml(entry.category.toLowerCase())}">${escapeHtml(entry.category)}</td>
+                    <td data-sort="${entry.result.duration}" class="number">${entry.result.duration}ms</td>
+                    <td data-sort="${escapeHtml(errors.toLowerCase())}" class="error">${escapeHtml(errors)}</td>
+                </tr>`;
+        }).join('');
+
+        return `
+        <!DOCTYPE html>
+        <html lang="en">
+        <head>
+            <meta charset="UTF-8">
+            <meta name="viewport" content="width=device-width, initial-scale=1.0">
+            <title>Test Report</title>
+            <style>
+                body {
+                    font-family: var(--vscode-font-family);
+                    color: var(--vscode-foreground);
+                    background: var(--vscode-editor-background);
+                    padding: 20px;
+                }
+                .summary {
+                    display: flex;
+                    gap: 20px;
+                    margin-bottom: 20px;
+                }
+                .summary div {
+                    padding: 10px 15px;
+                    border: 1px solid var(--vscode-panel-border);
+                    border-radius: 4px;
+                }
+                .actions {
+                    margin-bottom: 20px;
+                }
+                button {
+                    background: var(--vscode-button-background);
+                    color: var(--vscode-button-foreground);
+                    border: none;
+                    padding: 6px 14px;
+                    border-radius: 2px;
+                    cursor: pointer;
+                    margin-right: 8px;
+                }
+                button:hover {
+                    background: var(--vscode-button-hoverBackground);
+                }
+                table {
+                    width: 100%;
+                    border-collapse: collapse;
+                }
+                th, td {
+                    text-align: left;
+                    padding: 6px 10px;
+                    border-bottom: 1px solid var(--vscode-panel-border);
+                    vertical-align: top;
+                }
+                th {
+                    cursor: pointer;
+                    user-select: none;
+                    background: var(--vscode-panel-background);
+                }
+                th.sorted-asc::after { content: ' ▲'; }
+                th.sorted-desc::after { content: ' ▼'; }
+                .passed { color: #4CAF50; white-space: nowrap; }
+                .failed { color: #f44336; white-space: nowrap; }
+                .number { text-align: right; white-space: nowrap; }
+                .error {
+                    color: var(--vscode-errorForeground);
+                    white-space: pre-wrap;
+                }
+                a { color: var(--vscode-textLink-foreground); }
+            </style>
+        </head>
+        <body>
+            <h1>Test Report: ${escapeHtml(this.title)}</h1>
+
+            <div class="summary">
+                <div>Total: <strong>${summary.total}</strong></div>
+                <div class="passed">Passed: <strong>${summary.passed}</strong></div>
+                <div class="failed">Failed: <strong>${summary.failed}</strong></div>
+                <div>Duration: <strong>${summary.duration}ms</strong></div>
+                <div>Run at: ${escapeHtml(this.completedAt.toLocaleString())}</div>
+            </div>
+
+            <div class="actions">
+                <button onclick="exportReport('junit')">Export JUnit XML</button>
+                <button onclick="exportReport('json')">Export JSON</button>
+            </div>
+
+            <table>
+                <thead>
+                    <tr>
+                        <th>Status</th>
+                        <th>Template</th>
+                        <th>Category</th>
+                        <th>Duration</th>
+                        <th>Error</th>
+                    </tr>
+                </thead>
+                <tbody>${rows}</tbody>
+            </table>
+
+            <script>
+                const vscode = acquireVsCodeApi();
+
+                function exportReport(format) {
+                    vscode.postMessage({ type: 'export', format });
+                }
+
+                document.querySelectorAll('a[data-template-id]').forEach(link => {
+                    link.addEventListener('click', event => {
+                        event.preventDefault();
+                        vscode.postMessage({ type: 'openTemplate', templateId: link.dataset.templateId });
+                    });
+                });
+
+                // Click a column header to sort, click again to reverse
+                document.querySelectorAll('th').forEach((header, column) => {
+                    header.addEventListener('click', () => {
+                        const ascending = !header.classList.contains('sorted-asc');
+                        document.querySelectorAll('th').forEach(th => th.classList.remove('sorted-asc', 'sorted-desc'));
+                        header.classList.add(ascending ? 'sorted-asc' : 'sorted-desc');
+
+                        const body = document.querySelector('tbody');
+                        const rows = Array.from(body.querySelectorAll('tr'));
+                        rows.sort((a, b) => {
+                            const x = a.children[column].dataset.sort;
+                            const y = b.children[column].dataset.sort;
+                            const result = !isNaN(x) && !isNaN(y) ? Number(x) - Number(y) : x.localeCompare(y);
+                            return ascending ? result : -result;
+                        });
+                        rows.forEach(row => body.appendChild(row));
+                    });
+                });
+            </script>
+        </body>
+        </html>`;
+    }
+}
+
+function escapeHtml(text: string): string {
+    return text
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&#39;');
+}
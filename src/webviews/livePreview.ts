@@ -0,0 +1,363 @@
+import * as vscode from 'vscode';
+import { Template, TestResult } from '../types';
+import { TestRunner } from '../testing/testRunner';
+import { SampleDatasetService, getFakeDataOptions } from '../testing/sampleDatasets';
+import { RenderFormatStore } from '../testing/renderFormats';
+import { TemplateFileSystemProvider, TEMPLATE_SCHEME } from '../templates/templateFileSystemProvider';
+import { DATASETS_FILE_SUFFIX } from '../core/datasets';
+import { inferSampleData } from '../core/sampleData';
+import { parseSampleData } from '../core/testing';
+import { isHtml } from '../core/emailHtml';
+
+export type PreviewRenderer = 'local' | 'server';
+
+// Server renders use API quota, so typing waits longer before sending one
+const RENDER_DELAY: { [renderer in PreviewRenderer]: number } = { local: 300, server: 1500 };
+
+/**
+ * Side-by-side preview of the active Scriban editor that re-renders as you type
+ * (or on save, with `loro.previewRenderOn`). HTML output is shown rendered in a
+ * sandboxed frame; updates are posted to the webview so its scroll position stays.
+ */
+export class LivePreviewPanel implements vscode.Disposable {
+    private panel: vscode.WebviewPanel | undefined;
+    private document: vscode.TextDocument | undefined;
+    private renderer: PreviewRenderer;
+    private renderTimer: NodeJS.Timeout | undefined;
+    // Renders finish out of order; only the newest one is shown
+    private renderVersion = 0;
+    private disposables: vscode.Disposable[] = [];
+
+    constructor(
+        private context: vscode.ExtensionContext,
+        private testRunner: TestRunner,
+        private templateFileSystem: TemplateFileSystemProvider,
+        private datasets: SampleDatasetService,
+        private formats: RenderFormatStore
+    ) {
+        this.renderer = vscode.workspace.getConfiguration('loro').get<PreviewRenderer>('previewRenderer', 'local');
+
+        this.disposables.push(
+            vscode.window.onDidChangeActiveTextEditor(editor => {
+                if (this.panel && editor && editor.document.languageId === 'scriban' && editor.document !== this.document) {
+                    this.setDocument(editor.document);
+                }
+            }),
+            vscode.workspace.onDidChangeTextDocument(event => {
+                if (event.document === this.document && event.contentChanges.length > 0 && getRenderOn() === 'edit') {
+                    this.scheduleRender(RENDER_DELAY[this.renderer]);
+                }
+            }),
+            vscode.workspace.onDidSaveTextDocument(document => {
+                // Saving a dataset file may change the preview's default data
+                if (document === this.document || document.uri.path.endsWith(DATASETS_FILE_SUFFIX)) {
+                    this.scheduleRender(0);
+                }
+            }),
+            vscode.workspace.onDidCloseTextDocument(document => {
+                if (document === this.document) {
+                    this.document = undefined;
+                }
+            })
+        );
+    }
+
+    public show(document: vscode.TextDocument): void {
+        if (this.panel) {
+            this.panel.reveal(vscode.ViewColumn.Beside, true);
+            this.setDocument(document);
+            return;
+        }
+
+        this.panel = vscode.window.createWebviewPanel(
+            'loroLivePreview',
+            'Preview',
+            { viewColumn: vscode.ViewColumn.Beside, preserveFocus: true },
+            {
+                enableScripts: true,
+                retainContextWhenHidden: true
+            }
+        );
+
+        // Handle panel disposal
+        this.panel.onDidDispose(() => {
+            this.panel = undefined;
+            this.document = undefined;
+            clearTimeout(this.renderTimer);
+        }, null, this.context.subscriptions);
+
+        // Handle messages from webview
+        this.panel.webview.onDidReceiveMessage(
+            (message) => {
+                switch (message.type) {
+                    case 'setRenderer':
+                        this.renderer = message.renderer === 'server' ? 'server' : 'local';
+                        this.scheduleRender(0);
+                        break;
+                    case 'refresh':
+                        this.scheduleRender(0);
+                        break;
+                }
+            },
+            null,
+            this.context.subscriptions
+        );
+
+        this.panel.webview.html = this.getWebviewContent();
+        this.setDocument(document);
+    }
+
+    private setDocument(document: vscode.TextDocument): void {
+        this.document = document;
+        if (this.panel) {
+            this.panel.title = `Preview: ${this.getTemplateName(document)}`;
+        }
+        this.scheduleRender(0);
+    }
+
+    private scheduleRender(delay: number): void {
+        clearTimeout(this.renderTimer);
+        this.renderTimer = setTimeout(() => this.render(), delay);
+    }
+
+    private async render(): Promise<void> {
+        const document = this.document;
+        if (!this.panel || !document) {
+            return;
+        }
+
+        const version = ++this.renderVersion;
+        const renderer = this.renderer;
+        this.panel.webview.postMessage({ type: 'rendering', renderer });
+
+        let result: TestResult;
+        let dataSource: string;
+        try {
+            const data = await this.getPreviewData(document);
+            dataSource = data.source;
+            const template = this.getTemplate(document);
+            const formats = this.formats.getForData(template?.id || document.uri.toString(), data.data);
+            result = renderer === 'local'
+                ? await this.testRunner.renderLocally(document.getText(), data.data, template?.schema, formats.input)
+                : await this.testRunner.testContent(document.getText(), data.data, template?.schema, formats);
+        } catch (error) {
+            dataSource = '';
+            result = { success: false, output: '', duration: 0, errors: [error instanceof Error ? error.message : String(error)] };
+        }
+
+        if (version !== this.renderVersion || !this.panel) {
+            return;
+        }
+        this.panel.webview.postMessage({
+            type: 'update',
+            templateName: this.getTemplateName(document),
+            renderer,
+            dataSource,
+            success: result.success,
+            output: result.output,
+            isHtml: isHtml(result.output),
+            errors: result.errors || [],
+            duration: result.duration
+        });
+    }
+
+    // The default dataset, else the template's stored sample data, else data generated from the template
+    private async getPreviewData(document: vscode.TextDocument): Promise<{ data: any; source: string }> {
+        const template = this.getTemplate(document);
+        const owner = { name: this.getTemplateName(document), category: template?.category };
+
+        const dataset = await this.datasets.getDefault(owner);
+        if (dataset) {
+            return { data: dataset.data, source: `dataset "${dataset.name}"` };
+        }
+
+        const sampleData = parseSampleData(template?.sampleData);
+        if (sampleData && Object.keys(sampleData).length > 0) {
+            return { data: sampleData, source: 'template sample data' };
+        }
+        return { data: inferSampleData(document.getText(), getFakeDataOptions()), source: 'generated data' };
+    }
+
+    private getTemplate(document: vscode.TextDocument): Template | undefined {
+        return document.uri.scheme === TEMPLATE_SCHEME ? this.templateFileSystem.getTemplate(document.uri) : undefined;
+    }
+
+    private getTemplateName(document: vscode.TextDocument): string {
+        return this.getTemplate(document)?.name || document.uri.path.split('/').pop() || 'Untitled';
+    }
+
+    private getWebviewContent(): string {
+        return `
+        <!DOCTYPE html>
+        <html lang="en">
+        <head>
+            <meta charset="UTF-8">
+            <meta name="viewport" content="width=device-width, initial-scale=1.0">
+            <title>Preview</title>
+            <style>
+                html, body {
+                    height: 100%;
+                    margin: 0;
+                }
+                body {
+                    display: flex;
+                    flex-direction: column;
+                    font-family: var(--vscode-font-family);
+                    color: var(--vscode-foreground);
+                    background: var(--vscode-editor-background);
+                }
+                .toolbar {
+                    display: flex;
+                    gap: 8px;
+                    align-items: center;
+                    padding: 6px 10px;
+                    border-bottom: 1px solid var(--vscode-panel-border);
+                    font-size: 12px;
+                }
+                .toolbar .status {
+                    flex: 1;
+                    color: var(--vscode-descriptionForeground);
+                    white-space: nowrap;
+                    overflow: hidden;
+                    text-overflow: ellipsis;
+                }
+                .toggle button {
+                    background: var(--vscode-button-secondaryBackground);
+                    color: var(--vscode-button-secondaryForeground);
+                    border: none;
+                    padding: 3px 10px;
+                    cursor: pointer;
+                    font-family: var(--vscode-font-family);
+                    font-size: 12px;
+                }
+                .toggle button.active {
+                    background: var(--vscode-button-background);
+                    color: var(--vscode-button-foreground);
+                }
+                .toolbar > button {
+                    background: none;
+                    border: none;
+                    color: var(--vscode-foreground);
+                    cursor: pointer;
+                }
+                .errors {
+                    display: none;
+                    margin: 0;
+                    padding: 8px 10px;
+                    color: var(--vscode-errorForeground);
+                    background: var(--vscode-inputValidation-errorBackground);
+                    border-bottom: 1px solid var(--vscode-inputValidation-errorBorder);
+                    white-space: pre-wrap;
+                    font-family: var(--vscode-editor-font-family);
+                }
+                .output {
+                    flex: 1;
+                    overflow: auto;
+                }
+                pre {
+                    margin: 0;
+                    padding: 10px;
+                    white-space: pre-wrap;
+                    font-family: var(--vscode-editor-font-family);
+                    font-size: var(--vscode-editor-font-size);
+                }
+                iframe {
+                    display: none;
+                    flex: 1;
+                    width: 100%;
+                    border: none;
+                    background: white;
+                }
+                .stale {
+                    opacity: 0.6;
+                }
+            </style>
+        </head>
+        <body>
+            <div class="toolbar">
+                <span class="toggle">
+                    <button id="local" onclick="setRenderer('local')" title="Render in-process, free and instant">Local</button><button id="server" onclick="setRenderer('server')" title="Render through the Loro API (uses quota)">Server</button>
+                </span>
+                <span class="status" id="status">Rendering…</span>
+                <button onclick="refresh()" title="Render again">⟳</button>
+            </div>
+            <pre class="errors" id="errors"></pre>
+            <div class="output" id="textOutput"><pre id="text"></pre></div>
+            <iframe id="htmlOutput" sandbox="allow-same-origin"></iframe>
+
+            <script>
+                const vscode = acquireVsCodeApi();
+                const frame = document.getElementById('htmlOutput');
+                const textOutput = document.getElementById('textOutput');
+                let frameScroll = { x: 0, y: 0 };
+
+                function setRenderer(renderer) {
+                    vscode.postMessage({ type: 'setRenderer', renderer });
+                }
+
+                function refresh() {
+                    vscode.postMessage({ type: 'refresh' });
+                }
+
+                function showRenderer(renderer) {
+                    document.getElementById('local').classList.toggle('active', renderer === 'local');
+                    document.getElementById('server').classList.toggle('active', renderer === 'server');
+                }
+
+                // The frame is replaced on every update; put its scroll position back once it has loaded
+                frame.addEventListener('load', () => {
+                    frame.contentWindow.scrollTo(frameScroll.x, frameScroll.y);
+                });
+
+                window.addEventListener('message', event => {
+                    const message = event.data;
+                    showRenderer(message.renderer);
+
+                    if (message.type === 'rendering') {
+                        document.body.classList.add('stale');
+                        return;
+                    }
+
+                    document.body.classList.remove('stale');
+                    const status = message.success ? 'Rendered' : 'Failed';
+                    document.getElementById('status').textContent =
+                        status + ' ' + message.templateName + ' (' + message.renderer + ', ' + message.duration + 'ms)' +
+                        (message.dataSource ? ' with ' + message.dataSource : '');
+
+                    const errors = document.getElementById('errors');
+                    errors.textContent = message.errors.join('\\n');
+                    errors.style.display = message.errors.length > 0 ? 'block' : 'none';
+
+                    // Keep the last good output on screen while the template has errors
+                    if (!message.success) {
+                        return;
+                    }
+
+                    if (message.isHtml) {
+                        if (frame.style.display === 'block' && frame.contentWindow) {
+                            frameScroll = { x: frame.contentWindow.scrollX, y: frame.contentWindow.scrollY };
+                        }
+                        frame.srcdoc = message.output;
+                        frame.style.display = 'block';
+                        textOutput.style.display = 'none';
+                    } else {
+                        document.getElementById('text').textContent = message.output;
+                        textOutput.style.display = 'block';
+                        frame.style.display = 'none';
+                    }
+                });
+            </script>
+        </body>
+        </html>`;
+    }
+
+    dispose(): void {
+        clearTimeout(this.renderTimer);
+        this.panel?.dispose();
+        this.disposables.forEach(disposable => disposable.dispose());
+    }
+}
+
+function getRenderOn(): 'edit' | 'save' {
+    return vscode.workspace.getConfiguration('loro').get<'edit' | 'save'>('previewRenderOn', 'edit');
+}
@@ -0,0 +1,305 @@
+import * as vscode from 'vscode';
+import { checkEmailHtml, isHtml } from '../core/emailHtml';
+
+// Preview widths of the email frame; desktop fills the panel
+const DEVICE_WIDTHS: { [device: string]: string } = {
+    desktop: '100%',
+    tablet: '768px',
+    mobile: '375px'
+};
+
+export function showTestResult(template: any, result: any, column: vscode.ViewColumn = vscode.ViewColumn.Beside): void {
+    const panel = vscode.window.createWebviewPanel(
+        'loroTestResult',
+        `Test Result: ${template?.name || 'Unknown Template'}`,
+        column,
+        {
+            enableScripts: true,
+            retainContextWhenHidden: true
+        }
+    );
+
+    panel.webview.html = getTestResultHtml(template, result);
+    panel.reveal(column, false);
+}
+
+/**
+ * Test result page. HTML output (most templates are emails) is shown in a sandboxed
+ * frame at desktop, tablet or mobile width, with simulated dark mode, blocked images
+ * and a list of things common email clients would strip; other output as text.
+ */
+function getTestResultHtml(template: any, result: any): string {
+    // Ensure we have a result object with default values
+    const safeResult = {
+        success: result?.success ?? false,
+        output: String(result?.output ?? 'No output received'),
+        duration: result?.duration ?? 0,
+        errors: (result?.errors ?? []) as any[],
+        usageConsumed: result?.usageConsumed ?? 0,
+        source: result?.source
+    };
+    const sourceLabel = safeResult.source === 'unsaved'
+        ? 'Rendered on the server from unsaved editor content'
+        : safeResult.source === 'local'
+            ? 'Rendered locally'
+            : safeResult.source === 'saved'
+                ? 'Rendered on the server from the saved template'
+                : '';
+    const statusColor = safeResult.success ? '#4CAF50' : '#f44336';
+    const html = safeResult.success && isHtml(safeResult.output);
+    const warnings = html ? checkEmailHtml(safeResult.output) : [];
+    // Embedded in a <script> block, so `<` must not close it
+    const output = JSON.stringify(safeResult.output).replace(/</g, '\\u003c');
+
+    return `
+    <!DOCTYPE html>
+    <html lang="en">
+    <head>
+        <meta charset="UTF-8">
+        <meta name="viewport" content="width=device-width, initial-scale=1.0">
+        <title>Test Result</title>
+        <style>
+            body {
+                font-family: var(--vscode-font-family);
+                color: var(--vscode-foreground);
+                background: var(--vscode-editor-background);
+                padding: 20px;
+            }
+            .status {
+                padding: 10px;
+                border-radius: 4px;
+                margin-bottom: 20px;
+                background: ${statusColor};
+                color: white;
+                font-weight: bold;
+            }
+            .section {
+                margin-bottom: 20px;
+                border: 1px solid var(--vscode-panel-border);
+                border-radius: 4px;
+            }
+            .section-header {
+                display: flex;
+                flex-wrap: wrap;
+                gap: 12px;
+                align-items: center;
+                background: var(--vscode-panel-background);
+                padding: 10px;
+                font-weight: bold;
+                border-bottom: 1px solid var(--vscode-panel-border);
+            }
+            .section-content {
+                padding: 15px;
+            }
+            .error {
+                color: var(--vscode-errorForeground);
+                background: var(--vscode-inputValidation-errorBackground);
+                padding: 8px;
+                border-radius: 4px;
+                margin: 5px 0;
+            }
+            .warning {
+                background: var(--vscode-inputValidation-warningBackground);
+                border-left: 3px solid var(--vscode-inputValidation-warningBorder);
+                padding: 6px 8px;
+                margin: 5px 0;
+            }
+            pre {
+                background: var(--vscode-textCodeBlock-background);
+                padding: 10px;
+                border-radius: 4px;
+                overflow-x: auto;
+                white-space: pre-wrap;
+                margin: 0;
+            }
+            .meta {
+                color: var(--vscode-descriptionForeground);
+                font-size: 0.9em;
+                margin-bottom: 20px;
+            }
+            .toggle button {
+                background: var(--vscode-button-secondaryBackground);
+                color: var(--vscode-button-secondaryForeground);
+                border: none;
+                padding: 3px 10px;
+                cursor: pointer;
+                font-family: var(--vscode-font-family);
+                font-size: 12px;
+            }
+            .toggle button.active {
+                background: var(--vscode-button-background);
+                color: var(--vscode-button-foreground);
+            }
+            .section-header label {
+                font-weight: normal;
+                font-size: 12px;
+            }
+            .frame-container {
+                display: flex;
+                justify-content: center;
+                background: var(--vscode-textCodeBlock-background);
+                padding: 10px;
+                border-radius: 4px;
+            }
+            iframe {
+                max-width: 100%;
+                min-height: 200px;
+                border: none;
+                background: white;
+                transition: width 0.2s;
+            }
+        </style>
+    </head>
+    <body>
+        <h1>Test Result: ${escapeHtml(template?.name || 'Unknown Template')}</h1>
+
+        <div class="status">
+            ${safeResult.success ? '✅ Test Passed' : '❌ Test Failed'}
+        </div>
+
+        <div class="meta">
+            Duration: ${safeResult.duration}ms
+            ${safeResult.usageConsumed ? ` | API Usage: ${safeResult.usageConsumed} call(s)` : ''}
+            ${sourceLabel ? ` | ${sourceLabel}` : ''}
+        </div>
+
+        ${safeResult.errors.length > 0 ? `
+        <div class="section">
+            <div class="section-header">⚠️ Errors</div>
+            <div class="section-content">
+                ${safeResult.errors.map(error => `<div class="error">${escapeHtml(String(error))}</div>`).join('')}
+            </div>
+        </div>
+        ` : ''}
+
+        ${html ? `
+        <div class="section">
+            <div class="section-header">
+                <span>📧 Email Preview</span>
+                <span class="toggle">${Object.keys(DEVICE_WIDTHS).map(device =>
+                    `<button id="${device}" onclick="setDevice('${device}')">${device[0].toUpperCase()}${device.slice(1)}</button>`
+                ).join('')}</span>
+                <span class="toggle"><button id="preview" onclick="setView('preview')">Preview</button><button id="source" onclick="setView('source')">Source</button></span>
+                <label><input type="checkbox" id="darkMode" onchange="update()"> Dark mode</label>
+                <label><input type="checkbox" id="showImages" onchange="update()" checked> Images</label>
+            </div>
+            <div class="section-content">
+                <div class="frame-container" id="frameContainer"><iframe id="frame" sandbox="allow-same-origin"></iframe></div>
+                <pre id="sourceOutput" style="display: none">${escapeHtml(safeResult.output)}</pre>
+            </div>
+        </div>
+
+        <div class="section">
+            <div class="section-header">📋 Email Client Warnings (${warnings.length})</div>
+            <div class="section-content">
+                ${warnings.length > 0
+                    ? warnings.map(warning => `<div class="warning">${escapeHtml(warning.message)}</div>`).join('')
+                    : 'No common email client issues found.'}
+            </div>
+        </div>
+        ` : `
+        <div class="section">
+            <div class="section-header">📄 Output</div>
+            <div class="section-content">
+                <pre>${escapeHtml(safeResult.output || '(no output)')}</pre>
+            </div>
+        </div>
+        `}
+
+        ${html ? `
+        <script>
+            const output = ${output};
+            const widths = ${JSON.stringify(DEVICE_WIDTHS)};
+            const frame = document.getElementById('frame');
+            let device = 'desktop';
+            let view = 'preview';
+
+            function setDevice(value) {
+                device = value;
+                update();
+            }
+
+            function setView(value) {
+                view = value;
+                update();
+            }
+
+            // Blocked images show as a box with their alt text, like most clients do
+            function hideImages(doc) {
+                for (const image of Array.from(doc.images)) {
+                    const placeholder = doc.createElement('span');
+                    placeholder.textContent = image.getAttribute('alt') || '';
+                    placeholder.style.cssText = 'display: inline-block; box-sizing: border-box; overflow: hidden; padding: 4px; ' +
+                        'border: 1px dashed #999; color: #666; font: 12px sans-serif; vertical-align: middle;';
+                    for (const dimension of ['width', 'height']) {
+                        const value = image.getAttribute(dimension);
+                        if (value) {
+                            placeholder.style[dimension] = /^\\d+$/.test(value) ? value + 'px' : value;
+                        }
+                    }
+                    image.replaceWith(placeholder);
+                }
+            }
+
+            // Templates with prefers-color-scheme rules get their dark styles; others are
+            // colour-inverted the way Gmail and Outlook apps do it
+            function applyDarkMode(doc) {
+                const styles = Array.from(doc.querySelectorAll('style'));
+                if (styles.some(style => /prefers-color-scheme\\s*:\\s*dark/i.test(style.textContent))) {
+                    for (const style of styles) {
+                        style.textContent = style.textContent
+                            .replace(/prefers-color-scheme\\s*:\\s*dark/gi, 'min-width: 0px')
+                            .replace(/prefers-color-scheme\\s*:\\s*light/gi, 'max-width: 0px');
+                    }
+                    return;
+                }
+                const inversion = doc.createElement('style');
+                inversion.textContent = 'html { filter: invert(1) hue-rotate(180deg); background: white; } ' +
+                    'img, picture, video { filter: invert(1) hue-rotate(180deg); }';
+                doc.head.appendChild(inversion);
+            }
+
+            function buildDocument() {
+                const doc = new DOMParser().parseFromString(output, 'text/html');
+                if (!document.getElementById('showImages').checked) {
+                    hideImages(doc);
+                }
+                if (document.getElementById('darkMode').checked) {
+                    applyDarkMode(doc);
+                }
+                return '<!DOCTYPE html>' + doc.documentElement.outerHTML;
+            }
+
+            function update() {
+                for (const name of Object.keys(widths)) {
+                    document.getElementById(name).classList.toggle('active', name === device);
+                }
+                document.getElementById('preview').classList.toggle('active', view === 'preview');
+                document.getElementById('source').classList.toggle('active', view === 'source');
+                document.getElementById('frameContainer').style.display = view === 'preview' ? 'flex' : 'none';
+                document.getElementById('sourceOutput').style.display = view === 'source' ? 'block' : 'none';
+
+                frame.style.width = widths[device];
+                frame.srcdoc = buildDocument();
+            }
+
+            // Grow the frame to its content so the page scrolls instead of the frame
+            frame.addEventListener('load', () => {
+                frame.style.height = frame.contentDocument.documentElement.scrollHeight + 'px';
+            });
+
+            update();
+        </script>
+        ` : ''}
+    </body>
+    </html>`;
+}
+
+function escapeHtml(text: string): string {
+    return text
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&#39;');
+}